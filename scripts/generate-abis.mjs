@@ -0,0 +1,47 @@
+// Generates `as const` TypeScript modules from the JSON ABIs in src/Abis.
+// Run `npm run generate:abis` after copying fresh ABIs out of the contracts build.
+import { readdirSync, readFileSync, writeFileSync, mkdirSync, rmSync } from 'node:fs'
+import { basename, join, dirname } from 'node:path'
+import { fileURLToPath } from 'node:url'
+
+const abisDir = join(dirname(fileURLToPath(import.meta.url)), '..', 'src', 'Abis')
+const outDir = join(abisDir, 'generated')
+const HEADER = '// This file is generated by scripts/generate-abis.mjs. Do not edit it by hand.\n'
+
+// FlexibleLoanManager -> FLEXIBLE_LOAN_MANAGER_ABI, MockVCOPOracle -> MOCK_VCOP_ORACLE_ABI
+const toConstName = (contract) =>
+  `${contract
+    .replace(/([a-z0-9])([A-Z])/g, '$1_$2')
+    .replace(/([A-Z])([A-Z][a-z])/g, '$1_$2')
+    .toUpperCase()}_ABI`
+
+rmSync(outDir, { recursive: true, force: true })
+mkdirSync(outDir)
+
+const contracts = readdirSync(abisDir)
+  .filter((file) => file.endsWith('.json'))
+  .sort()
+  .map((file) => {
+    const contract = basename(file, '.json')
+    const abi = JSON.parse(readFileSync(join(abisDir, file), 'utf8'))
+    if (!Array.isArray(abi)) {
+      throw new Error(`${file} is not an ABI array`)
+    }
+
+    const constName = toConstName(contract)
+    writeFileSync(
+      join(outDir, `${contract}.ts`),
+      `${HEADER}\nexport const ${constName} = ${JSON.stringify(abi, null, 2)} as const\n`
+    )
+    return { contract, constName }
+  })
+
+writeFileSync(
+  join(outDir, 'index.ts'),
+  HEADER +
+    '\n' +
+    contracts.map(({ contract, constName }) => `export { ${constName} } from './${contract}'`).join('\n') +
+    '\n'
+)
+
+console.log(`Generated ${contracts.length} ABI modules in ${outDir}`)
@@ -0,0 +1,10 @@
+// This file is generated by scripts/generate-abis.mjs. Do not edit it by hand.
+
+export { FLEXIBLE_LOAN_MANAGER_ABI } from './FlexibleLoanManager'
+export { LOAN_AUTOMATION_KEEPER_OPTIMIZED_ABI } from './LoanAutomationKeeperOptimized'
+export { LOAN_MANAGER_AUTOMATION_ADAPTER_ABI } from './LoanManagerAutomationAdapter'
+export { MOCK_ETH_ABI } from './MockETH'
+export { MOCK_USDC_ABI } from './MockUSDC'
+export { MOCK_VCOP_ORACLE_ABI } from './MockVCOPOracle'
+export { PRICE_CHANGE_LOG_TRIGGER_ABI } from './PriceChangeLogTrigger'
+export { VAULT_BASED_HANDLER_ABI } from './VaultBasedHandler'
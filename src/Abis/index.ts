@@ -0,0 +1,6 @@
+// Typed ABIs for every contract in src/Abis.
+// The JSON files are the source of truth; run `npm run generate:abis` after updating them.
+export * from './generated'
+
+// Standard ERC20 subset (balanceOf, allowance, approve, decimals...) shared by every token
+export { erc20Abi as ERC20_ABI } from 'viem'
@@ -0,0 +1,500 @@
+import React from 'react';
+import { Shield, Landmark, Vault, Radar, Play, CheckCircle, XCircle, ExternalLink } from 'lucide-react';
+import { formatUnits, parseUnits, type Address } from 'viem';
+import {
+  useProtocolAdmin,
+  ADMIN_ACTION_CONTRACT,
+  type AdminAction,
+  type AdminContract
+} from '../../hooks/useProtocolAdmin';
+import { useContractAddresses } from '../../hooks/useContractAddresses';
+import { useBlockExplorer } from '../../hooks/useBlockExplorer';
+
+// Los porcentajes del protocolo van en 6 decimales (10000 = 1%)
+const formatPercent = (value: bigint): string => `${(Number(value) / 10000).toFixed(2)}%`;
+
+const parsePercent = (value: string): bigint | null => {
+  const parsed = Number(value);
+  if (value.trim() === '' || !Number.isFinite(parsed) || parsed < 0) return null;
+  return BigInt(Math.round(parsed * 10000));
+};
+
+const parseInteger = (value: string): bigint | null => {
+  try {
+    return value.trim() === '' ? null : BigInt(value.trim());
+  } catch {
+    return null;
+  }
+};
+
+const CONTRACT_LABELS: Record<AdminContract, string> = {
+  loanManager: 'FlexibleLoanManager',
+  vaultHandler: 'VaultBasedHandler',
+  adapter: 'Automation Adapter'
+};
+
+const describeAction = (action: AdminAction, getSymbol: (address: string) => string): string => {
+  switch (action.kind) {
+    case 'setProtocolFee':
+      return `Set the protocol fee to ${formatPercent(action.fee)}`;
+    case 'setPaused':
+      return action.paused ? 'Pause the loan manager' : 'Unpause the loan manager';
+    case 'setLiquidationBonus':
+      return `Set the liquidation bonus to ${formatPercent(action.bonus)}`;
+    case 'activateEmergencyMode':
+      return `Activate emergency mode for ${action.assets.map(getSymbol).join(', ')} ("${action.reason}")`;
+    case 'resolveEmergencyMode':
+      return `Resolve emergency mode for ${action.assets.map(getSymbol).join(', ')} ("${action.reason}")`;
+    case 'configureAsset':
+      return `Configure ${getSymbol(action.token)}: collateral ${formatPercent(action.collateralRatio)}, liquidation ${formatPercent(action.liquidationRatio)}, interest ${formatPercent(action.interestRate)}, max loan ${action.maxLoanAmount.toString()} base units`;
+    case 'updateBothRatios':
+      return `Update ${getSymbol(action.token)} ratios: collateral ${formatPercent(action.collateralRatio)}, liquidation ${formatPercent(action.liquidationRatio)}`;
+    case 'setInterestRateParams':
+      return `Set the base interest rate to ${formatPercent(action.baseRate)} and the utilization multiplier to ${formatPercent(action.multiplier)}`;
+    case 'setRiskThresholds':
+      return `Set risk thresholds: critical ${action.critical.toString()}, danger ${action.danger.toString()}, warning ${action.warning.toString()}`;
+  }
+};
+
+const Field: React.FC<{
+  label: string;
+  value: string;
+  onChange: (value: string) => void;
+  placeholder?: string;
+  type?: string;
+}> = ({ label, value, onChange, placeholder, type = 'number' }) => (
+  <label className="text-xs text-gray-600">
+    {label}
+    <input
+      type={type}
+      min={type === 'number' ? '0' : undefined}
+      step="any"
+      value={value}
+      placeholder={placeholder}
+      onChange={(e) => onChange(e.target.value)}
+      className="mt-1 w-full px-3 py-2 border border-gray-300 rounded-lg text-sm"
+    />
+  </label>
+);
+
+const ActionCard: React.FC<{
+  title: string;
+  description: string;
+  onSimulate: () => void;
+  disabled: boolean;
+  simulateLabel?: string;
+  children?: React.ReactNode;
+}> = ({ title, description, onSimulate, disabled, simulateLabel = 'Simulate', children }) => (
+  <div className="border border-gray-200 rounded-lg p-4">
+    <h4 className="font-semibold text-gray-900">{title}</h4>
+    <p className="text-xs text-gray-500 mb-3">{description}</p>
+    {children && <div className="grid grid-cols-1 md:grid-cols-2 gap-3 mb-3">{children}</div>}
+    <button
+      onClick={onSimulate}
+      disabled={disabled}
+      className="flex items-center gap-2 px-3 py-2 text-sm bg-gray-800 hover:bg-gray-900 disabled:bg-gray-300 text-white rounded-lg transition-colors"
+    >
+      <Play className="w-4 h-4" />
+      {simulateLabel}
+    </button>
+  </div>
+);
+
+const SectionHeader: React.FC<{ title: string; icon: React.ReactNode; address?: Address }> = ({ title, icon, address }) => {
+  const { getAddressUrl } = useBlockExplorer();
+
+  return (
+    <div className="flex justify-between items-center mb-4">
+      <h3 className="text-lg font-bold text-gray-900 flex items-center gap-2">
+        {icon}
+        {title}
+      </h3>
+      {address && (
+        <a
+          href={getAddressUrl(address)}
+          target="_blank"
+          rel="noopener noreferrer"
+          className="text-xs text-gray-500 font-mono hover:text-blue-600 flex items-center gap-1"
+        >
+          {address.slice(0, 10)}...{address.slice(-8)}
+          <ExternalLink className="w-3 h-3" />
+        </a>
+      )}
+    </div>
+  );
+};
+
+export const AdminTab: React.FC = () => {
+  const {
+    addresses,
+    ownership,
+    isAdmin,
+    loanManagerConfig,
+    vaultHandlerConfig,
+    adapterConfig,
+    assetConfigs,
+    isLoading,
+    state,
+    simulate,
+    confirm,
+    reset
+  } = useProtocolAdmin();
+  const { getAssetSymbol, getTokenInfo } = useContractAddresses();
+  const { getTxUrl } = useBlockExplorer();
+
+  // Loan manager
+  const [protocolFee, setProtocolFee] = React.useState('');
+  const [liquidationBonus, setLiquidationBonus] = React.useState('');
+  const [emergencyAssets, setEmergencyAssets] = React.useState<Address[]>([]);
+  const [emergencyReason, setEmergencyReason] = React.useState('');
+
+  // Vault handler
+  const [selectedToken, setSelectedToken] = React.useState<Address | ''>('');
+  const [collateralRatio, setCollateralRatio] = React.useState('');
+  const [liquidationRatio, setLiquidationRatio] = React.useState('');
+  const [maxLoanAmount, setMaxLoanAmount] = React.useState('');
+  const [assetInterestRate, setAssetInterestRate] = React.useState('');
+  const [baseRate, setBaseRate] = React.useState('');
+  const [multiplier, setMultiplier] = React.useState('');
+
+  // Adapter
+  const [criticalThreshold, setCriticalThreshold] = React.useState('');
+  const [dangerThreshold, setDangerThreshold] = React.useState('');
+  const [warningThreshold, setWarningThreshold] = React.useState('');
+
+  const isBusy = ['simulating', 'submitting', 'confirming'].includes(state.step);
+  const selectedConfig = assetConfigs.find((config) => config.token === selectedToken);
+  const selectedDecimals = selectedToken ? getTokenInfo(selectedToken)?.decimals ?? 18 : 18;
+
+  React.useEffect(() => {
+    if (!selectedToken && assetConfigs.length > 0) setSelectedToken(assetConfigs[0].token);
+  }, [assetConfigs, selectedToken]);
+
+  const parseMaxLoanAmount = (): bigint | null => {
+    try {
+      return maxLoanAmount.trim() === '' ? null : parseUnits(maxLoanAmount.trim(), selectedDecimals);
+    } catch {
+      return null;
+    }
+  };
+
+  const toggleEmergencyAsset = (token: Address) => {
+    setEmergencyAssets((prev) =>
+      prev.includes(token) ? prev.filter((asset) => asset !== token) : [...prev, token]
+    );
+  };
+
+  if (isLoading) {
+    return (
+      <div className="p-6 text-center py-12">
+        <div className="animate-spin w-8 h-8 border-2 border-emerald-500 border-t-transparent rounded-full mx-auto mb-4"></div>
+        <p className="text-gray-600">Checking contract ownership.</p>
+      </div>
+    );
+  }
+
+  if (!isAdmin) {
+    return (
+      <div className="p-6 text-center py-12 text-gray-600">
+        The connected account does not own any protocol contract.
+      </div>
+    );
+  }
+
+  const fee = parsePercent(protocolFee);
+  const bonus = parsePercent(liquidationBonus);
+  const newCollateralRatio = parsePercent(collateralRatio);
+  const newLiquidationRatio = parsePercent(liquidationRatio);
+  const newInterestRate = parsePercent(assetInterestRate);
+  const newMaxLoanAmount = parseMaxLoanAmount();
+  const newBaseRate = parsePercent(baseRate);
+  const newMultiplier = parsePercent(multiplier);
+  const critical = parseInteger(criticalThreshold);
+  const danger = parseInteger(dangerThreshold);
+  const warning = parseInteger(warningThreshold);
+
+  return (
+    <div className="p-6">
+      {/* Header */}
+      <div className="mb-6">
+        <h2 className="text-2xl font-bold text-gray-900">Protocol Admin</h2>
+        <p className="text-gray-600">Owner-only operations. Every action is simulated with your account before you sign it.</p>
+        <div className="flex flex-wrap gap-2 mt-3">
+          {(Object.keys(CONTRACT_LABELS) as AdminContract[]).map((contract) => (
+            <span
+              key={contract}
+              className={`text-xs px-2 py-0.5 rounded-full font-semibold ${
+                ownership[contract] ? 'bg-emerald-100 text-emerald-700' : 'bg-gray-100 text-gray-500'
+              }`}
+            >
+              {CONTRACT_LABELS[contract]}: {ownership[contract] ? 'owner' : 'not owner'}
+            </span>
+          ))}
+        </div>
+      </div>
+
+      {/* Confirmation */}
+      {state.action && (
+        <div
+          className={`mb-6 rounded-lg border p-4 ${
+            state.error ? 'bg-red-50 border-red-200' : state.step === 'completed' ? 'bg-emerald-50 border-emerald-200' : 'bg-blue-50 border-blue-200'
+          }`}
+        >
+          <div className="flex items-start gap-3">
+            {state.error ? (
+              <XCircle className="w-5 h-5 text-red-600 flex-shrink-0" />
+            ) : (
+              <CheckCircle className={`w-5 h-5 flex-shrink-0 ${state.step === 'completed' ? 'text-emerald-600' : 'text-blue-600'}`} />
+            )}
+            <div className="flex-1 text-sm">
+              <p className="font-semibold text-gray-900">
+                {CONTRACT_LABELS[ADMIN_ACTION_CONTRACT[state.action.kind]]}.{state.action.kind}
+              </p>
+              <p className="text-gray-700">{describeAction(state.action, getAssetSymbol)}</p>
+
+              {state.step === 'simulating' && <p className="text-blue-700 mt-2">Simulating...</p>}
+              {state.step === 'ready' && (
+                <p className="text-blue-700 mt-2">
+                  Simulation succeeded. Estimated gas: {state.gasEstimate?.toString() ?? 'unknown'}.
+                </p>
+              )}
+              {state.step === 'submitting' && <p className="text-blue-700 mt-2">Confirm in wallet...</p>}
+              {state.step === 'confirming' && <p className="text-blue-700 mt-2">Waiting for confirmation...</p>}
+              {state.step === 'completed' && <p className="text-emerald-700 mt-2">Transaction confirmed.</p>}
+              {state.error && <p className="text-red-700 mt-2">❌ {state.error}</p>}
+
+              {state.txHash && (
+                <a
+                  href={getTxUrl(state.txHash)}
+                  target="_blank"
+                  rel="noopener noreferrer"
+                  className="text-xs text-blue-600 hover:underline flex items-center gap-1 mt-1"
+                >
+                  {state.txHash.slice(0, 10)}...{state.txHash.slice(-8)}
+                  <ExternalLink className="w-3 h-3" />
+                </a>
+              )}
+            </div>
+          </div>
+
+          <div className="flex justify-end gap-2 mt-3">
+            {!['submitting', 'confirming'].includes(state.step) && (
+              <button
+                onClick={reset}
+                className="px-3 py-2 text-sm bg-gray-100 hover:bg-gray-200 text-gray-700 rounded-lg transition-colors"
+              >
+                {state.step === 'ready' ? 'Cancel' : 'Close'}
+              </button>
+            )}
+            {state.step === 'ready' && (
+              <button
+                onClick={() => confirm()}
+                className="px-3 py-2 text-sm bg-emerald-600 hover:bg-emerald-700 text-white rounded-lg font-semibold transition-colors"
+              >
+                Confirm and sign
+              </button>
+            )}
+          </div>
+        </div>
+      )}
+
+      <div className="space-y-6">
+        {/* Loan manager */}
+        {ownership.loanManager && loanManagerConfig && (
+          <div className="bg-white rounded-xl border border-gray-200 p-4">
+            <SectionHeader title="Loan Manager" icon={<Landmark className="w-5 h-5 text-gray-600" />} address={addresses.loanManager} />
+            <div className="grid grid-cols-1 lg:grid-cols-2 gap-4">
+              <ActionCard
+                title="Protocol fee"
+                description={`Current: ${formatPercent(loanManagerConfig.protocolFee)} of interest paid`}
+                onSimulate={() => fee !== null && simulate({ kind: 'setProtocolFee', fee })}
+                disabled={isBusy || fee === null}
+              >
+                <Field label="New fee (%)" value={protocolFee} onChange={setProtocolFee} placeholder="0.5" />
+              </ActionCard>
+
+              <ActionCard
+                title="Liquidation bonus"
+                description={`Current: ${formatPercent(loanManagerConfig.liquidationBonus)}`}
+                onSimulate={() => bonus !== null && simulate({ kind: 'setLiquidationBonus', bonus })}
+                disabled={isBusy || bonus === null}
+              >
+                <Field label="New bonus (%)" value={liquidationBonus} onChange={setLiquidationBonus} placeholder="5" />
+              </ActionCard>
+
+              <ActionCard
+                title="Pause"
+                description={`The loan manager is currently ${loanManagerConfig.paused ? 'paused' : 'active'}.`}
+                onSimulate={() => simulate({ kind: 'setPaused', paused: !loanManagerConfig.paused })}
+                disabled={isBusy}
+                simulateLabel={loanManagerConfig.paused ? 'Simulate unpause' : 'Simulate pause'}
+              />
+
+              <div className="border border-gray-200 rounded-lg p-4">
+                <h4 className="font-semibold text-gray-900">Emergency mode</h4>
+                <p className="text-xs text-gray-500 mb-3">Activate or resolve emergency mode for the selected assets.</p>
+                <div className="flex flex-wrap gap-3 mb-3">
+                  {assetConfigs.map(({ token, symbol }) => (
+                    <label key={token} className="flex items-center gap-1 text-sm text-gray-700">
+                      <input
+                        type="checkbox"
+                        checked={emergencyAssets.includes(token)}
+                        onChange={() => toggleEmergencyAsset(token)}
+                      />
+                      {symbol}
+                    </label>
+                  ))}
+                </div>
+                <div className="mb-3">
+                  <Field label="Reason" type="text" value={emergencyReason} onChange={setEmergencyReason} />
+                </div>
+                <div className="flex gap-2">
+                  <button
+                    onClick={() => simulate({ kind: 'activateEmergencyMode', assets: emergencyAssets, reason: emergencyReason })}
+                    disabled={isBusy || emergencyAssets.length === 0 || emergencyReason.trim() === ''}
+                    className="flex items-center gap-2 px-3 py-2 text-sm bg-red-600 hover:bg-red-700 disabled:bg-gray-300 text-white rounded-lg transition-colors"
+                  >
+                    <Play className="w-4 h-4" />
+                    Simulate activate
+                  </button>
+                  <button
+                    onClick={() => simulate({ kind: 'resolveEmergencyMode', assets: emergencyAssets, reason: emergencyReason })}
+                    disabled={isBusy || emergencyAssets.length === 0 || emergencyReason.trim() === ''}
+                    className="flex items-center gap-2 px-3 py-2 text-sm bg-gray-800 hover:bg-gray-900 disabled:bg-gray-300 text-white rounded-lg transition-colors"
+                  >
+                    <Play className="w-4 h-4" />
+                    Simulate resolve
+                  </button>
+                </div>
+              </div>
+            </div>
+          </div>
+        )}
+
+        {/* Vault handler */}
+        {ownership.vaultHandler && vaultHandlerConfig && (
+          <div className="bg-white rounded-xl border border-gray-200 p-4">
+            <SectionHeader title="Vault Handler" icon={<Vault className="w-5 h-5 text-gray-600" />} address={addresses.vaultHandler} />
+
+            <label className="block text-xs text-gray-600 mb-4 max-w-xs">
+              Asset
+              <select
+                value={selectedToken}
+                onChange={(e) => setSelectedToken(e.target.value as Address)}
+                className="mt-1 w-full px-3 py-2 border border-gray-300 rounded-lg text-sm"
+              >
+                {assetConfigs.map(({ token, symbol }) => (
+                  <option key={token} value={token}>{symbol}</option>
+                ))}
+              </select>
+            </label>
+
+            {selectedConfig && (
+              <p className="text-xs text-gray-500 mb-4">
+                Current {selectedConfig.symbol}: {selectedConfig.isActive ? 'active' : 'not configured'}, collateral{' '}
+                {formatPercent(selectedConfig.collateralRatio)}, liquidation {formatPercent(selectedConfig.liquidationRatio)},
+                interest {formatPercent(selectedConfig.interestRate)}, max loan{' '}
+                {formatUnits(selectedConfig.maxLoanAmount, selectedDecimals)}
+              </p>
+            )}
+
+            <div className="grid grid-cols-1 lg:grid-cols-2 gap-4">
+              <ActionCard
+                title="Configure asset"
+                description="Adds the asset or replaces its whole configuration."
+                onSimulate={() =>
+                  selectedToken &&
+                  newCollateralRatio !== null &&
+                  newLiquidationRatio !== null &&
+                  newMaxLoanAmount !== null &&
+                  newInterestRate !== null &&
+                  simulate({
+                    kind: 'configureAsset',
+                    token: selectedToken,
+                    collateralRatio: newCollateralRatio,
+                    liquidationRatio: newLiquidationRatio,
+                    maxLoanAmount: newMaxLoanAmount,
+                    interestRate: newInterestRate
+                  })
+                }
+                disabled={
+                  isBusy ||
+                  !selectedToken ||
+                  newCollateralRatio === null ||
+                  newLiquidationRatio === null ||
+                  newMaxLoanAmount === null ||
+                  newInterestRate === null
+                }
+              >
+                <Field label="Collateral ratio (%)" value={collateralRatio} onChange={setCollateralRatio} placeholder="150" />
+                <Field label="Liquidation ratio (%)" value={liquidationRatio} onChange={setLiquidationRatio} placeholder="120" />
+                <Field label="Max loan amount (tokens)" value={maxLoanAmount} onChange={setMaxLoanAmount} />
+                <Field label="Interest rate (%)" value={assetInterestRate} onChange={setAssetInterestRate} placeholder="8" />
+              </ActionCard>
+
+              <ActionCard
+                title="Update ratios"
+                description="Changes only the collateral and liquidation ratios, using the fields above."
+                onSimulate={() =>
+                  selectedToken &&
+                  newCollateralRatio !== null &&
+                  newLiquidationRatio !== null &&
+                  simulate({
+                    kind: 'updateBothRatios',
+                    token: selectedToken,
+                    collateralRatio: newCollateralRatio,
+                    liquidationRatio: newLiquidationRatio
+                  })
+                }
+                disabled={isBusy || !selectedToken || newCollateralRatio === null || newLiquidationRatio === null}
+              />
+
+              <ActionCard
+                title="Interest rate model"
+                description={`Current: base ${formatPercent(vaultHandlerConfig.baseInterestRate)}, utilization multiplier ${formatPercent(vaultHandlerConfig.utilizationMultiplier)}`}
+                onSimulate={() =>
+                  newBaseRate !== null &&
+                  newMultiplier !== null &&
+                  simulate({ kind: 'setInterestRateParams', baseRate: newBaseRate, multiplier: newMultiplier })
+                }
+                disabled={isBusy || newBaseRate === null || newMultiplier === null}
+              >
+                <Field label="Base rate (%)" value={baseRate} onChange={setBaseRate} />
+                <Field label="Utilization multiplier (%)" value={multiplier} onChange={setMultiplier} />
+              </ActionCard>
+            </div>
+          </div>
+        )}
+
+        {/* Adapter */}
+        {ownership.adapter && adapterConfig && (
+          <div className="bg-white rounded-xl border border-gray-200 p-4">
+            <SectionHeader title="Automation Adapter" icon={<Radar className="w-5 h-5 text-gray-600" />} address={addresses.adapter} />
+            <ActionCard
+              title="Risk thresholds"
+              description={`Current: critical ${adapterConfig.criticalRiskThreshold.toString()}, danger ${adapterConfig.dangerRiskThreshold.toString()}, warning ${adapterConfig.warningRiskThreshold.toString()} (0-100 risk scale)`}
+              onSimulate={() =>
+                critical !== null &&
+                danger !== null &&
+                warning !== null &&
+                simulate({ kind: 'setRiskThresholds', critical, danger, warning })
+              }
+              disabled={isBusy || critical === null || danger === null || warning === null}
+            >
+              <Field label="Critical" value={criticalThreshold} onChange={setCriticalThreshold} placeholder="95" />
+              <Field label="Danger" value={dangerThreshold} onChange={setDangerThreshold} placeholder="85" />
+              <Field label="Warning" value={warningThreshold} onChange={setWarningThreshold} placeholder="75" />
+            </ActionCard>
+          </div>
+        )}
+      </div>
+
+      <p className="mt-6 text-xs text-gray-500 flex items-center gap-1">
+        <Shield className="w-3 h-3" />
+        Sections appear only for contracts whose owner() is the connected account.
+      </p>
+    </div>
+  );
+};
+
+export default AdminTab;
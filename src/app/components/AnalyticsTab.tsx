@@ -1,73 +1,178 @@
 import React from 'react';
-import { 
+import {
   DollarSign,
   Shield,
   Activity,
   TrendingUp,
-  BarChart3
+  BarChart3,
+  RefreshCw
 } from 'lucide-react';
+import { useAccount } from 'wagmi';
+import { useProtocolAnalytics } from '../../hooks/useProtocolAnalytics';
+import AssetIcon from './AssetIcon';
+
+const formatUSD = (value: number): string => {
+  return `$${value.toLocaleString('en-US', { minimumFractionDigits: 2, maximumFractionDigits: 2 })}`;
+};
+
+const formatTokenAmount = (value: number): string => {
+  return value.toLocaleString('en-US', { maximumFractionDigits: value >= 1000 ? 0 : 4 });
+};
+
+const getHealthFactorColor = (healthFactor: number | null): string => {
+  if (healthFactor === null || healthFactor >= 2) return 'text-green-600';
+  if (healthFactor >= 1.5) return 'text-blue-600';
+  if (healthFactor >= 1.2) return 'text-yellow-600';
+  if (healthFactor >= 1.1) return 'text-orange-600';
+  return 'text-red-600';
+};
 
 export const AnalyticsTab: React.FC = () => {
+  const { isConnected } = useAccount();
+  const { protocol, user, isLoading, isLoadingPositions, refresh } = useProtocolAnalytics();
+
+  const hasPositions = isConnected && user.positionCount > 0;
+  const hasDebt = user.weightedHealthFactor !== null;
+
   return (
     <div className="p-6">
+      {/* Header */}
+      <div className="flex justify-between items-center mb-6">
+        <div>
+          <h2 className="text-2xl font-bold text-gray-900">Analytics</h2>
+          <p className="text-gray-600">Your portfolio and live protocol metrics</p>
+        </div>
+        <button
+          onClick={() => refresh()}
+          className="flex items-center gap-2 px-3 py-2 text-sm bg-gray-100 hover:bg-gray-200 text-gray-700 rounded-lg transition-colors"
+        >
+          <RefreshCw className="w-4 h-4" />
+          Refresh
+        </button>
+      </div>
+
       <div className="grid grid-cols-1 md:grid-cols-2 lg:grid-cols-4 gap-6 mb-8">
-        {/* Protocol Stats */}
+        {/* Portfolio Stats */}
         <div className="bg-gradient-to-br from-emerald-50 to-emerald-100 p-6 rounded-xl border border-emerald-200">
           <div className="flex items-center justify-between mb-2">
             <h3 className="text-sm font-medium text-emerald-800">Total Borrowed</h3>
             <DollarSign className="w-4 h-4 text-emerald-600" />
           </div>
-          <div className="text-2xl font-bold text-emerald-900">$0.00</div>
-          <div className="text-xs text-emerald-700">No active positions</div>
+          <div className="text-2xl font-bold text-emerald-900">
+            {isLoadingPositions && !hasPositions ? '...' : formatUSD(user.totalDebtUSD)}
+          </div>
+          <div className="text-xs text-emerald-700">
+            {hasPositions
+              ? `Across ${user.positionCount} active position${user.positionCount === 1 ? '' : 's'}`
+              : 'No active positions'}
+          </div>
         </div>
-        
+
         <div className="bg-gradient-to-br from-blue-50 to-blue-100 p-6 rounded-xl border border-blue-200">
           <div className="flex items-center justify-between mb-2">
             <h3 className="text-sm font-medium text-blue-800">Collateral Value</h3>
             <Shield className="w-4 h-4 text-blue-600" />
           </div>
-          <div className="text-2xl font-bold text-blue-900">$0.00</div>
-          <div className="text-xs text-blue-700">No collateral deposited</div>
+          <div className="text-2xl font-bold text-blue-900">
+            {isLoadingPositions && !hasPositions ? '...' : formatUSD(user.totalCollateralUSD)}
+          </div>
+          <div className="text-xs text-blue-700">
+            {hasPositions ? 'At current oracle prices' : 'No collateral deposited'}
+          </div>
         </div>
-        
+
         <div className="bg-gradient-to-br from-purple-50 to-purple-100 p-6 rounded-xl border border-purple-200">
           <div className="flex items-center justify-between mb-2">
             <h3 className="text-sm font-medium text-purple-800">Health Factor</h3>
             <Activity className="w-4 h-4 text-purple-600" />
           </div>
-          <div className="text-2xl font-bold text-purple-900">∞</div>
-          <div className="text-xs text-purple-700">No risk exposure</div>
+          <div className={`text-2xl font-bold ${hasDebt ? getHealthFactorColor(user.weightedHealthFactor) : 'text-purple-900'}`}>
+            {hasDebt ? (user.weightedHealthFactor ?? 0).toFixed(2) : '∞'}
+          </div>
+          <div className="text-xs text-purple-700">
+            {hasDebt ? 'Weighted by debt value' : 'No risk exposure'}
+          </div>
         </div>
-        
+
         <div className="bg-gradient-to-br from-yellow-50 to-yellow-100 p-6 rounded-xl border border-yellow-200">
           <div className="flex items-center justify-between mb-2">
             <h3 className="text-sm font-medium text-yellow-800">Avg LTV</h3>
             <TrendingUp className="w-4 h-4 text-yellow-600" />
           </div>
-          <div className="text-2xl font-bold text-yellow-900">0%</div>
-          <div className="text-xs text-yellow-700">No active loans</div>
+          <div className="text-2xl font-bold text-yellow-900">{user.averageLtv.toFixed(1)}%</div>
+          <div className="text-xs text-yellow-700">
+            {hasDebt ? 'Total debt / total collateral' : 'No active loans'}
+          </div>
         </div>
       </div>
-      
-      <div className="text-center py-8">
-        <BarChart3 className="w-16 h-16 text-gray-400 mx-auto mb-4" />
-        <h3 className="text-xl font-semibold text-gray-900 mb-2">Portfolio Analytics</h3>
-        <p className="text-gray-600 mb-6">Detailed analytics will appear once you create your first position.</p>
-        <div className="bg-purple-50 border border-purple-200 rounded-lg p-4 max-w-md mx-auto">
-          <p className="text-purple-800 text-sm">
-            📈 Coming soon:
-          </p>
-          <ul className="text-purple-700 text-sm mt-2 text-left space-y-1">
-            <li>• Historical performance charts</li>
-            <li>• Risk timeline analysis</li>
-            <li>• Yield tracking</li>
-            <li>• Liquidation risk alerts</li>
-            <li>• Portfolio diversification metrics</li>
-          </ul>
+
+      {/* Protocol Overview */}
+      <div className="bg-white rounded-xl border border-gray-200 p-4">
+        <div className="flex justify-between items-start mb-4">
+          <h3 className="text-lg font-bold text-gray-900 flex items-center gap-2">
+            <BarChart3 className="w-5 h-5 text-gray-600" />
+            Protocol Overview
+          </h3>
+          <div className="text-right text-sm text-gray-600">
+            <div><strong className="text-gray-900">{formatUSD(protocol.totalLiquidityUSD)}</strong> liquidity</div>
+            <div><strong className="text-gray-900">{formatUSD(protocol.totalBorrowedUSD)}</strong> borrowed</div>
+            <div><strong className="text-gray-900">{protocol.totalActivePositions}</strong> active positions</div>
+          </div>
         </div>
+
+        {isLoading ? (
+          <div className="text-center py-8">
+            <div className="animate-spin w-8 h-8 border-2 border-emerald-500 border-t-transparent rounded-full mx-auto mb-4"></div>
+            <p className="text-gray-600">Fetching vault statistics from the blockchain.</p>
+          </div>
+        ) : protocol.assets.length === 0 ? (
+          <div className="text-center py-8">
+            <p className="text-gray-600">No vault statistics available.</p>
+          </div>
+        ) : (
+          <div className="overflow-x-auto">
+            <table className="w-full text-sm">
+              <thead>
+                <tr className="text-left text-xs text-gray-500 border-b border-gray-200">
+                  <th className="py-2 pr-4 font-medium">Asset</th>
+                  <th className="py-2 pr-4 font-medium text-right">Total Liquidity</th>
+                  <th className="py-2 pr-4 font-medium text-right">Total Borrowed</th>
+                  <th className="py-2 pr-4 font-medium text-right">Utilization</th>
+                  <th className="py-2 font-medium text-right">Borrow APR</th>
+                </tr>
+              </thead>
+              <tbody>
+                {protocol.assets.map((asset) => (
+                  <tr key={asset.token} className="border-b border-gray-100 last:border-0">
+                    <td className="py-3 pr-4">
+                      <span className="flex items-center gap-2 font-semibold text-gray-900">
+                        <AssetIcon asset={asset.symbol} className="w-4 h-4" />
+                        {asset.symbol}
+                      </span>
+                    </td>
+                    <td className="py-3 pr-4 text-right">
+                      <div className="font-medium text-gray-900">{formatTokenAmount(asset.totalLiquidity)} {asset.symbol}</div>
+                      <div className="text-xs text-gray-500">{formatUSD(asset.totalLiquidityUSD)}</div>
+                    </td>
+                    <td className="py-3 pr-4 text-right">
+                      <div className="font-medium text-gray-900">{formatTokenAmount(asset.totalBorrowed)} {asset.symbol}</div>
+                      <div className="text-xs text-gray-500">{formatUSD(asset.totalBorrowedUSD)}</div>
+                    </td>
+                    <td className="py-3 pr-4 text-right font-medium text-gray-900">
+                      {asset.utilizationRate.toFixed(1)}%
+                    </td>
+                    <td className="py-3 text-right font-medium text-gray-900">
+                      {asset.borrowApr.toFixed(2)}%
+                    </td>
+                  </tr>
+                ))}
+              </tbody>
+            </table>
+          </div>
+        )}
       </div>
     </div>
   );
 };
 
-export default AnalyticsTab; 
\ No newline at end of file
+export default AnalyticsTab;
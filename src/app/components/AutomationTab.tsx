@@ -0,0 +1,250 @@
+import React from 'react';
+import {
+  Bot,
+  Radar,
+  Zap,
+  RefreshCw,
+  ShieldCheck,
+  XCircle,
+  AlertTriangle,
+  ExternalLink
+} from 'lucide-react';
+import type { Address } from 'viem';
+import { useAutomationStatus, type AutomationIssue } from '../../hooks/useAutomationStatus';
+import { useBlockExplorer } from '../../hooks/useBlockExplorer';
+import UpkeepSimulatorPanel from './UpkeepSimulatorPanel';
+
+const formatTimestamp = (seconds: number): string => {
+  if (seconds === 0) return 'Never';
+  const elapsed = Math.floor(Date.now() / 1000) - seconds;
+  if (elapsed < 60) return `${elapsed}s ago`;
+  if (elapsed < 3600) return `${Math.floor(elapsed / 60)}m ago`;
+  if (elapsed < 86400) return `${Math.floor(elapsed / 3600)}h ago`;
+  return new Date(seconds * 1000).toLocaleString();
+};
+
+const formatCount = (value: bigint): string => Number(value).toLocaleString('en-US');
+
+const StatRow: React.FC<{ label: string; value: React.ReactNode }> = ({ label, value }) => (
+  <div className="flex justify-between text-sm py-1">
+    <span className="text-gray-600">{label}</span>
+    <span className="font-medium text-gray-900">{value}</span>
+  </div>
+);
+
+const FlagBadge: React.FC<{ active: boolean; activeLabel: string; inactiveLabel: string }> = ({
+  active,
+  activeLabel,
+  inactiveLabel
+}) => (
+  <span
+    className={`text-xs px-2 py-0.5 rounded-full font-semibold ${
+      active ? 'bg-red-100 text-red-700' : 'bg-green-100 text-green-700'
+    }`}
+  >
+    {active ? activeLabel : inactiveLabel}
+  </span>
+);
+
+const ContractCard: React.FC<{
+  title: string;
+  icon: React.ReactNode;
+  address?: Address;
+  badge?: React.ReactNode;
+  children: React.ReactNode;
+}> = ({ title, icon, address, badge, children }) => {
+  const { getAddressUrl } = useBlockExplorer();
+
+  return (
+    <div className="bg-white rounded-xl border border-gray-200 p-4">
+      <div className="flex justify-between items-start mb-3">
+        <h3 className="text-lg font-bold text-gray-900 flex items-center gap-2">
+          {icon}
+          {title}
+        </h3>
+        {badge}
+      </div>
+      {address ? (
+        <>
+          <a
+            href={getAddressUrl(address)}
+            target="_blank"
+            rel="noopener noreferrer"
+            className="text-xs text-gray-500 font-mono hover:text-blue-600 flex items-center gap-1 mb-3"
+          >
+            {address.slice(0, 10)}...{address.slice(-8)}
+            <ExternalLink className="w-3 h-3" />
+          </a>
+          <div className="divide-y divide-gray-100">{children}</div>
+        </>
+      ) : (
+        <p className="text-sm text-gray-500">Not deployed on this network.</p>
+      )}
+    </div>
+  );
+};
+
+const IssueRow: React.FC<{ issue: AutomationIssue }> = ({ issue }) => (
+  <div
+    className={`flex items-start gap-2 rounded-lg p-3 text-sm border ${
+      issue.severity === 'error'
+        ? 'bg-red-50 border-red-200 text-red-700'
+        : 'bg-yellow-50 border-yellow-200 text-yellow-800'
+    }`}
+  >
+    {issue.severity === 'error' ? (
+      <XCircle className="w-4 h-4 mt-0.5 flex-shrink-0" />
+    ) : (
+      <AlertTriangle className="w-4 h-4 mt-0.5 flex-shrink-0" />
+    )}
+    <span>{issue.message}</span>
+  </div>
+);
+
+export const AutomationTab: React.FC = () => {
+  const {
+    keeper,
+    adapter,
+    trigger,
+    isLoanManagerPaused,
+    issues,
+    isHealthy,
+    addresses,
+    isLoading,
+    refresh
+  } = useAutomationStatus();
+
+  return (
+    <div className="p-6">
+      {/* Header */}
+      <div className="flex justify-between items-center mb-6">
+        <div>
+          <h2 className="text-2xl font-bold text-gray-900">Automation</h2>
+          <p className="text-gray-600">Health of the liquidation keeper, loan adapter and price trigger</p>
+        </div>
+        <button
+          onClick={() => refresh()}
+          className="flex items-center gap-2 px-3 py-2 text-sm bg-gray-100 hover:bg-gray-200 text-gray-700 rounded-lg transition-colors"
+        >
+          <RefreshCw className={`w-4 h-4 ${isLoading ? 'animate-spin' : ''}`} />
+          Refresh
+        </button>
+      </div>
+
+      {isLoading ? (
+        <div className="text-center py-12">
+          <div className="animate-spin w-8 h-8 border-2 border-emerald-500 border-t-transparent rounded-full mx-auto mb-4"></div>
+          <p className="text-gray-600">Reading automation contracts from the blockchain.</p>
+        </div>
+      ) : (
+        <>
+          {/* Overall status */}
+          <div className="mb-6 space-y-2">
+            {isHealthy && issues.length === 0 ? (
+              <div className="flex items-center gap-2 rounded-lg p-3 text-sm border bg-emerald-50 border-emerald-200 text-emerald-800">
+                <ShieldCheck className="w-4 h-4" />
+                Automation is active: nothing is blocking liquidations.
+              </div>
+            ) : (
+              issues.map((issue, index) => <IssueRow key={`${issue.source}-${index}`} issue={issue} />)
+            )}
+          </div>
+
+          <div className="grid grid-cols-1 lg:grid-cols-3 gap-6">
+            {/* Keeper */}
+            <ContractCard
+              title="Keeper"
+              icon={<Bot className="w-5 h-5 text-gray-600" />}
+              address={addresses.keeper}
+              badge={keeper && <FlagBadge active={keeper.emergencyPause} activeLabel="PAUSED" inactiveLabel="RUNNING" />}
+            >
+              {keeper ? (
+                <>
+                  <StatRow label="Upkeeps performed" value={formatCount(keeper.totalUpkeeps)} />
+                  <StatRow label="Liquidations" value={formatCount(keeper.totalLiquidations)} />
+                  <StatRow label="Last execution" value={formatTimestamp(keeper.lastExecution)} />
+                  <StatRow label="Average gas per upkeep" value={formatCount(keeper.averageGasUsed)} />
+                  <StatRow label="Total gas used" value={formatCount(keeper.totalGasUsed)} />
+                  <StatRow label="Registered managers" value={formatCount(keeper.registeredManagers)} />
+                  <StatRow label="Forwarder only" value={keeper.forwarderRestricted ? 'Yes' : 'No'} />
+                </>
+              ) : (
+                <p className="text-sm text-gray-500 py-1">Keeper statistics unavailable.</p>
+              )}
+            </ContractCard>
+
+            {/* Adapter */}
+            <ContractCard
+              title="Loan Adapter"
+              icon={<Radar className="w-5 h-5 text-gray-600" />}
+              address={addresses.adapter}
+              badge={adapter && <FlagBadge active={!adapter.automationEnabled} activeLabel="DISABLED" inactiveLabel="ENABLED" />}
+            >
+              {adapter ? (
+                <>
+                  <StatRow label="Tracked positions" value={formatCount(adapter.totalTracked)} />
+                  <StatRow label="At risk" value={formatCount(adapter.totalAtRisk)} />
+                  <StatRow label="Liquidatable" value={formatCount(adapter.totalLiquidatable)} />
+                  <StatRow label="Critical" value={formatCount(adapter.totalCritical)} />
+                  <StatRow label="Liquidation attempts" value={formatCount(adapter.totalAttempts)} />
+                  <StatRow label="Successful" value={formatCount(adapter.totalSuccessful)} />
+                  <StatRow label="Success rate" value={`${adapter.successRate.toFixed(1)}%`} />
+                  <StatRow label="Last sync" value={formatTimestamp(adapter.lastSync)} />
+                </>
+              ) : (
+                <p className="text-sm text-gray-500 py-1">Adapter statistics unavailable.</p>
+              )}
+            </ContractCard>
+
+            {/* Price trigger */}
+            <ContractCard
+              title="Price Trigger"
+              icon={<Zap className="w-5 h-5 text-gray-600" />}
+              address={addresses.trigger}
+              badge={trigger && <FlagBadge active={trigger.emergencyPause} activeLabel="PAUSED" inactiveLabel="RUNNING" />}
+            >
+              {trigger ? (
+                <>
+                  <StatRow label="Triggers processed" value={formatCount(trigger.totalTriggers)} />
+                  <StatRow label="Liquidations" value={formatCount(trigger.totalLiquidations)} />
+                  <StatRow label="Volatility events" value={formatCount(trigger.totalVolatilityEvents)} />
+                  <StatRow label="Assets in volatility mode" value={formatCount(trigger.activeVolatilityAssets)} />
+                  <StatRow label="Last trigger" value={formatTimestamp(trigger.lastTrigger)} />
+                </>
+              ) : (
+                <p className="text-sm text-gray-500 py-1">Trigger statistics unavailable.</p>
+              )}
+            </ContractCard>
+          </div>
+
+          {/* Emergency flags */}
+          <div className="mt-6 bg-white rounded-xl border border-gray-200 p-4">
+            <h3 className="text-sm font-semibold text-gray-900 mb-2">Emergency Flags</h3>
+            <div className="flex flex-wrap gap-3 text-sm">
+              <span className="flex items-center gap-2">
+                Loan manager
+                <FlagBadge active={isLoanManagerPaused} activeLabel="PAUSED" inactiveLabel="ACTIVE" />
+              </span>
+              <span className="flex items-center gap-2">
+                Keeper
+                <FlagBadge active={keeper?.emergencyPause ?? false} activeLabel="PAUSED" inactiveLabel="ACTIVE" />
+              </span>
+              <span className="flex items-center gap-2">
+                Adapter automation
+                <FlagBadge active={!(adapter?.automationEnabled ?? true)} activeLabel="DISABLED" inactiveLabel="ENABLED" />
+              </span>
+              <span className="flex items-center gap-2">
+                Price trigger
+                <FlagBadge active={trigger?.emergencyPause ?? false} activeLabel="PAUSED" inactiveLabel="ACTIVE" />
+              </span>
+            </div>
+          </div>
+
+          <UpkeepSimulatorPanel defaultManager={addresses.adapter} />
+        </>
+      )}
+    </div>
+  );
+};
+
+export default AutomationTab;
@@ -0,0 +1,73 @@
+import React from 'react';
+import { Gift, CheckCircle } from 'lucide-react';
+import { formatUnits } from 'viem';
+import { useBorrowerRewards, REWARD_TOKEN_DECIMALS } from '../../hooks/useBorrowerRewards';
+const formatRewards = (value: bigint): string => {
+  return parseFloat(formatUnits(value, REWARD_TOKEN_DECIMALS)).toLocaleString('en-US', {
+    maximumFractionDigits: 6
+  });
+};
+
+export const BorrowerRewardsPanel: React.FC = () => {
+  const {
+    pendingRewards,
+    rewardsEnabled,
+    isLoading,
+    step,
+    claimedAmount,
+    error,
+    isClaiming,
+    claimRewards
+  } = useBorrowerRewards();
+
+  if (isLoading) return null;
+
+  return (
+    <div className="mb-6 bg-gradient-to-br from-purple-50 to-purple-100 border border-purple-200 rounded-lg p-4">
+      <div className="flex items-center justify-between">
+        <div className="flex items-center gap-3">
+          <Gift className="w-6 h-6 text-purple-600" />
+          <div>
+            <h3 className="font-semibold text-purple-900">Borrower Rewards</h3>
+            <p className="text-purple-700 text-sm">
+              {rewardsEnabled
+                ? <>Accrued across all your positions: <strong>{formatRewards(pendingRewards)}</strong></>
+                : 'Rewards are not enabled for borrowers yet'}
+            </p>
+          </div>
+        </div>
+        <button
+          onClick={() => claimRewards()}
+          disabled={!rewardsEnabled || isClaiming || pendingRewards === 0n}
+          className="bg-purple-500 hover:bg-purple-600 disabled:bg-gray-400 text-white px-4 py-2 rounded-lg font-semibold transition-colors flex items-center gap-2"
+        >
+          {isClaiming ? (
+            <>
+              <div className="animate-spin w-4 h-4 border-2 border-white border-t-transparent rounded-full"></div>
+              {step === 'claiming' ? 'Confirm in wallet...' : 'Claiming...'}
+            </>
+          ) : (
+            <>
+              <Gift className="w-4 h-4" />
+              Claim Rewards
+            </>
+          )}
+        </button>
+      </div>
+
+      {error && (
+        <div className="mt-3 text-sm text-red-700 bg-red-50 border border-red-200 rounded-lg p-2">
+          ❌ {error}
+        </div>
+      )}
+      {step === 'completed' && claimedAmount !== null && (
+        <div className="mt-3 text-sm text-green-700 bg-green-50 border border-green-200 rounded-lg p-2 flex items-center gap-2">
+          <CheckCircle className="w-4 h-4" />
+          Claimed {formatRewards(claimedAmount)} in rewards!
+        </div>
+      )}
+    </div>
+  );
+};
+
+export default BorrowerRewardsPanel;
@@ -17,25 +17,31 @@ import {
   RefreshCw,
   ExternalLink,
   Loader2,
-  Hash
+  Hash,
+  Fuel
 } from 'lucide-react';
+import { formatUnits } from 'viem';
+import { useAccount } from 'wagmi';
 import { useAppKit } from '@reown/appkit/react';
-import { useCreatePosition } from '../../hooks/useCreatePosition';
+import { useCreatePosition } from '../hooks/useCreatePosition';
 import type { CreatePositionParams } from '../../hooks/useCreatePosition';
 import useContractAddresses from '../../hooks/useContractAddresses';
+import { useBlockExplorer } from '../../hooks/useBlockExplorer';
 import MockETHFaucet from './MockETHFaucet';
 import { useOraclePrices } from '../../hooks/useOraclePrices';
 import { AssetDropdown } from './AssetDropdown';
 import AssetIcon from './AssetIcon';
 import { 
-  calculateRiskLevel, 
+  assessLtvRisk,
+  getSuggestedLiquidationRatio,
   getRiskIcon, 
   getRiskLevelColor, 
   getRiskLevelBgColor, 
   formatHealthFactor 
-} from '../../utils/riskCalculations';
+} from '../../utils/riskEngine';
 
 export const CreatePositionTab: React.FC<{ isConnected: boolean }> = ({ isConnected }) => {
+  const { getTxUrl } = useBlockExplorer();
   const [isEasyMode, setIsEasyMode] = React.useState(true);
   const [selectedPreset, setSelectedPreset] = React.useState(0);
   
@@ -52,26 +58,35 @@ export const CreatePositionTab: React.FC<{ isConnected: boolean }> = ({ isConnec
   const { open } = useAppKit();
 
   // Hook centralizado de direcciones
-  const { addresses, isReady: addressesReady, getAssetSymbol } = useContractAddresses();
+  const { addresses, isReady: addressesReady, getAssetSymbol, isAssetAvailable } = useContractAddresses();
+  // WGOLD solo se ofrece si su token está desplegado en esta red
+  const isWgoldAvailable = isAssetAvailable('WGOLD');
 
-  // Hook para crear posiciones (MEJORADO)
+  // Hook para crear posiciones (MEJORADO): adaptador con estimación de gas sobre el flujo real
   const {
-    createPosition,
-    resetState,
-    isLoading,
-    error,
-    success,
-    txHash,
-    step,
-    balanceInfo,
-    isApprovePending,
-    isCreateLoanPending,
-    refetchBalances,
-    // 🆕 NUEVA INFORMACIÓN DE PROGRESO
-    progressInfo
+    flow: {
+      createPosition,
+      resetState,
+      isLoading,
+      error,
+      errorDetails,
+      success,
+      txHash,
+      step,
+      balanceInfo,
+      isApprovePending,
+      isCreateLoanPending,
+      refetchBalances,
+      // 🆕 NUEVA INFORMACIÓN DE PROGRESO
+      progressInfo
+    },
+    estimateGas,
+    estimatedGas,
+    isEstimating
   } = useCreatePosition({
     autoVerifyBalances: true
   });
+  const { chain } = useAccount();
 
   const LOAN_PRESETS = [
     { name: "Conservative", ltv: 60, description: "Safe", color: "emerald" },
@@ -108,7 +123,7 @@ export const CreatePositionTab: React.FC<{ isConnected: boolean }> = ({ isConnec
           case 'VCOP': 
             return addresses.mockUSDC; // VCOP no existe, usar USDC
           case 'WGOLD': 
-            return addresses.mockUSDC; // WGOLD no existe como contrato, usar USDC
+            return addresses.mockWGOLD;
           default: 
             return addresses.mockETH;
         }
@@ -138,7 +153,7 @@ export const CreatePositionTab: React.FC<{ isConnected: boolean }> = ({ isConnec
   const handleMainButtonClick = () => {
     if (success && txHash) {
       // Si la transacción fue exitosa, abrir explorador de bloques
-      window.open(`https://subnets-test.avax.network/c-chain/tx/${txHash}`, '_blank');
+      window.open(getTxUrl(txHash), '_blank');
     } else {
       // Si no, crear posición normalmente
       handleCreatePosition();
@@ -169,10 +184,33 @@ export const CreatePositionTab: React.FC<{ isConnected: boolean }> = ({ isConnec
   };
 
   const currentLTV = calculateCurrentLTV();
+
+  // Estimar el coste de red (approve + createLoan) con los mismos parámetros que se enviarán
+  const estimateCollateralAmount = isEasyMode ? easyCollateralAmount.toString() : collateralAmount;
+  const estimateLoanAmount = isEasyMode ? calculateLoanFromLTV().toFixed(6) : loanAmount;
+  const estimateMaxLTV = isEasyMode ? easyLTV : currentLTV;
+
+  React.useEffect(() => {
+    if (!isConnected || !addressesReady || isLoading) return;
+    if (!(Number(estimateCollateralAmount) > 0) || !(Number(estimateLoanAmount) > 0)) return;
+
+    const timeout = setTimeout(() => {
+      estimateGas({
+        collateralAsset,
+        loanAsset,
+        collateralAmount: estimateCollateralAmount,
+        loanAmount: estimateLoanAmount,
+        interestRate: '8',
+        maxLoanToValue: estimateMaxLTV
+      });
+    }, 600);
+    return () => clearTimeout(timeout);
+  }, [isConnected, addressesReady, isLoading, collateralAsset, loanAsset, estimateCollateralAmount, estimateLoanAmount, estimateMaxLTV, estimateGas]);
   
   // Calculate risk metrics based on current LTV
-  const riskLevel = calculateRiskLevel(isEasyMode ? easyLTV : currentLTV);
-  const healthFactor = formatHealthFactor(isEasyMode ? easyLTV : currentLTV);
+  const ltvRisk = assessLtvRisk(isEasyMode ? easyLTV : currentLTV, getSuggestedLiquidationRatio(collateralAsset));
+  const riskLevel = ltvRisk.riskLevel;
+  const healthFactor = formatHealthFactor(ltvRisk.healthFactor);
 
   // 🆕 FUNCIÓN PARA RENDERIZAR EL PROGRESO DE TRANSACCIONES
   const renderTransactionProgress = () => {
@@ -220,7 +258,7 @@ export const CreatePositionTab: React.FC<{ isConnected: boolean }> = ({ isConnec
               Sign approval transaction ({currentTransaction}/{totalTransactions})
               {progressInfo.approveHash && (
                 <a
-                  href={`https://subnets-test.avax.network/c-chain/tx/${progressInfo.approveHash}`}
+                  href={getTxUrl(progressInfo.approveHash)}
                   target="_blank"
                   rel="noopener noreferrer"
                   className="text-blue-600 hover:text-blue-800 ml-1"
@@ -445,7 +483,7 @@ export const CreatePositionTab: React.FC<{ isConnected: boolean }> = ({ isConnec
                         { value: "ETH", label: "ETH" },
                         { value: "WBTC", label: "WBTC" },
                         { value: "USDC", label: "USDC" },
-                        { value: "WGOLD", label: "WGOLD" }
+                        ...(isWgoldAvailable ? [{ value: "WGOLD", label: "WGOLD" }] : [])
                       ]}
                       borderColor="border-blue-300"
                       className="mb-1"
@@ -482,7 +520,7 @@ export const CreatePositionTab: React.FC<{ isConnected: boolean }> = ({ isConnec
                         { value: "USDC", label: "USDC" },
                         { value: "VCOP", label: "VCOP" },
                         { value: "ETH", label: "ETH" },
-                        { value: "WGOLD", label: "WGOLD" }
+                        ...(isWgoldAvailable ? [{ value: "WGOLD", label: "WGOLD" }] : [])
                       ]}
                       borderColor="border-emerald-300"
                       className="mb-1"
@@ -535,10 +573,12 @@ export const CreatePositionTab: React.FC<{ isConnected: boolean }> = ({ isConnec
                       <div className="font-bold text-gray-900">${assetPrices.VCOP.toFixed(4)}</div>
                       <div className="text-gray-600">VCOP</div>
                     </div>
-                    <div className="text-center bg-white p-1 rounded">
-                      <div className="font-bold text-gray-900">${assetPrices.WGOLD.toLocaleString()}</div>
-                      <div className="text-gray-600">WGOLD</div>
-                    </div>
+                    {isWgoldAvailable && (
+                      <div className="text-center bg-white p-1 rounded">
+                        <div className="font-bold text-gray-900">${assetPrices.WGOLD.toLocaleString()}</div>
+                        <div className="text-gray-600">WGOLD</div>
+                      </div>
+                    )}
                     <div className="text-center bg-white p-1 rounded">
                       <div className={`inline-flex items-center justify-center w-full rounded text-xs font-bold ${getRiskLevelBgColor(riskLevel)} ${getRiskLevelColor(riskLevel)}`}>
                         {React.createElement(getRiskIcon(riskLevel), { className: "w-3 h-3" })}
@@ -601,11 +641,14 @@ export const CreatePositionTab: React.FC<{ isConnected: boolean }> = ({ isConnec
                     <div className="flex items-center justify-between">
                       <div className="flex items-center gap-1 text-red-800">
                         <AlertTriangle className="w-3 h-3" />
-                        <span className="text-xs font-semibold">Error</span>
+                        <span className="text-xs font-semibold">{errorDetails?.title ?? 'Error'}</span>
                       </div>
                       <button onClick={resetState} className="text-xs text-red-600 hover:text-red-800">Reset</button>
                     </div>
                     <p className="text-red-700 text-xs mt-1">{error}</p>
+                    {errorDetails?.action && (
+                      <p className="text-red-600 text-xs mt-1">💡 {errorDetails.action}</p>
+                    )}
                   </div>
                 )}
 
@@ -617,7 +660,7 @@ export const CreatePositionTab: React.FC<{ isConnected: boolean }> = ({ isConnec
                         <span className="text-xs font-semibold">Success!</span>
                       </div>
                       <a 
-                        href={`https://subnets-test.avax.network/c-chain/tx/${txHash}`}
+                        href={getTxUrl(txHash)}
                         target="_blank"
                         rel="noopener noreferrer"
                         className="text-xs text-green-600 hover:text-green-800"
@@ -647,7 +690,7 @@ export const CreatePositionTab: React.FC<{ isConnected: boolean }> = ({ isConnec
                         { value: "ETH", label: "ETH" },
                         { value: "WBTC", label: "WBTC" },
                         { value: "USDC", label: "USDC" },
-                        { value: "WGOLD", label: "WGOLD" }
+                        ...(isWgoldAvailable ? [{ value: "WGOLD", label: "WGOLD" }] : [])
                       ]}
                     />
                   </div>
@@ -660,7 +703,7 @@ export const CreatePositionTab: React.FC<{ isConnected: boolean }> = ({ isConnec
                         { value: "USDC", label: "USDC" },
                         { value: "VCOP", label: "VCOP" },
                         { value: "ETH", label: "ETH" },
-                        { value: "WGOLD", label: "WGOLD" }
+                        ...(isWgoldAvailable ? [{ value: "WGOLD", label: "WGOLD" }] : [])
                       ]}
                     />
                   </div>
@@ -738,11 +781,14 @@ export const CreatePositionTab: React.FC<{ isConnected: boolean }> = ({ isConnec
                     <div className="flex items-center justify-between">
                       <div className="flex items-center gap-1 text-red-800">
                         <AlertTriangle className="w-3 h-3" />
-                        <span className="text-xs font-semibold">Error</span>
+                        <span className="text-xs font-semibold">{errorDetails?.title ?? 'Error'}</span>
                       </div>
                       <button onClick={resetState} className="text-xs text-red-600 hover:text-red-800">Reset</button>
                     </div>
                     <p className="text-red-700 text-xs mt-1">{error}</p>
+                    {errorDetails?.action && (
+                      <p className="text-red-600 text-xs mt-1">💡 {errorDetails.action}</p>
+                    )}
                   </div>
                 )}
 
@@ -755,7 +801,7 @@ export const CreatePositionTab: React.FC<{ isConnected: boolean }> = ({ isConnec
                         <span className="text-xs font-semibold">Success!</span>
                       </div>
                       <a 
-                        href={`https://subnets-test.avax.network/c-chain/tx/${txHash}`}
+                        href={getTxUrl(txHash)}
                         target="_blank"
                         rel="noopener noreferrer"
                         className="text-xs text-green-600 hover:text-green-800"
@@ -769,6 +815,26 @@ export const CreatePositionTab: React.FC<{ isConnected: boolean }> = ({ isConnec
               </div>
             )}
 
+            {/* Network cost */}
+            {isConnected && (estimatedGas || isEstimating) && (
+              <div
+                className="flex items-center justify-between text-xs text-gray-600 bg-gray-50 border border-gray-200 rounded p-2"
+                title={estimatedGas
+                  ? `Approve: ${estimatedGas.approval?.toString() ?? 'not needed'} gas · createLoan: ${estimatedGas.createLoan.toString()} gas${estimatedGas.createLoanIsFallback ? ' (upper bound)' : ''}`
+                  : undefined}
+              >
+                <span className="flex items-center gap-1">
+                  <Fuel className="w-3 h-3" />
+                  Network cost{estimatedGas?.needsApproval ? ' (approve + create)' : ''}
+                </span>
+                <span className="font-semibold text-gray-900">
+                  {isEstimating || !estimatedGas
+                    ? 'Estimating...'
+                    : `${estimatedGas.createLoanIsFallback ? '≤ ' : '~'}${parseFloat(formatUnits(estimatedGas.estimatedCost, 18)).toFixed(5)} ${chain?.nativeCurrency.symbol ?? ''}`}
+                </span>
+              </div>
+            )}
+
             {/* Action Buttons Mejorados */}
             <div className="flex gap-2 pt-2 border-t border-gray-200">
               <button
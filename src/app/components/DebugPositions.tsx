@@ -1,19 +1,8 @@
-import React, { useState, useEffect } from 'react';
+import React, { useState } from 'react';
 import { useAccount } from 'wagmi';
-import { useUserPositions, getAssetSymbol } from '../../hooks/useUserPositions';
-import { useRepayPosition, type RepaymentResult } from '../../hooks/hook_repayposition';
-import { formatUnits, parseUnits, type Address, hexToBigInt } from 'viem';
-
-interface Position {
-  positionId: bigint;
-  totalDebt: `0x${string}` | bigint;
-  collateralValueFormatted: string;
-  debtValueFormatted: string;
-  healthFactor: string;
-  position: {
-    collateralAsset: Address;
-  };
-}
+import { useUserPositions, getAssetSymbol, type PositionData } from '../../hooks/useUserPositions';
+import { useRepayment } from '../../hooks/useRepayment';
+import { formatUnits, parseUnits } from 'viem';
 
 export const DebugPositions: React.FC = () => {
   const { address, isConnected } = useAccount();
@@ -26,24 +15,21 @@ export const DebugPositions: React.FC = () => {
   } = useUserPositions();
 
   const {
-    repayPosition,
-    loadVaultHandler,
-    isLoading: isRepaying,
+    repayFullPosition,
+    repayPartialPosition,
+    isProcessing: isRepaying,
     error: repayError,
     isApproving,
-    isConfirmingApprove,
-    isConfirmingRepay,
-    approveHash,
-    repayHash
-  } = useRepayPosition();
+    step: repayStep,
+    approvalStrategy,
+    quote,
+    positionId: repayPositionId,
+    approveHashes,
+    txHash: repayHash
+  } = useRepayment();
 
   const [selectedAmount, setSelectedAmount] = useState<string>('');
 
-  // Cargar VaultHandler al inicio
-  useEffect(() => {
-    loadVaultHandler();
-  }, [loadVaultHandler]);
-
   console.log('🔧 Debug Positions Render:');
   console.log('- Is Connected:', isConnected);
   console.log('- Address:', address);
@@ -56,20 +42,10 @@ export const DebugPositions: React.FC = () => {
   if (positionsError) return <div className="text-red-500">Error: {positionsError}</div>;
   if (!contractAddresses) return <div>Loading contract addresses...</div>;
 
-  const handleRepayFull = async (position: Position) => {
-    if (!contractAddresses?.mockUSDC) return;
-    
+  const handleRepayFull = async (position: PositionData) => {
     console.log('🎯 Initiating full repayment for position:', position.positionId.toString());
     
-    // Convertir totalDebt a bigint si es necesario
-    const totalDebtBigInt = typeof position.totalDebt === 'string' 
-      ? hexToBigInt(position.totalDebt)
-      : position.totalDebt;
-    
-    const result = await repayPosition(
-      totalDebtBigInt,
-      contractAddresses.mockUSDC as Address
-    );
+    const result = await repayFullPosition(position.positionId);
     
     if (result.success) {
       console.log('✅ Repayment successful! Hash:', result.txHash);
@@ -79,8 +55,8 @@ export const DebugPositions: React.FC = () => {
     }
   };
 
-  const handleRepayPartial = async (position: Position) => {
-    if (!contractAddresses?.mockUSDC || !selectedAmount) return;
+  const handleRepayPartial = async (position: PositionData) => {
+    if (!selectedAmount) return;
     
     try {
       const amountBigInt = parseUnits(selectedAmount, 6); // USDC has 6 decimals
@@ -89,10 +65,7 @@ export const DebugPositions: React.FC = () => {
       console.log('- Position:', position.positionId.toString());
       console.log('- Amount:', selectedAmount, 'USDC');
       
-      const result = await repayPosition(
-        amountBigInt,
-        contractAddresses.mockUSDC as Address
-      );
+      const result = await repayPartialPosition(position.positionId, amountBigInt);
       
       if (result.success) {
         console.log('✅ Partial repayment successful! Hash:', result.txHash);
@@ -117,7 +90,7 @@ export const DebugPositions: React.FC = () => {
       )}
 
       <div className="space-y-4">
-        {positions.map((position: Position) => (
+        {positions.map((position) => (
           <div key={position.positionId.toString()} 
                className="border p-4 rounded-lg">
             <h3 className="font-semibold">
@@ -157,17 +130,28 @@ export const DebugPositions: React.FC = () => {
               </div>
             </div>
 
-            {(isApproving || isConfirmingApprove) && (
+            {isApproving && (
               <p className="mt-2 text-sm text-blue-500">
-                {approveHash ? 'Confirming approval...' : 'Approving tokens...'}
+                Approving tokens ({approvalStrategy}, {approveHashes.length} sent)...
               </p>
             )}
             
-            {(isRepaying || isConfirmingRepay) && (
+            {isRepaying && !isApproving && (
               <p className="mt-2 text-sm text-green-500">
-                {repayHash ? 'Confirming repayment...' : 'Processing repayment...'}
+                {repayStep === 'confirming' ? `Confirming repayment ${repayHash}...` : 'Processing repayment...'}
               </p>
             )}
+
+            {quote && repayPositionId === position.positionId && (
+              <div className="mt-2 text-xs text-gray-600 font-mono space-y-0.5">
+                <p>Debt now: {formatUnits(quote.current.totalDebt, 6)} / at expiry: {formatUnits(quote.atExpiry.totalDebt, 6)}</p>
+                <p>Repay amount sent: {formatUnits(quote.repayAmount, 6)}</p>
+                <p>Fee approval: {formatUnits(quote.feeAllowance, 6)}</p>
+                <p>Principal approval: {formatUnits(quote.principalAllowance, 6)}</p>
+                <p>Wallet outflow (max): {formatUnits(quote.tokensRequired, 6)}</p>
+                <p>Quote expires: {new Date(quote.expiresAt * 1000).toLocaleTimeString()}</p>
+              </div>
+            )}
           </div>
         ))}
       </div>
@@ -0,0 +1,170 @@
+import React from 'react';
+import {
+  ShieldCheck,
+  AlertTriangle,
+  XCircle,
+  CheckCircle,
+  MinusCircle,
+  RefreshCw,
+  ChevronDown
+} from 'lucide-react';
+import { useDeploymentDiagnostics } from '../../hooks/useDeploymentDiagnostics';
+import { useBlockExplorer } from '../../hooks/useBlockExplorer';
+import type { ManifestEntry, ManifestIssue } from '../../utils/manifestValidator';
+
+const getEntryStatus = (
+  entry: ManifestEntry,
+  issues: ManifestIssue[],
+  bytecodeChecked: boolean
+): { icon: React.ReactNode; label: string } => {
+  if (issues.some((issue) => issue.severity === 'error')) {
+    return { icon: <XCircle className="w-4 h-4 text-red-600" />, label: 'Error' };
+  }
+  if (issues.some((issue) => issue.severity === 'warning')) {
+    return { icon: <AlertTriangle className="w-4 h-4 text-yellow-600" />, label: 'Warning' };
+  }
+  if (entry.isZero || !entry.address) {
+    return { icon: <MinusCircle className="w-4 h-4 text-gray-400" />, label: 'Not deployed' };
+  }
+  if (!entry.expectsBytecode) {
+    return { icon: <CheckCircle className="w-4 h-4 text-emerald-600" />, label: 'Wallet' };
+  }
+  if (!bytecodeChecked) {
+    return {
+      icon: <div className="animate-spin w-4 h-4 border-2 border-gray-400 border-t-transparent rounded-full"></div>,
+      label: 'Checking...'
+    };
+  }
+  return { icon: <CheckCircle className="w-4 h-4 text-emerald-600" />, label: 'Verified' };
+};
+
+export const DeploymentDiagnosticsPanel: React.FC = () => {
+  const { diagnostics, errorCount, warningCount, isHealthy, isLoading, error, refresh } = useDeploymentDiagnostics();
+  const [isExpanded, setIsExpanded] = React.useState(false);
+  const { getAddressUrl } = useBlockExplorer();
+
+  // Abrir automáticamente cuando hay errores que bloquean la app
+  React.useEffect(() => {
+    if (errorCount > 0 || error) setIsExpanded(true);
+  }, [errorCount, error]);
+
+  const issuesByPath = diagnostics.issues.reduce<Record<string, ManifestIssue[]>>((acc, issue) => {
+    (acc[issue.path] ||= []).push(issue);
+    return acc;
+  }, {});
+  const generalIssues = diagnostics.issues.filter(
+    (issue) => !diagnostics.entries.some((entry) => entry.path === issue.path)
+  );
+  const sections = Array.from(new Set(diagnostics.entries.map((entry) => entry.section)));
+
+  return (
+    <div className={`mb-6 rounded-lg border ${isHealthy ? 'bg-white border-gray-200' : 'bg-red-50 border-red-200'}`}>
+      <div className="flex items-center justify-between p-3">
+        <button
+          onClick={() => setIsExpanded(!isExpanded)}
+          className="flex items-center gap-2 text-sm text-left flex-1"
+        >
+          {isHealthy ? (
+            <ShieldCheck className="w-5 h-5 text-emerald-600" />
+          ) : (
+            <XCircle className="w-5 h-5 text-red-600" />
+          )}
+          <span className="font-semibold text-gray-900">Deployment Diagnostics</span>
+          <span className="text-gray-600">
+            {error
+              ? 'Manifest could not be loaded'
+              : `${diagnostics.deployment?.name ?? 'Unknown network'} · ${diagnostics.entries.length} contracts · ${errorCount} errors · ${warningCount} warnings`}
+          </span>
+          <ChevronDown className={`w-4 h-4 text-gray-400 transition-transform ${isExpanded ? 'rotate-180' : ''}`} />
+        </button>
+        <button
+          onClick={() => refresh()}
+          disabled={isLoading}
+          className="flex items-center gap-2 px-3 py-1 text-xs bg-gray-100 hover:bg-gray-200 text-gray-700 rounded-lg transition-colors"
+        >
+          <RefreshCw className={`w-3 h-3 ${isLoading ? 'animate-spin' : ''}`} />
+          Recheck
+        </button>
+      </div>
+
+      {isExpanded && (
+        <div className="border-t border-gray-200 p-3 space-y-4">
+          {error && (
+            <div className="bg-red-50 border border-red-200 rounded-lg p-3 text-sm text-red-700">
+              ❌ {error}
+            </div>
+          )}
+
+          {generalIssues.map((issue, index) => (
+            <div
+              key={`${issue.path}-${index}`}
+              className={`rounded-lg p-3 text-sm border ${issue.severity === 'error' ? 'bg-red-50 border-red-200 text-red-700' : 'bg-yellow-50 border-yellow-200 text-yellow-800'}`}
+            >
+              <span className="font-mono">{issue.path}</span>: {issue.message}
+            </div>
+          ))}
+
+          {sections.map((section) => (
+            <div key={section}>
+              <h4 className="text-xs font-semibold text-gray-500 uppercase mb-1">{section}</h4>
+              <div className="bg-white rounded-lg border border-gray-200 divide-y divide-gray-100">
+                {diagnostics.entries
+                  .filter((entry) => entry.section === section)
+                  .map((entry) => {
+                    const entryIssues = issuesByPath[entry.path] ?? [];
+                    const status = getEntryStatus(entry, entryIssues, diagnostics.bytecodeChecked);
+
+                    return (
+                      <div key={entry.path} className="p-2 text-sm">
+                        <div className="flex items-center gap-3">
+                          {status.icon}
+                          <span className="font-medium text-gray-900 w-48">
+                            {entry.key}
+                            {entry.required && <span className="text-red-500 ml-1" title="Required">*</span>}
+                          </span>
+                          {entry.address && !entry.isZero ? (
+                            <a
+                              href={getAddressUrl(entry.address)}
+                              target="_blank"
+                              rel="noopener noreferrer"
+                              className="font-mono text-xs text-gray-600 flex-1 truncate hover:text-blue-600 hover:underline"
+                            >
+                              {entry.address}
+                            </a>
+                          ) : (
+                            <span className="font-mono text-xs text-gray-600 flex-1 truncate">
+                              {entry.address ?? '—'}
+                            </span>
+                          )}
+                          <span className="text-xs text-gray-500">{status.label}</span>
+                        </div>
+                        {entryIssues
+                          .filter((issue) => issue.severity !== 'info' || entry.required)
+                          .map((issue, index) => (
+                            <div
+                              key={index}
+                              className={`ml-7 mt-1 text-xs ${issue.severity === 'error' ? 'text-red-600' : 'text-yellow-700'}`}
+                            >
+                              {issue.message}
+                            </div>
+                          ))}
+                      </div>
+                    );
+                  })}
+              </div>
+            </div>
+          ))}
+
+          {diagnostics.checkedAt && (
+            <div className="text-xs text-gray-500">
+              Last checked: {diagnostics.checkedAt.toLocaleTimeString()}
+              {!diagnostics.bytecodeChecked && ' · bytecode check pending'}
+            </div>
+          )}
+        </div>
+      )}
+    </div>
+  );
+};
+
+export default DeploymentDiagnosticsPanel;
@@ -0,0 +1,184 @@
+import React from 'react';
+import {
+  TrendingUp,
+  ArrowRight,
+  AlertTriangle,
+  CheckCircle,
+  X
+} from 'lucide-react';
+import { formatUnits, parseUnits } from 'viem';
+import { useIncreaseLoan } from '../../hooks/useIncreaseLoan';
+import { getRiskLevelColor, getRiskLevelBgColor, formatRiskLevel } from '../../utils/riskEngine';
+import type { PositionData } from '../../hooks/useUserPositions';
+import AssetIcon from './AssetIcon';
+
+interface IncreaseLoanPanelProps {
+  positionData: PositionData;
+  collateralSymbol: string;
+  loanSymbol: string;
+  loanDecimals: number;
+  onConfirmed: () => void;
+  onClose: () => void;
+}
+
+export const IncreaseLoanPanel: React.FC<IncreaseLoanPanelProps> = ({
+  positionData,
+  collateralSymbol,
+  loanSymbol,
+  loanDecimals,
+  onConfirmed,
+  onClose
+}) => {
+  const [amountInput, setAmountInput] = React.useState('');
+
+  // Convertir el input del usuario a la unidad base del loan asset
+  const additionalAmount = React.useMemo(() => {
+    if (!amountInput || isNaN(Number(amountInput)) || Number(amountInput) <= 0) return 0n;
+    try {
+      return parseUnits(amountInput, loanDecimals);
+    } catch {
+      return 0n;
+    }
+  }, [amountInput, loanDecimals]);
+
+  const {
+    increaseLoan,
+    maxBorrowAmount,
+    isLoadingMaxBorrow,
+    preview,
+    formatHealthFactor,
+    step,
+    transactionStep,
+    totalTransactions,
+    isLoading,
+    success,
+    error
+  } = useIncreaseLoan({
+    positionData,
+    collateralSymbol,
+    loanSymbol,
+    additionalAmount,
+    onConfirmed: () => {
+      setAmountInput('');
+      onConfirmed();
+    }
+  });
+
+  const maxBorrowFormatted = formatUnits(maxBorrowAmount, loanDecimals);
+  const canSubmit = additionalAmount > 0n && !preview.exceedsLiquidity && !isLoading;
+
+  return (
+    <div className="mt-4 bg-gray-50 border border-gray-200 rounded-lg p-4">
+      <div className="flex justify-between items-center mb-3">
+        <h4 className="font-semibold text-gray-900 flex items-center gap-2">
+          <AssetIcon asset={loanSymbol} className="w-4 h-4" />
+          Borrow More {loanSymbol}
+        </h4>
+        <button
+          onClick={onClose}
+          className="p-1 text-gray-500 hover:text-gray-700 transition-colors"
+          title="Close"
+        >
+          <X className="w-4 h-4" />
+        </button>
+      </div>
+
+      {/* Amount input */}
+      <div className="mb-3">
+        <div className="flex justify-between text-xs text-gray-500 mb-1">
+          <span>Additional amount ({loanSymbol})</span>
+          <span>
+            Available liquidity: {isLoadingMaxBorrow ? '...' : `${parseFloat(maxBorrowFormatted).toFixed(2)} ${loanSymbol}`}
+          </span>
+        </div>
+        <input
+          type="number"
+          min="0"
+          step="any"
+          value={amountInput}
+          onChange={(e) => setAmountInput(e.target.value)}
+          disabled={isLoading}
+          placeholder="0.0"
+          className="w-full p-2 text-sm border border-gray-300 rounded-lg focus:outline-none focus:ring-2 focus:ring-blue-500"
+        />
+      </div>
+
+      {/* Preview */}
+      {additionalAmount > 0n && (
+        <div className="bg-white border border-gray-200 rounded-lg p-3 mb-3 space-y-2">
+          <div className="flex items-center justify-between text-sm">
+            <span className="text-gray-600">LTV</span>
+            <span className="flex items-center gap-2 font-medium text-gray-900">
+              {preview.currentLtv.toFixed(1)}%
+              <ArrowRight className="w-3 h-3 text-gray-400" />
+              {preview.projectedLtv.toFixed(1)}%
+            </span>
+          </div>
+          <div className="flex items-center justify-between text-sm">
+            <span className="text-gray-600">Health Factor</span>
+            <span className="flex items-center gap-2 font-medium text-gray-900">
+              {preview.currentHealthFactor !== null ? formatHealthFactor(preview.currentHealthFactor) : '—'}
+              <ArrowRight className="w-3 h-3 text-gray-400" />
+              {preview.projectedHealthFactor !== null ? formatHealthFactor(preview.projectedHealthFactor) : '—'}
+            </span>
+          </div>
+          {preview.projectedRiskLevel && (
+            <div className="flex items-center justify-between text-sm">
+              <span className="text-gray-600">Risk Level</span>
+              <span className={`text-xs px-2 py-1 rounded-full font-semibold ${getRiskLevelBgColor(preview.projectedRiskLevel)} ${getRiskLevelColor(preview.projectedRiskLevel)}`}>
+                {formatRiskLevel(preview.projectedRiskLevel)}
+              </span>
+            </div>
+          )}
+          {preview.exceedsLiquidity && (
+            <div className="flex items-start gap-2 text-xs text-red-700 bg-red-50 border border-red-200 rounded p-2">
+              <AlertTriangle className="w-4 h-4 flex-shrink-0" />
+              Amount exceeds the liquidity available in the vault
+            </div>
+          )}
+          {!preview.exceedsLiquidity && preview.isTheoreticallyLiquidatable && (
+            <div className="flex items-start gap-2 text-xs text-orange-700 bg-orange-50 border border-orange-200 rounded p-2">
+              <AlertTriangle className="w-4 h-4 flex-shrink-0" />
+              VCOP allows this ratio, but it is beyond the suggested liquidation threshold
+            </div>
+          )}
+        </div>
+      )}
+
+      {/* Status */}
+      {error && (
+        <div className="mb-3 text-sm text-red-700 bg-red-50 border border-red-200 rounded-lg p-2">
+          ❌ {error}
+        </div>
+      )}
+      {success && step === 'completed' && (
+        <div className="mb-3 text-sm text-green-700 bg-green-50 border border-green-200 rounded-lg p-2 flex items-center gap-2">
+          <CheckCircle className="w-4 h-4" />
+          Loan increased successfully!
+        </div>
+      )}
+
+      <button
+        onClick={increaseLoan}
+        disabled={!canSubmit}
+        className="w-full bg-emerald-500 hover:bg-emerald-600 disabled:bg-gray-400 text-white px-4 py-2 rounded-lg font-semibold transition-colors flex items-center justify-center gap-2"
+      >
+        {isLoading ? (
+          <>
+            <div className="animate-spin w-4 h-4 border-2 border-white border-t-transparent rounded-full"></div>
+            {step === 'checking' && 'Checking liquidity...'}
+            {step === 'validating' && 'Simulating...'}
+            {step === 'borrowing' && `Borrowing (${transactionStep}/${totalTransactions})...`}
+          </>
+        ) : (
+          <>
+            <TrendingUp className="w-4 h-4" />
+            Increase Loan
+          </>
+        )}
+      </button>
+    </div>
+  );
+};
+
+export default IncreaseLoanPanel;
@@ -0,0 +1,277 @@
+import React from 'react';
+import {
+  Wallet,
+  Gavel,
+  RefreshCw,
+  AlertTriangle,
+  CheckCircle,
+  ChevronLeft,
+  ChevronRight,
+  ExternalLink
+} from 'lucide-react';
+import { useAccount } from 'wagmi';
+import { formatUnits } from 'viem';
+import { useLiquidations, LIQUIDATION_PAGE_SIZE, type LiquidationCandidate } from '../../hooks/useLiquidations';
+import { useBlockExplorer } from '../../hooks/useBlockExplorer';
+import AssetIcon from './AssetIcon';
+
+const formatAmount = (value: bigint, decimals: number): string => {
+  return parseFloat(formatUnits(value, decimals)).toLocaleString('en-US', { maximumFractionDigits: 4 });
+};
+
+const formatRatio = (ratio: bigint): string => {
+  return `${(Number(ratio) / 10000).toFixed(1)}%`;
+};
+
+export const LiquidationConsoleTab: React.FC = () => {
+  const { isConnected } = useAccount();
+  const { getTxUrl, getAddressUrl } = useBlockExplorer();
+  const {
+    candidates,
+    liquidatableCount,
+    atRiskCount,
+    liquidationBonus,
+    page,
+    totalPages,
+    setPage,
+    isLoading,
+    step,
+    positionId: activePositionId,
+    txHash,
+    error,
+    isLiquidating,
+    liquidate,
+    refresh
+  } = useLiquidations();
+
+  const [onlyLiquidatable, setOnlyLiquidatable] = React.useState(true);
+
+  const visibleCandidates = onlyLiquidatable
+    ? candidates.filter((candidate) => candidate.canLiquidate)
+    : candidates;
+
+  const handleLiquidate = async (candidate: LiquidationCandidate) => {
+    const confirmed = window.confirm(
+      `Liquidate position #${candidate.positionId.toString()}?\n\n` +
+      `You will repay ${formatAmount(candidate.totalDebt, candidate.loanDecimals)} ${candidate.loanSymbol} ` +
+      `and receive about ${formatAmount(candidate.collateralToLiquidator, candidate.collateralDecimals)} ${candidate.collateralSymbol}.`
+    );
+    if (!confirmed) return;
+
+    await liquidate(candidate);
+  };
+
+  if (!isConnected) {
+    return (
+      <div className="p-6 text-center py-12">
+        <Wallet className="w-16 h-16 text-gray-400 mx-auto mb-4" />
+        <h3 className="text-xl font-semibold text-gray-900 mb-2">Connect Your Wallet</h3>
+        <p className="text-gray-600">Please connect your wallet to liquidate positions.</p>
+      </div>
+    );
+  }
+
+  const firstId = page * LIQUIDATION_PAGE_SIZE + 1;
+  const lastId = firstId + LIQUIDATION_PAGE_SIZE - 1;
+
+  return (
+    <div className="p-6">
+      {/* Header */}
+      <div className="flex justify-between items-center mb-6">
+        <div>
+          <h2 className="text-2xl font-bold text-gray-900">Liquidations</h2>
+          <p className="text-gray-600">
+            Repay under-collateralized loans and earn a {(Number(liquidationBonus) / 10000).toFixed(1)}% bonus
+          </p>
+        </div>
+        <button
+          onClick={() => refresh()}
+          disabled={isLoading}
+          className="flex items-center gap-2 px-3 py-2 text-sm bg-gray-100 hover:bg-gray-200 text-gray-700 rounded-lg transition-colors"
+        >
+          <RefreshCw className={`w-4 h-4 ${isLoading ? 'animate-spin' : ''}`} />
+          Refresh
+        </button>
+      </div>
+
+      {/* Summary */}
+      <div className="mb-6 flex flex-wrap items-center justify-between gap-3 bg-gray-50 border border-gray-200 rounded-lg p-3 text-sm">
+        <div className="flex items-center gap-4 text-gray-700">
+          <span><strong className="text-red-600">{liquidatableCount}</strong> liquidatable on this page</span>
+          <span><strong className="text-orange-600">{atRiskCount}</strong> flagged at risk by automation</span>
+        </div>
+        <label className="flex items-center gap-2 text-gray-700 cursor-pointer">
+          <input
+            type="checkbox"
+            checked={onlyLiquidatable}
+            onChange={(e) => setOnlyLiquidatable(e.target.checked)}
+            className="rounded border-gray-300"
+          />
+          Only liquidatable
+        </label>
+      </div>
+
+      {error && (
+        <div className="mb-6 bg-red-50 border border-red-200 rounded-lg p-3 text-sm text-red-700">
+          ❌ {error}
+        </div>
+      )}
+      {step === 'completed' && activePositionId !== null && (
+        <div className="mb-6 bg-green-50 border border-green-200 rounded-lg p-3 text-sm text-green-700 flex items-center gap-2">
+          <CheckCircle className="w-4 h-4" />
+          Position #{activePositionId.toString()} liquidated!
+          {txHash && (
+            <a
+              href={getTxUrl(txHash)}
+              target="_blank"
+              rel="noopener noreferrer"
+              className="flex items-center gap-1 underline"
+            >
+              View transaction
+              <ExternalLink className="w-3 h-3" />
+            </a>
+          )}
+        </div>
+      )}
+
+      {isLoading ? (
+        <div className="text-center py-12">
+          <div className="animate-spin w-8 h-8 border-2 border-emerald-500 border-t-transparent rounded-full mx-auto mb-4"></div>
+          <p className="text-gray-600">Scanning positions #{firstId}–#{lastId}...</p>
+        </div>
+      ) : visibleCandidates.length === 0 ? (
+        <div className="text-center py-12">
+          <Gavel className="w-16 h-16 text-gray-400 mx-auto mb-4" />
+          <h3 className="text-xl font-semibold text-gray-900 mb-2">
+            {onlyLiquidatable ? 'Nothing to Liquidate' : 'No Active Positions'}
+          </h3>
+          <p className="text-gray-600">
+            No {onlyLiquidatable ? 'liquidatable' : 'active'} positions between #{firstId} and #{lastId}.
+          </p>
+        </div>
+      ) : (
+        <div className="space-y-4">
+          {visibleCandidates.map((candidate) => {
+            const isActive = activePositionId === candidate.positionId && isLiquidating;
+
+            return (
+              <div
+                key={candidate.positionId.toString()}
+                className={`rounded-xl border p-4 ${candidate.canLiquidate ? 'bg-red-50 border-red-200' : 'bg-white border-gray-200'}`}
+              >
+                <div className="flex justify-between items-start mb-3">
+                  <div>
+                    <h3 className="text-lg font-bold text-gray-900 flex items-center gap-2">
+                      Position #{candidate.positionId.toString()}
+                      {candidate.isAtRisk && (
+                        <span className="text-xs px-2 py-0.5 rounded-full font-semibold bg-orange-100 text-orange-700">
+                          AT RISK
+                        </span>
+                      )}
+                    </h3>
+                    <a
+                      href={getAddressUrl(candidate.position.borrower)}
+                      target="_blank"
+                      rel="noopener noreferrer"
+                      className="text-xs text-gray-500 font-mono hover:text-blue-600 hover:underline"
+                    >
+                      {candidate.position.borrower.slice(0, 6)}...{candidate.position.borrower.slice(-4)}
+                    </a>
+                  </div>
+                  <div className="text-right">
+                    <div className={`text-lg font-bold ${candidate.canLiquidate ? 'text-red-600' : 'text-gray-900'}`}>
+                      {formatRatio(candidate.collateralizationRatio)}
+                    </div>
+                    <div className="text-xs text-gray-500">Collateralization</div>
+                  </div>
+                </div>
+
+                <div className="grid grid-cols-2 md:grid-cols-4 gap-4 mb-4">
+                  <div className="bg-white p-3 rounded-lg border border-gray-200">
+                    <div className="text-xs text-gray-500 mb-1">Collateral</div>
+                    <div className="font-semibold text-gray-900 flex items-center gap-1">
+                      <AssetIcon asset={candidate.collateralSymbol} className="w-4 h-4" />
+                      {formatAmount(candidate.position.collateralAmount, candidate.collateralDecimals)} {candidate.collateralSymbol}
+                    </div>
+                  </div>
+                  <div className="bg-white p-3 rounded-lg border border-gray-200">
+                    <div className="text-xs text-gray-500 mb-1">Debt to Repay</div>
+                    <div className="font-semibold text-gray-900 flex items-center gap-1">
+                      <AssetIcon asset={candidate.loanSymbol} className="w-4 h-4" />
+                      {formatAmount(candidate.totalDebt, candidate.loanDecimals)} {candidate.loanSymbol}
+                    </div>
+                  </div>
+                  <div className="bg-white p-3 rounded-lg border border-gray-200">
+                    <div className="text-xs text-gray-500 mb-1">You Receive</div>
+                    <div className="font-semibold text-gray-900">
+                      {formatAmount(candidate.collateralToLiquidator, candidate.collateralDecimals)} {candidate.collateralSymbol}
+                    </div>
+                  </div>
+                  <div className="bg-white p-3 rounded-lg border border-gray-200">
+                    <div className="text-xs text-gray-500 mb-1">Expected Bonus</div>
+                    <div className={`font-semibold ${candidate.expectedBonus >= 0 ? 'text-emerald-600' : 'text-red-600'}`}>
+                      {candidate.expectedBonus.toFixed(4)} {candidate.loanSymbol}
+                    </div>
+                    <div className="text-xs text-gray-500">≈ ${candidate.expectedBonusUSD.toFixed(2)}</div>
+                  </div>
+                </div>
+
+                {candidate.expectedBonus < 0 && (
+                  <div className="mb-3 flex items-start gap-2 text-xs text-red-700 bg-white border border-red-200 rounded p-2">
+                    <AlertTriangle className="w-4 h-4 flex-shrink-0" />
+                    Collateral is worth less than the debt - liquidating this position is a loss
+                  </div>
+                )}
+
+                <button
+                  onClick={() => handleLiquidate(candidate)}
+                  disabled={!candidate.canLiquidate || isLiquidating}
+                  className="w-full bg-red-500 hover:bg-red-600 disabled:bg-gray-400 text-white px-4 py-2 rounded-lg font-semibold transition-colors flex items-center justify-center gap-2"
+                >
+                  {isActive ? (
+                    <>
+                      <div className="animate-spin w-4 h-4 border-2 border-white border-t-transparent rounded-full"></div>
+                      {step === 'approving' && `Approving ${candidate.loanSymbol}...`}
+                      {step === 'liquidating' && 'Confirm in wallet...'}
+                      {step === 'confirming' && 'Waiting for confirmation...'}
+                    </>
+                  ) : (
+                    <>
+                      <Gavel className="w-4 h-4" />
+                      {candidate.canLiquidate ? 'Liquidate' : 'Healthy'}
+                    </>
+                  )}
+                </button>
+              </div>
+            );
+          })}
+        </div>
+      )}
+
+      {/* Pagination */}
+      <div className="mt-6 flex items-center justify-between text-sm text-gray-600">
+        <button
+          onClick={() => setPage(Math.max(0, page - 1))}
+          disabled={page === 0 || isLoading}
+          className="flex items-center gap-1 px-3 py-2 bg-gray-100 hover:bg-gray-200 disabled:opacity-50 rounded-lg transition-colors"
+        >
+          <ChevronLeft className="w-4 h-4" />
+          Previous
+        </button>
+        <span>
+          Page {page + 1} of {totalPages} · IDs #{firstId}–#{lastId}
+        </span>
+        <button
+          onClick={() => setPage(Math.min(totalPages - 1, page + 1))}
+          disabled={page >= totalPages - 1 || isLoading}
+          className="flex items-center gap-1 px-3 py-2 bg-gray-100 hover:bg-gray-200 disabled:opacity-50 rounded-lg transition-colors"
+        >
+          Next
+          <ChevronRight className="w-4 h-4" />
+        </button>
+      </div>
+    </div>
+  );
+};
+
+export default LiquidationConsoleTab;
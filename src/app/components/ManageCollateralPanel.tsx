@@ -0,0 +1,230 @@
+import React from 'react';
+import {
+  PlusCircle,
+  MinusCircle,
+  ArrowRight,
+  AlertTriangle,
+  CheckCircle,
+  X
+} from 'lucide-react';
+import { formatUnits, parseUnits } from 'viem';
+import { useManageCollateral, type CollateralAction } from '../../hooks/useManageCollateral';
+import {
+  getRiskLevelColor,
+  getRiskLevelBgColor,
+  formatRiskLevel,
+  formatCollateralizationRatio
+} from '../../utils/riskEngine';
+import type { PositionData } from '../../hooks/useUserPositions';
+import AssetIcon from './AssetIcon';
+
+interface ManageCollateralPanelProps {
+  positionData: PositionData;
+  collateralSymbol: string;
+  collateralDecimals: number;
+  onConfirmed: () => void;
+  onClose: () => void;
+}
+
+export const ManageCollateralPanel: React.FC<ManageCollateralPanelProps> = ({
+  positionData,
+  collateralSymbol,
+  collateralDecimals,
+  onConfirmed,
+  onClose
+}) => {
+  const [action, setAction] = React.useState<CollateralAction>('add');
+  const [amountInput, setAmountInput] = React.useState('');
+
+  const {
+    addCollateral,
+    withdrawCollateral,
+    previewCollateralChange,
+    step,
+    error,
+    isProcessing,
+    resetState
+  } = useManageCollateral({ onConfirmed: () => onConfirmed() });
+
+  // Convertir el input del usuario a la unidad base del token
+  const amount = React.useMemo(() => {
+    if (!amountInput || isNaN(Number(amountInput)) || Number(amountInput) <= 0) return 0n;
+    try {
+      return parseUnits(amountInput, collateralDecimals);
+    } catch {
+      return 0n;
+    }
+  }, [amountInput, collateralDecimals]);
+
+  const preview = React.useMemo(
+    () => previewCollateralChange(positionData, action, amount),
+    [previewCollateralChange, positionData, action, amount]
+  );
+
+  const availableCollateral = formatUnits(positionData.position.collateralAmount, collateralDecimals);
+
+  const handleSubmit = async () => {
+    if (!preview.isValid) return;
+
+    const result = action === 'add'
+      ? await addCollateral(positionData, amount)
+      : await withdrawCollateral(positionData, amount);
+
+    if (result.success) {
+      setAmountInput('');
+    }
+  };
+
+  const switchAction = (next: CollateralAction) => {
+    setAction(next);
+    setAmountInput('');
+    resetState();
+  };
+
+  return (
+    <div className="mt-4 bg-gray-50 border border-gray-200 rounded-lg p-4">
+      <div className="flex justify-between items-center mb-3">
+        <h4 className="font-semibold text-gray-900 flex items-center gap-2">
+          <AssetIcon asset={collateralSymbol} className="w-4 h-4" />
+          Manage Collateral
+        </h4>
+        <button
+          onClick={onClose}
+          className="p-1 text-gray-500 hover:text-gray-700 transition-colors"
+          title="Close"
+        >
+          <X className="w-4 h-4" />
+        </button>
+      </div>
+
+      {/* Action toggle */}
+      <div className="flex gap-2 mb-3">
+        <button
+          onClick={() => switchAction('add')}
+          disabled={isProcessing}
+          className={`flex-1 px-3 py-2 text-sm rounded-lg font-medium transition-colors flex items-center justify-center gap-2 ${
+            action === 'add'
+              ? 'bg-emerald-500 text-white'
+              : 'bg-white border border-gray-300 text-gray-700 hover:bg-gray-100'
+          }`}
+        >
+          <PlusCircle className="w-4 h-4" />
+          Add
+        </button>
+        <button
+          onClick={() => switchAction('withdraw')}
+          disabled={isProcessing}
+          className={`flex-1 px-3 py-2 text-sm rounded-lg font-medium transition-colors flex items-center justify-center gap-2 ${
+            action === 'withdraw'
+              ? 'bg-orange-500 text-white'
+              : 'bg-white border border-gray-300 text-gray-700 hover:bg-gray-100'
+          }`}
+        >
+          <MinusCircle className="w-4 h-4" />
+          Withdraw
+        </button>
+      </div>
+
+      {/* Amount input */}
+      <div className="mb-3">
+        <div className="flex justify-between text-xs text-gray-500 mb-1">
+          <span>Amount ({collateralSymbol})</span>
+          <span>Deposited: {parseFloat(availableCollateral).toFixed(4)} {collateralSymbol}</span>
+        </div>
+        <div className="flex gap-2">
+          <input
+            type="number"
+            min="0"
+            step="any"
+            value={amountInput}
+            onChange={(e) => setAmountInput(e.target.value)}
+            disabled={isProcessing}
+            placeholder="0.0"
+            className="flex-1 p-2 text-sm border border-gray-300 rounded-lg focus:outline-none focus:ring-2 focus:ring-blue-500"
+          />
+          {action === 'withdraw' && (
+            <button
+              onClick={() => setAmountInput(availableCollateral)}
+              disabled={isProcessing}
+              className="px-3 py-2 text-xs bg-white border border-gray-300 text-gray-700 rounded-lg hover:bg-gray-100"
+            >
+              MAX
+            </button>
+          )}
+        </div>
+      </div>
+
+      {/* Preview */}
+      {amount > 0n && (
+        <div className="bg-white border border-gray-200 rounded-lg p-3 mb-3 space-y-2">
+          <div className="flex items-center justify-between text-sm">
+            <span className="text-gray-600">Collateral</span>
+            <span className="flex items-center gap-2 font-medium text-gray-900">
+              {parseFloat(formatUnits(preview.currentCollateral, collateralDecimals)).toFixed(4)}
+              <ArrowRight className="w-3 h-3 text-gray-400" />
+              {parseFloat(formatUnits(preview.newCollateral, collateralDecimals)).toFixed(4)} {collateralSymbol}
+            </span>
+          </div>
+          <div className="flex items-center justify-between text-sm">
+            <span className="text-gray-600">Collateralization</span>
+            <span className="flex items-center gap-2 font-medium">
+              <span className={getRiskLevelColor(preview.currentRiskLevel)}>
+                {formatCollateralizationRatio(preview.currentRatio)}
+              </span>
+              <ArrowRight className="w-3 h-3 text-gray-400" />
+              <span className={getRiskLevelColor(preview.newRiskLevel)}>
+                {formatCollateralizationRatio(preview.newRatio)}
+              </span>
+            </span>
+          </div>
+          <div className="flex items-center justify-between text-sm">
+            <span className="text-gray-600">Risk Level</span>
+            <span className={`text-xs px-2 py-1 rounded-full font-semibold ${getRiskLevelBgColor(preview.newRiskLevel)} ${getRiskLevelColor(preview.newRiskLevel)}`}>
+              {formatRiskLevel(preview.newRiskLevel)}
+            </span>
+          </div>
+          {preview.warning && (
+            <div className="flex items-start gap-2 text-xs text-red-700 bg-red-50 border border-red-200 rounded p-2">
+              <AlertTriangle className="w-4 h-4 flex-shrink-0" />
+              {preview.warning}
+            </div>
+          )}
+        </div>
+      )}
+
+      {/* Status */}
+      {error && (
+        <div className="mb-3 text-sm text-red-700 bg-red-50 border border-red-200 rounded-lg p-2">
+          ❌ {error}
+        </div>
+      )}
+      {step === 'completed' && (
+        <div className="mb-3 text-sm text-green-700 bg-green-50 border border-green-200 rounded-lg p-2 flex items-center gap-2">
+          <CheckCircle className="w-4 h-4" />
+          {action === 'add' ? 'Collateral added successfully!' : 'Collateral withdrawn successfully!'}
+        </div>
+      )}
+
+      <button
+        onClick={handleSubmit}
+        disabled={isProcessing || !preview.isValid}
+        className={`w-full disabled:bg-gray-400 text-white px-4 py-2 rounded-lg font-semibold transition-colors flex items-center justify-center gap-2 ${
+          action === 'add' ? 'bg-emerald-500 hover:bg-emerald-600' : 'bg-orange-500 hover:bg-orange-600'
+        }`}
+      >
+        {isProcessing ? (
+          <>
+            <div className="animate-spin w-4 h-4 border-2 border-white border-t-transparent rounded-full"></div>
+            {step === 'approving' && 'Approving...'}
+            {step === 'submitting' && 'Confirm in wallet...'}
+            {step === 'confirming' && 'Waiting for confirmation...'}
+          </>
+        ) : (
+          action === 'add' ? 'Add Collateral' : 'Withdraw Collateral'
+        )}
+      </button>
+    </div>
+  );
+};
+
+export default ManageCollateralPanel;
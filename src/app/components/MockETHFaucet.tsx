@@ -1,12 +1,14 @@
 import React from 'react';
 import { Droplets, CheckCircle, AlertTriangle, Loader2, TrendingUp, Clock, Wallet } from 'lucide-react';
 import { useMockETHFaucet } from '../../hooks/useMockETHFaucet';
+import { useBlockExplorer } from '../../hooks/useBlockExplorer';
 import useContractAddresses from '../../hooks/useContractAddresses';
 
 const MockETHFaucet: React.FC = () => {
+  const { getTxUrl } = useBlockExplorer();
   const {
     isLoading,
-    error,
+    errorDetails,
     success,
     txHash,
     isConfirming,
@@ -81,7 +83,7 @@ const MockETHFaucet: React.FC = () => {
                 </button>
                 {txHash && (
                   <a
-                    href={`https://subnets-test.avax.network/c-chain/tx/${txHash}`}
+                    href={getTxUrl(txHash)}
                     target="_blank"
                     rel="noopener noreferrer"
                     className="bg-blue-600 text-white py-1 px-2 rounded text-xs hover:bg-blue-700 transition-colors"
@@ -97,7 +99,7 @@ const MockETHFaucet: React.FC = () => {
             <div className="flex items-center justify-between">
               <div className="flex items-center gap-1">
                 <AlertTriangle className="w-3 h-3 text-red-600" />
-                <p className="text-xs text-red-800 font-bold">Failed</p>
+                <p className="text-xs text-red-800 font-bold">{errorDetails?.title ?? 'Failed'}</p>
               </div>
               <button
                 onClick={resetFaucet}
@@ -106,6 +108,9 @@ const MockETHFaucet: React.FC = () => {
                 Retry
               </button>
             </div>
+            {errorDetails?.action && (
+              <p className="text-xs text-red-700 mt-1">{errorDetails.action}</p>
+            )}
           </div>
         ) : (
           <button
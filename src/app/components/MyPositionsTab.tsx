@@ -6,31 +6,70 @@ import {
   RefreshCw,
   DollarSign,
   ArrowDownToLine,
-  ExternalLink
+  ExternalLink,
+  Layers,
+  TrendingUp
 } from 'lucide-react';
 import { useAccount } from 'wagmi';
-import { useUserPositions } from '../../hooks/useUserPositions';
+import { useUserPositions, type PositionData } from '../../hooks/useUserPositions';
+import { useRepayment } from '../../hooks/useRepayment';
+import { usePositionAutomation } from '../../hooks/usePositionAutomation';
+import { useBlockExplorer } from '../../hooks/useBlockExplorer';
 import { useOraclePrices } from '../../hooks/useOraclePrices';
+import { useTransactionManager, TRANSACTION_PURPOSE_LABELS } from '../../hooks/useTransactionManager';
 import AssetIcon from './AssetIcon';
+import ManageCollateralPanel from './ManageCollateralPanel';
+import IncreaseLoanPanel from './IncreaseLoanPanel';
+import RepayPositionPanel from './RepayPositionPanel';
+import BorrowerRewardsPanel from './BorrowerRewardsPanel';
+import OraclePriceBadge from './OraclePriceBadge';
+import PositionAutomationRow from './PositionAutomationRow';
+import {
+  assessRatioRisk,
+  getSuggestedLiquidationRatio,
+  getRiskLevelColor,
+  formatHealthFactor
+} from '../../utils/riskEngine';
 
 export const MyPositionsTab: React.FC = () => {
   const { address, isConnected } = useAccount();
+  const { getAddressUrl } = useBlockExplorer();
   const {
     positions,
     isLoading,
     error,
-    repayFullPosition,
-    repayPartialPosition,
     refreshPositions,
-    isRepaying,
-    isApproving,
-    txError,
     getAssetSymbol: getAssetSymbolFromPositions
   } = useUserPositions();
+  const {
+    repayFullPosition,
+    isApproving,
+    isRepaying,
+    approvalStrategy
+  } = useRepayment();
+  const { getPendingForPosition } = useTransactionManager();
+  const {
+    automationEnabled,
+    canManageTracking,
+    getAutomationStatus,
+    getTrackingError,
+    addingPositionId,
+    addPositionToTracking
+  } = usePositionAutomation(positions);
   
   // 🔧 FIX: Usar precios dinámicos del oracle
   const { prices: oraclePrices } = useOraclePrices();
 
+  // Posición con un panel de gestión abierto (colateral, préstamo adicional o repago)
+  const [activePanel, setActivePanel] = React.useState<{ positionId: bigint; panel: 'collateral' | 'borrow' | 'repay' } | null>(null);
+
+  const isPanelOpen = (positionId: bigint, panel: 'collateral' | 'borrow' | 'repay') =>
+    activePanel?.positionId === positionId && activePanel.panel === panel;
+
+  const togglePanel = (positionId: bigint, panel: 'collateral' | 'borrow' | 'repay') => {
+    setActivePanel(isPanelOpen(positionId, panel) ? null : { positionId, panel });
+  };
+
   // 🔧 FIX: Usar la función getAssetSymbol del hook useUserPositions que tiene las direcciones correctas
   const getAssetSymbol = (assetAddress: string): string => {
     return getAssetSymbolFromPositions(assetAddress as `0x${string}`)
@@ -51,28 +90,16 @@ export const MyPositionsTab: React.FC = () => {
     return `${formatted} ${symbol}`;
   };
 
-  const formatHealthFactor = (ratio: bigint): string => {
-    if (ratio === 0n) return '0.0';
-    if (ratio >= 5000000n) return '∞'; // 500%+ is considered infinite
-    return (Number(ratio) / 1000000).toFixed(2);
+  const getAssetDecimals = (assetAddress: string): number => {
+    const symbol = getAssetSymbol(assetAddress);
+    if (symbol === 'USDC') return 6;
+    if (symbol === 'WBTC') return 8;
+    return 18;
   };
 
-  const getRiskColor = (ratio: bigint): string => {
-    const numRatio = Number(ratio) / 1000000; // Convert to percentage
-    if (numRatio >= 200) return 'text-green-600';
-    if (numRatio >= 150) return 'text-blue-600';
-    if (numRatio >= 120) return 'text-yellow-600';
-    if (numRatio >= 110) return 'text-orange-600';
-    return 'text-red-600';
-  };
-
-  const getRiskBgColor = (ratio: bigint): string => {
-    const numRatio = Number(ratio) / 1000000; // Convert to percentage
-    if (numRatio >= 200) return 'bg-green-50 border-green-200';
-    if (numRatio >= 150) return 'bg-blue-50 border-blue-200';
-    if (numRatio >= 120) return 'bg-yellow-50 border-yellow-200';
-    if (numRatio >= 110) return 'bg-orange-50 border-orange-200';
-    return 'bg-red-50 border-red-200';
+  const getPositionRisk = (positionData: PositionData) => {
+    const collateralSymbol = getAssetSymbol(positionData.position.collateralAsset);
+    return assessRatioRisk(positionData.collateralizationRatio, getSuggestedLiquidationRatio(collateralSymbol));
   };
 
   if (!isConnected) {
@@ -95,13 +122,13 @@ export const MyPositionsTab: React.FC = () => {
     );
   }
 
-  if (error || txError) {
+  if (error) {
     return (
       <div className="p-6">
         <div className="bg-red-50 border border-red-200 rounded-lg p-4 text-center">
           <AlertTriangle className="w-12 h-12 text-red-500 mx-auto mb-4" />
           <h3 className="text-lg font-semibold text-red-900 mb-2">Error Loading Positions</h3>
-          <p className="text-red-700 mb-4">{error || (txError instanceof Error ? txError.message : String(txError))}</p>
+          <p className="text-red-700 mb-4">{error}</p>
           <button 
             onClick={refreshPositions}
             className="bg-red-500 hover:bg-red-600 text-white px-4 py-2 rounded-lg font-semibold"
@@ -146,6 +173,12 @@ export const MyPositionsTab: React.FC = () => {
           <p className="text-gray-600">Manage your active loan positions</p>
         </div>
         <div className="flex items-center gap-3">
+          <OraclePriceBadge
+            assets={positions.flatMap((positionData) => [
+              getAssetSymbol(positionData.position.collateralAsset),
+              getAssetSymbol(positionData.position.loanAsset)
+            ])}
+          />
           <button 
             onClick={refreshPositions}
             disabled={isLoading}
@@ -171,7 +204,9 @@ export const MyPositionsTab: React.FC = () => {
               </h3>
               <p className="text-blue-700 text-sm">
                 {isApproving 
-                  ? 'Please sign the approval transaction(s) in your wallet. You may need to sign 2 approvals.' 
+                  ? approvalStrategy === 'split'
+                    ? 'Please sign 2 approvals in your wallet: one for the protocol fee and one for the principal.'
+                    : 'Please sign the approval transaction in your wallet.'
                   : 'Please sign the repayment transaction in your wallet.'
                 }
               </p>
@@ -180,6 +215,9 @@ export const MyPositionsTab: React.FC = () => {
         </div>
       )}
 
+      {/* Rewards */}
+      <BorrowerRewardsPanel />
+
       {/* Info Banner */}
       {positions.length > 0 && (
         <div className="mb-6 bg-emerald-50 border border-emerald-200 rounded-lg p-4">
@@ -192,6 +230,8 @@ export const MyPositionsTab: React.FC = () => {
           <ul className="text-emerald-700 text-sm space-y-1">
             <li>• <strong>Step 1:</strong> Repay your loan using the "Repay Loan" button</li>
             <li>• <strong>Step 2:</strong> After successful repayment, use "Withdraw Collateral" to recover your assets</li>
+            <li>• <strong>Top up:</strong> Use "Collateral" to add or withdraw collateral without repaying your loan</li>
+            <li>• <strong>Leverage:</strong> Use "Borrow More" to increase an existing loan instead of opening a new position</li>
             <li>• <strong>Safety:</strong> All transactions are simulated before execution</li>
           </ul>
         </div>
@@ -212,6 +252,11 @@ export const MyPositionsTab: React.FC = () => {
                       ⚠️ At Risk
                     </span>
                   )}
+                  {getPendingForPosition(positionData.positionId).map(tx => (
+                    <span key={tx.hash} className="bg-blue-100 text-blue-800 text-xs px-2 py-1 rounded-full">
+                      ⏳ {TRANSACTION_PURPOSE_LABELS[tx.purpose]} pending
+                    </span>
+                  ))}
                 </h3>
                 <div className="flex items-center gap-4 mt-1">
                   <span className="text-sm text-gray-600">
@@ -225,8 +270,8 @@ export const MyPositionsTab: React.FC = () => {
               </div>
               
               <div className="text-right">
-                <div className={`text-lg font-bold ${getRiskColor(positionData.collateralizationRatio)}`}>
-                  {formatHealthFactor(positionData.collateralizationRatio)}x
+                <div className={`text-lg font-bold ${getRiskLevelColor(getPositionRisk(positionData).riskLevel)}`}>
+                  {formatHealthFactor(getPositionRisk(positionData).healthFactor)}x
                 </div>
                 <div className="text-xs text-gray-500">Health Factor</div>
               </div>
@@ -284,6 +329,9 @@ export const MyPositionsTab: React.FC = () => {
                       case 'VCOP':
                         collateralPrice = oraclePrices.VCOP;
                         break;
+                      case 'WGOLD':
+                        collateralPrice = oraclePrices.WGOLD;
+                        break;
                     }
                     
                     switch (loanSymbol) {
@@ -299,6 +347,9 @@ export const MyPositionsTab: React.FC = () => {
                       case 'VCOP':
                         loanPrice = oraclePrices.VCOP;
                         break;
+                      case 'WGOLD':
+                        loanPrice = oraclePrices.WGOLD;
+                        break;
                     }
                     
                     // Calcular valores en USD
@@ -314,12 +365,27 @@ export const MyPositionsTab: React.FC = () => {
               </div>
             </div>
 
+            {/* Automated liquidation monitoring */}
+            <PositionAutomationRow
+              status={getAutomationStatus(positionData.positionId)}
+              automationEnabled={automationEnabled}
+              canManageTracking={canManageTracking}
+              isAdding={addingPositionId === positionData.positionId}
+              error={getTrackingError(positionData.positionId)}
+              onAddTracking={() => addPositionToTracking(positionData.positionId)}
+            />
+
             {/* Action Buttons */}
             <div className="flex gap-3">
               <button
                 onClick={async () => {
+                  // Con deuda pendiente se abre el panel de repago con cotización
+                  if (Number(positionData.debtValueFormatted) > 0) {
+                    togglePanel(positionData.positionId, 'repay');
+                    return;
+                  }
                   try {
-                    const result = await repayFullPosition(positionData.positionId, positionData.position.loanAsset);
+                    const result = await repayFullPosition(positionData.positionId);
                     if (result.success) {
                       if (result.message) {
                         alert(result.message);
@@ -328,12 +394,13 @@ export const MyPositionsTab: React.FC = () => {
                       }
                       refreshPositions();
                     } else {
+                      const details = result.errorDetails;
                       if (result.error?.includes('already been repaid')) {
                         alert('ℹ️ This loan has already been repaid. You can now withdraw your collateral.');
-                      } else if (result.error?.includes('cancelled')) {
-                        alert('❌ Transaction was cancelled by user.');
-                      } else if (result.error?.includes('insufficient')) {
-                        alert('❌ Insufficient USDC balance. Please get more USDC tokens first.');
+                      } else if (details?.kind === 'insufficient-balance') {
+                        alert(`❌ Insufficient ${getAssetSymbol(positionData.position.loanAsset)} balance. Please get more tokens first.`);
+                      } else if (details) {
+                        alert(`❌ ${details.title}: ${details.message}${details.action ? `\n\n${details.action}` : ''}`);
                       } else {
                         alert(`❌ Repayment failed: ${result.error}`);
                       }
@@ -373,51 +440,73 @@ export const MyPositionsTab: React.FC = () => {
                 )}
               </button>
               
-              {Number(positionData.debtValueFormatted) > 0 && (
-                <button
-                  onClick={async () => {
-                    try {
-                      const amount = prompt("Enter amount to repay (USDC):");
-                      if (amount && !isNaN(Number(amount)) && Number(amount) > 0) {
-                        const result = await repayPartialPosition(
-                          positionData.positionId, 
-                          positionData.position.loanAsset, 
-                          BigInt(Math.floor(Number(amount) * 1e6))
-                        );
-                        if (result.success) {
-                          alert(`✅ Successfully repaid ${amount} USDC!`);
-                          refreshPositions();
-                        } else {
-                          if (result.error?.includes('cancelled')) {
-                            alert('❌ Transaction was cancelled by user.');
-                          } else if (result.error?.includes('insufficient')) {
-                            alert('❌ Insufficient USDC balance. Please get more USDC tokens first.');
-                          } else {
-                            alert(`❌ Partial repayment failed: ${result.error}`);
-                          }
-                        }
-                      } else if (amount !== null) {
-                        alert('❌ Please enter a valid amount greater than 0.');
-                      }
-                    } catch (error) {
-                      alert('❌ An unexpected error occurred. Please try again.');
-                    }
-                  }}
-                  disabled={isApproving || isRepaying}
-                  className="flex-1 bg-blue-500 hover:bg-blue-600 disabled:bg-gray-400 text-white px-4 py-2 rounded-lg font-semibold transition-colors flex items-center justify-center gap-2"
-                >
-                  <DollarSign className="w-4 h-4" />
-                  Partial Repay
-                </button>
-              )}
-              
+              <button
+                onClick={() => togglePanel(positionData.positionId, 'collateral')}
+                disabled={isApproving || isRepaying}
+                className={`px-4 py-2 border rounded-lg font-semibold transition-colors flex items-center justify-center gap-2 ${
+                  isPanelOpen(positionData.positionId, 'collateral')
+                    ? 'border-emerald-500 bg-emerald-50 text-emerald-700'
+                    : 'border-gray-300 text-gray-700 hover:bg-gray-50'
+                }`}
+              >
+                <Layers className="w-4 h-4" />
+                Collateral
+              </button>
+
+              <button
+                onClick={() => togglePanel(positionData.positionId, 'borrow')}
+                disabled={isApproving || isRepaying}
+                className={`px-4 py-2 border rounded-lg font-semibold transition-colors flex items-center justify-center gap-2 ${
+                  isPanelOpen(positionData.positionId, 'borrow')
+                    ? 'border-emerald-500 bg-emerald-50 text-emerald-700'
+                    : 'border-gray-300 text-gray-700 hover:bg-gray-50'
+                }`}
+              >
+                <TrendingUp className="w-4 h-4" />
+                Borrow More
+              </button>
+
               <button
                 className="px-4 py-2 border border-gray-300 text-gray-700 rounded-lg hover:bg-gray-50 transition-colors"
-                onClick={() => window.open(`https://subnets-test.avax.network/c-chain/address/${positionData.position.borrower}`, '_blank')}
+                onClick={() => window.open(getAddressUrl(positionData.position.borrower), '_blank')}
               >
                 <ExternalLink className="w-4 h-4" />
               </button>
             </div>
+
+            {/* Collateral Management */}
+            {isPanelOpen(positionData.positionId, 'collateral') && (
+              <ManageCollateralPanel
+                positionData={positionData}
+                collateralSymbol={getAssetSymbol(positionData.position.collateralAsset)}
+                collateralDecimals={getAssetDecimals(positionData.position.collateralAsset)}
+                onConfirmed={refreshPositions}
+                onClose={() => setActivePanel(null)}
+              />
+            )}
+
+            {/* Repay */}
+            {isPanelOpen(positionData.positionId, 'repay') && (
+              <RepayPositionPanel
+                positionData={positionData}
+                loanSymbol={getAssetSymbol(positionData.position.loanAsset)}
+                loanDecimals={getAssetDecimals(positionData.position.loanAsset)}
+                onConfirmed={refreshPositions}
+                onClose={() => setActivePanel(null)}
+              />
+            )}
+
+            {/* Increase Loan */}
+            {isPanelOpen(positionData.positionId, 'borrow') && (
+              <IncreaseLoanPanel
+                positionData={positionData}
+                collateralSymbol={getAssetSymbol(positionData.position.collateralAsset)}
+                loanSymbol={getAssetSymbol(positionData.position.loanAsset)}
+                loanDecimals={getAssetDecimals(positionData.position.loanAsset)}
+                onConfirmed={refreshPositions}
+                onClose={() => setActivePanel(null)}
+              />
+            )}
           </div>
         ))}
       </div>
@@ -0,0 +1,89 @@
+import React from 'react';
+import { CheckCircle, AlertTriangle, Clock } from 'lucide-react';
+import { useOraclePrices, type AssetPriceInfo, type OraclePrices } from '../../hooks/useOraclePrices';
+
+interface OraclePriceBadgeProps {
+  assets: string[];
+  className?: string;
+}
+
+const formatAge = (date: Date | null): string => {
+  if (!date) return 'unknown';
+  const seconds = Math.max(0, Math.floor((Date.now() - date.getTime()) / 1000));
+  if (seconds < 60) return `${seconds}s ago`;
+  if (seconds < 3600) return `${Math.floor(seconds / 60)}m ago`;
+  if (seconds < 86400) return `${Math.floor(seconds / 3600)}h ago`;
+  return `${Math.floor(seconds / 86400)}d ago`;
+};
+
+const formatSource = (info: AssetPriceInfo): string => {
+  switch (info.source) {
+    case 'chainlink': return 'Chainlink';
+    case 'oracle': return 'Oracle';
+    default: return 'Fallback';
+  }
+};
+
+const describeAsset = (asset: string, info: AssetPriceInfo): string => {
+  if (info.source === 'fallback') {
+    return `${asset}: fallback price (${info.fallbackReason ?? 'oracle unavailable'})`;
+  }
+
+  const parts = [`${asset}: ${formatSource(info)}`];
+  if (info.updatedAt) parts.push(`updated ${formatAge(info.updatedAt)}`);
+  if (info.isStale) parts.push('stale');
+  if (info.deviation !== null) parts.push(`${info.deviation >= 0 ? '+' : ''}${info.deviation.toFixed(2)}% vs previous`);
+  return parts.join(', ');
+};
+
+export const OraclePriceBadge: React.FC<OraclePriceBadgeProps> = ({ assets, className = "" }) => {
+  const { priceDetails } = useOraclePrices();
+
+  const entries = Array.from(new Set(assets))
+    .filter((asset): asset is keyof OraclePrices => asset in priceDetails)
+    .map((asset) => ({ asset, info: priceDetails[asset] }));
+
+  if (entries.length === 0) return null;
+
+  const fallbackAssets = entries.filter(({ info }) => info.source === 'fallback').map(({ asset }) => asset);
+  const staleAssets = entries.filter(({ info }) => info.isStale).map(({ asset }) => asset);
+  const tooltip = entries.map(({ asset, info }) => describeAsset(asset, info)).join('\n');
+
+  if (fallbackAssets.length > 0) {
+    return (
+      <span
+        title={tooltip}
+        className={`inline-flex items-center gap-1 text-xs px-2 py-1 rounded-full font-semibold bg-yellow-100 text-yellow-800 ${className}`}
+      >
+        <AlertTriangle className="w-3 h-3" />
+        Fallback prices: {fallbackAssets.join(', ')}
+      </span>
+    );
+  }
+
+  if (staleAssets.length > 0) {
+    return (
+      <span
+        title={tooltip}
+        className={`inline-flex items-center gap-1 text-xs px-2 py-1 rounded-full font-semibold bg-orange-100 text-orange-800 ${className}`}
+      >
+        <Clock className="w-3 h-3" />
+        Stale prices: {staleAssets.join(', ')}
+      </span>
+    );
+  }
+
+  const sources = Array.from(new Set(entries.map(({ info }) => formatSource(info)))).join(' + ');
+
+  return (
+    <span
+      title={tooltip}
+      className={`inline-flex items-center gap-1 text-xs px-2 py-1 rounded-full font-semibold bg-green-100 text-green-800 ${className}`}
+    >
+      <CheckCircle className="w-3 h-3" />
+      Live {sources} prices
+    </span>
+  );
+};
+
+export default OraclePriceBadge;
@@ -0,0 +1,165 @@
+import React from 'react';
+import {
+  Activity,
+  CheckCircle,
+  XCircle,
+  RefreshCw,
+  Repeat,
+  AlertTriangle
+} from 'lucide-react';
+import {
+  useTransactionManager,
+  TRANSACTION_PURPOSE_LABELS,
+  type TrackedTransaction,
+  type TrackedTransactionStatus
+} from '../../hooks/useTransactionManager';
+import { useBlockExplorer } from '../../hooks/useBlockExplorer';
+
+const STATUS_STYLES: Record<TrackedTransactionStatus, { label: string; className: string }> = {
+  pending: { label: 'Pending', className: 'text-blue-600' },
+  confirmed: { label: 'Confirmed', className: 'text-green-600' },
+  failed: { label: 'Reverted', className: 'text-red-600' },
+  replaced: { label: 'Replaced', className: 'text-yellow-600' },
+  dropped: { label: 'Dropped', className: 'text-gray-500' }
+};
+
+const StatusIcon: React.FC<{ status: TrackedTransactionStatus }> = ({ status }) => {
+  switch (status) {
+    case 'pending':
+      return <RefreshCw className="w-4 h-4 text-blue-600 animate-spin" />;
+    case 'confirmed':
+      return <CheckCircle className="w-4 h-4 text-green-600" />;
+    case 'failed':
+      return <XCircle className="w-4 h-4 text-red-600" />;
+    case 'replaced':
+      return <Repeat className="w-4 h-4 text-yellow-600" />;
+    case 'dropped':
+      return <AlertTriangle className="w-4 h-4 text-gray-500" />;
+  }
+};
+
+const formatAge = (timestamp: number) => {
+  const seconds = Math.floor((Date.now() - timestamp) / 1000);
+  if (seconds < 60) return `${seconds}s ago`;
+  if (seconds < 3600) return `${Math.floor(seconds / 60)}m ago`;
+  return `${Math.floor(seconds / 3600)}h ago`;
+};
+
+const TransactionRow: React.FC<{ tx: TrackedTransaction }> = ({ tx }) => {
+  const { getTxUrl } = useBlockExplorer();
+
+  return (
+    <div className="flex items-start gap-3 px-4 py-3 border-b border-gray-100 last:border-b-0">
+      <div className="mt-0.5">
+        <StatusIcon status={tx.status} />
+      </div>
+      <div className="flex-1 min-w-0">
+        <div className="flex justify-between gap-2 text-sm">
+          <span className="font-medium text-gray-900 truncate">
+            {TRANSACTION_PURPOSE_LABELS[tx.purpose]}
+            {tx.positionId && <span className="text-gray-500"> · #{tx.positionId}</span>}
+          </span>
+          <span className={`text-xs font-semibold ${STATUS_STYLES[tx.status].className}`}>
+            {STATUS_STYLES[tx.status].label}
+          </span>
+        </div>
+        {tx.description && <div className="text-xs text-gray-500 truncate">{tx.description}</div>}
+        <div className="flex justify-between text-xs text-gray-400 font-mono">
+          <a
+            href={getTxUrl(tx.hash)}
+            target="_blank"
+            rel="noopener noreferrer"
+            className="hover:text-blue-600 hover:underline"
+          >
+            {tx.hash.slice(0, 10)}...{tx.hash.slice(-6)}
+          </a>
+          <span className="font-sans">{formatAge(tx.submittedAt)}</span>
+        </div>
+        {tx.replacedBy && (
+          <div className="text-xs text-gray-400 font-mono">
+            →{' '}
+            <a
+              href={getTxUrl(tx.replacedBy)}
+              target="_blank"
+              rel="noopener noreferrer"
+              className="hover:text-blue-600 hover:underline"
+            >
+              {tx.replacedBy.slice(0, 10)}...{tx.replacedBy.slice(-6)}
+            </a>
+          </div>
+        )}
+      </div>
+    </div>
+  );
+};
+
+export const PendingTransactionsIndicator: React.FC = () => {
+  const { transactions, pendingTransactions, clearSettled } = useTransactionManager();
+  const [isOpen, setIsOpen] = React.useState(false);
+
+  // Cerrar al hacer click fuera
+  React.useEffect(() => {
+    const handleClickOutside = (event: MouseEvent) => {
+      const target = event.target as Element;
+      if (!target.closest('.pending-transactions')) {
+        setIsOpen(false);
+      }
+    };
+
+    if (isOpen) {
+      document.addEventListener('mousedown', handleClickOutside);
+      return () => document.removeEventListener('mousedown', handleClickOutside);
+    }
+  }, [isOpen]);
+
+  if (transactions.length === 0) return null;
+
+  const pendingCount = pendingTransactions.length;
+  const hasSettled = transactions.length > pendingCount;
+
+  return (
+    <div className="relative pending-transactions">
+      <button
+        onClick={() => setIsOpen(!isOpen)}
+        className={`px-3 py-2 rounded-lg flex items-center gap-2 text-sm font-medium transition-colors ${
+          pendingCount > 0
+            ? 'bg-blue-100 text-blue-700 hover:bg-blue-200'
+            : 'bg-gray-100 text-gray-600 hover:bg-gray-200'
+        }`}
+        title="Recent transactions"
+      >
+        {pendingCount > 0 ? (
+          <>
+            <RefreshCw className="w-4 h-4 animate-spin" />
+            {pendingCount} pending
+          </>
+        ) : (
+          <Activity className="w-4 h-4" />
+        )}
+      </button>
+
+      {isOpen && (
+        <div className="absolute right-0 mt-2 w-80 bg-white border border-gray-200 rounded-lg shadow-xl z-50">
+          <div className="flex justify-between items-center px-4 py-3 border-b border-gray-200">
+            <h4 className="font-semibold text-gray-900 text-sm">Recent Transactions</h4>
+            {hasSettled && (
+              <button
+                onClick={clearSettled}
+                className="text-xs text-gray-500 hover:text-gray-700 transition-colors"
+              >
+                Clear finished
+              </button>
+            )}
+          </div>
+          <div className="max-h-80 overflow-y-auto">
+            {transactions.map(tx => (
+              <TransactionRow key={tx.hash} tx={tx} />
+            ))}
+          </div>
+        </div>
+      )}
+    </div>
+  );
+};
+
+export default PendingTransactionsIndicator;
@@ -0,0 +1,110 @@
+import React from 'react';
+import { Bot, ShieldCheck, ShieldOff, Plus } from 'lucide-react';
+import { maxUint256 } from 'viem';
+import type { PositionAutomationStatus } from '../../hooks/usePositionAutomation';
+
+interface PositionAutomationRowProps {
+  status: PositionAutomationStatus | null;
+  automationEnabled: boolean;
+  canManageTracking: boolean;
+  isAdding: boolean;
+  error: string | null;
+  onAddTracking: () => void;
+}
+
+const formatAttempt = (seconds: number): string => {
+  if (seconds === 0) return 'Never';
+  return new Date(seconds * 1000).toLocaleString();
+};
+
+// El adapter devuelve el ratio de colateralización en 6 decimales (1500000 = 150%)
+const formatAdapterRatio = (ratio: bigint): string => {
+  if (ratio === maxUint256) return '∞';
+  return `${(Number(ratio) / 10000).toFixed(1)}%`;
+};
+
+export const PositionAutomationRow: React.FC<PositionAutomationRowProps> = ({
+  status,
+  automationEnabled,
+  canManageTracking,
+  isAdding,
+  error,
+  onAddTracking
+}) => {
+  if (!status) return null;
+
+  const isWatched = status.isTracked && automationEnabled;
+
+  return (
+    <div
+      className={`mb-4 rounded-lg border p-3 text-sm ${
+        isWatched ? 'bg-emerald-50 border-emerald-200' : 'bg-yellow-50 border-yellow-200'
+      }`}
+    >
+      <div className="flex flex-wrap items-center gap-x-6 gap-y-2">
+        <span className={`flex items-center gap-2 font-semibold ${isWatched ? 'text-emerald-800' : 'text-yellow-800'}`}>
+          {isWatched ? <ShieldCheck className="w-4 h-4" /> : <ShieldOff className="w-4 h-4" />}
+          {!status.isTracked
+            ? 'Not monitored by automated liquidation'
+            : automationEnabled
+              ? 'Monitored by automated liquidation'
+              : 'Tracked, but automation is disabled'}
+        </span>
+
+        {status.isTracked && (
+          <>
+            {status.healthFactor !== null && status.healthFactor > 0n && (
+              <span className="text-gray-600">
+                Adapter ratio: <span className="font-medium text-gray-900">{formatAdapterRatio(status.healthFactor)}</span>
+              </span>
+            )}
+            <span className="text-gray-600">
+              Last attempt: <span className="font-medium text-gray-900">{formatAttempt(status.lastAttempt)}</span>
+            </span>
+            <span className="text-gray-600">
+              Failures:{' '}
+              <span className={`font-medium ${status.failureCount > 0n ? 'text-red-600' : 'text-gray-900'}`}>
+                {status.failureCount.toString()}
+              </span>
+            </span>
+            {status.cooldownEndsAt && (
+              <span className="text-gray-600">
+                Cooldown until{' '}
+                <span className="font-medium text-gray-900">
+                  {new Date(status.cooldownEndsAt * 1000).toLocaleTimeString()}
+                </span>
+              </span>
+            )}
+          </>
+        )}
+
+        {!status.isTracked && (
+          <button
+            onClick={onAddTracking}
+            disabled={!canManageTracking || isAdding}
+            title={canManageTracking ? undefined : 'Only the loan manager, the adapter owner or the keeper can add positions to tracking'}
+            className="ml-auto flex items-center gap-1 px-3 py-1 text-xs font-semibold rounded-lg bg-yellow-600 hover:bg-yellow-700 disabled:bg-gray-300 disabled:cursor-not-allowed text-white transition-colors"
+          >
+            {isAdding ? (
+              <div className="animate-spin w-3 h-3 border-2 border-white border-t-transparent rounded-full"></div>
+            ) : (
+              <Plus className="w-3 h-3" />
+            )}
+            Add to tracking
+          </button>
+        )}
+      </div>
+
+      {!status.isTracked && !canManageTracking && (
+        <p className="mt-2 text-xs text-yellow-700 flex items-center gap-1">
+          <Bot className="w-3 h-3" />
+          Positions are normally added when they are created. Ask the protocol team to add this one so the keeper can liquidate it.
+        </p>
+      )}
+
+      {error && <p className="mt-2 text-xs text-red-700">❌ {error}</p>}
+    </div>
+  );
+};
+
+export default PositionAutomationRow;
@@ -10,8 +10,9 @@ import {
   Target,
   RefreshCw
 } from 'lucide-react';
-import { RiskLevel } from '../../hooks/useRiskCalculator';
+import { RiskLevel } from '../../utils/riskEngine';
 import { useOraclePrices } from '../../hooks/useOraclePrices';
+import OraclePriceBadge from './OraclePriceBadge';
 
 interface RiskMetrics {
   riskLevel: RiskLevel;
@@ -251,6 +252,7 @@ export const PositionSummary: React.FC<PositionSummaryProps> = ({
               🔮 Current Prices
             </h4>
             <div className="flex items-center gap-2">
+              <OraclePriceBadge assets={[collateralAsset, loanAsset]} />
               {pricesError && (
                 <span className="text-xs text-red-600 bg-red-100 px-2 py-1 rounded-full">
                   ⚠️
@@ -0,0 +1,266 @@
+import React from 'react';
+import {
+  Wallet,
+  Droplets,
+  RefreshCw,
+  Gift,
+  ArrowDownToLine,
+  ArrowUpFromLine,
+  CheckCircle
+} from 'lucide-react';
+import { useAccount } from 'wagmi';
+import { formatUnits, parseUnits } from 'viem';
+import { useLiquidityVaults, type VaultData } from '../../hooks/useLiquidityVaults';
+import AssetIcon from './AssetIcon';
+
+const formatAmount = (value: bigint, decimals: number, digits = 4): string => {
+  return parseFloat(formatUnits(value, decimals)).toLocaleString('en-US', {
+    maximumFractionDigits: digits
+  });
+};
+
+export const ProvideLiquidityTab: React.FC = () => {
+  const { isConnected } = useAccount();
+  const {
+    vaults,
+    pendingRewards,
+    isLoading,
+    step,
+    token: activeToken,
+    error,
+    isProcessing,
+    deposit,
+    withdraw,
+    claimRewards,
+    refresh,
+    resetActionState
+  } = useLiquidityVaults();
+
+  // Input por vault (dirección del token -> cantidad en formato decimal)
+  const [amounts, setAmounts] = React.useState<Record<string, string>>({});
+
+  const parseAmount = (vault: VaultData): bigint => {
+    const input = amounts[vault.token];
+    if (!input || isNaN(Number(input)) || Number(input) <= 0) return 0n;
+    try {
+      return parseUnits(input, vault.decimals);
+    } catch {
+      return 0n;
+    }
+  };
+
+  const setAmount = (token: string, value: string) => {
+    setAmounts(prev => ({ ...prev, [token]: value }));
+    if (step === 'completed' || error) resetActionState();
+  };
+
+  const handleDeposit = async (vault: VaultData) => {
+    const result = await deposit(vault.token, parseAmount(vault));
+    if (result.success) setAmount(vault.token, '');
+  };
+
+  const handleWithdraw = async (vault: VaultData) => {
+    const result = await withdraw(vault.token, parseAmount(vault));
+    if (result.success) setAmount(vault.token, '');
+  };
+
+  if (!isConnected) {
+    return (
+      <div className="p-6 text-center py-12">
+        <Wallet className="w-16 h-16 text-gray-400 mx-auto mb-4" />
+        <h3 className="text-xl font-semibold text-gray-900 mb-2">Connect Your Wallet</h3>
+        <p className="text-gray-600">Please connect your wallet to provide liquidity.</p>
+      </div>
+    );
+  }
+
+  if (isLoading) {
+    return (
+      <div className="p-6 text-center py-12">
+        <div className="animate-spin w-8 h-8 border-2 border-emerald-500 border-t-transparent rounded-full mx-auto mb-4"></div>
+        <h3 className="text-lg font-semibold text-gray-900 mb-2">Loading Vaults...</h3>
+        <p className="text-gray-600">Fetching vault liquidity from the blockchain.</p>
+      </div>
+    );
+  }
+
+  return (
+    <div className="p-6">
+      {/* Header */}
+      <div className="flex justify-between items-center mb-6">
+        <div>
+          <h2 className="text-2xl font-bold text-gray-900">Provide Liquidity</h2>
+          <p className="text-gray-600">Lend your assets to borrowers and earn interest</p>
+        </div>
+        <button
+          onClick={() => refresh()}
+          className="flex items-center gap-2 px-3 py-2 text-sm bg-gray-100 hover:bg-gray-200 text-gray-700 rounded-lg transition-colors"
+        >
+          <RefreshCw className="w-4 h-4" />
+          Refresh
+        </button>
+      </div>
+
+      {/* Rewards */}
+      <div className="mb-6 bg-gradient-to-br from-purple-50 to-purple-100 border border-purple-200 rounded-lg p-4 flex items-center justify-between">
+        <div className="flex items-center gap-3">
+          <Gift className="w-6 h-6 text-purple-600" />
+          <div>
+            <h3 className="font-semibold text-purple-900">Liquidity Rewards</h3>
+            <p className="text-purple-700 text-sm">
+              Pending: <strong>{formatAmount(pendingRewards, 18)}</strong>
+            </p>
+          </div>
+        </div>
+        <button
+          onClick={() => claimRewards()}
+          disabled={isProcessing || pendingRewards === 0n}
+          className="bg-purple-500 hover:bg-purple-600 disabled:bg-gray-400 text-white px-4 py-2 rounded-lg font-semibold transition-colors flex items-center gap-2"
+        >
+          {step === 'claiming' ? (
+            <div className="animate-spin w-4 h-4 border-2 border-white border-t-transparent rounded-full"></div>
+          ) : (
+            <Gift className="w-4 h-4" />
+          )}
+          Claim
+        </button>
+      </div>
+
+      {error && (
+        <div className="mb-6 bg-red-50 border border-red-200 rounded-lg p-3 text-sm text-red-700">
+          ❌ {error}
+        </div>
+      )}
+
+      {vaults.length === 0 ? (
+        <div className="text-center py-12">
+          <Droplets className="w-16 h-16 text-gray-400 mx-auto mb-4" />
+          <h3 className="text-xl font-semibold text-gray-900 mb-2">No Vaults Available</h3>
+          <p className="text-gray-600">No assets are currently configured in the vault handler.</p>
+        </div>
+      ) : (
+        <div className="space-y-6">
+          {vaults.map((vault) => {
+            const amount = parseAmount(vault);
+            const isActive = activeToken === vault.token;
+
+            return (
+              <div key={vault.token} className="bg-white rounded-xl border border-gray-200 p-4">
+                {/* Vault Header */}
+                <div className="flex justify-between items-start mb-4">
+                  <h3 className="text-lg font-bold text-gray-900 flex items-center gap-2">
+                    <AssetIcon asset={vault.symbol} className="w-5 h-5" />
+                    {vault.symbol} Vault
+                  </h3>
+                  <div className="text-right">
+                    <div className="text-lg font-bold text-emerald-600">{vault.supplyApy.toFixed(2)}%</div>
+                    <div className="text-xs text-gray-500">Supply APY</div>
+                  </div>
+                </div>
+
+                {/* Vault Metrics */}
+                <div className="grid grid-cols-2 md:grid-cols-4 gap-4 mb-4">
+                  <div className="bg-white p-3 rounded-lg border border-gray-200">
+                    <div className="text-xs text-gray-500 mb-1">Total Liquidity</div>
+                    <div className="font-semibold text-gray-900">
+                      {formatAmount(vault.totalLiquidity, vault.decimals, 2)} {vault.symbol}
+                    </div>
+                  </div>
+                  <div className="bg-white p-3 rounded-lg border border-gray-200">
+                    <div className="text-xs text-gray-500 mb-1">Utilization</div>
+                    <div className="font-semibold text-gray-900">{vault.utilizationRate.toFixed(1)}%</div>
+                    <div className="w-full bg-gray-200 rounded-full h-1.5 mt-1">
+                      <div
+                        className="bg-emerald-500 h-1.5 rounded-full"
+                        style={{ width: `${Math.min(vault.utilizationRate, 100)}%` }}
+                      ></div>
+                    </div>
+                  </div>
+                  <div className="bg-white p-3 rounded-lg border border-gray-200">
+                    <div className="text-xs text-gray-500 mb-1">Your Deposit</div>
+                    <div className="font-semibold text-gray-900">
+                      {formatAmount(vault.userProvided, vault.decimals)} {vault.symbol}
+                    </div>
+                    <div className="text-xs text-gray-500">{vault.userShare.toFixed(2)}% of vault</div>
+                  </div>
+                  <div className="bg-white p-3 rounded-lg border border-gray-200">
+                    <div className="text-xs text-gray-500 mb-1">Interest Earned</div>
+                    <div className="font-semibold text-gray-900">
+                      {formatAmount(vault.userEarnedInterest + vault.userPendingInterest, vault.decimals, 6)} {vault.symbol}
+                    </div>
+                    <div className="text-xs text-gray-500">Borrow APR {vault.borrowApr.toFixed(2)}%</div>
+                  </div>
+                </div>
+
+                {/* Actions */}
+                <div className="flex flex-col md:flex-row gap-3">
+                  <div className="flex-1">
+                    <div className="flex justify-between text-xs text-gray-500 mb-1">
+                      <span>Wallet: {formatAmount(vault.walletBalance, vault.decimals)} {vault.symbol}</span>
+                      <span>Idle: {formatAmount(vault.availableLiquidity, vault.decimals, 2)} {vault.symbol}</span>
+                    </div>
+                    <input
+                      type="number"
+                      min="0"
+                      step="any"
+                      value={amounts[vault.token] ?? ''}
+                      onChange={(e) => setAmount(vault.token, e.target.value)}
+                      disabled={isProcessing}
+                      placeholder="0.0"
+                      className="w-full p-2 text-sm border border-gray-300 rounded-lg focus:outline-none focus:ring-2 focus:ring-blue-500"
+                    />
+                  </div>
+                  <div className="flex gap-3 md:items-end">
+                    <button
+                      onClick={() => handleDeposit(vault)}
+                      disabled={isProcessing || amount === 0n || amount > vault.walletBalance}
+                      className="flex-1 bg-emerald-500 hover:bg-emerald-600 disabled:bg-gray-400 text-white px-4 py-2 rounded-lg font-semibold transition-colors flex items-center justify-center gap-2"
+                    >
+                      {isActive && (step === 'approving' || step === 'depositing') ? (
+                        <>
+                          <div className="animate-spin w-4 h-4 border-2 border-white border-t-transparent rounded-full"></div>
+                          {step === 'approving' ? 'Approving...' : 'Depositing...'}
+                        </>
+                      ) : (
+                        <>
+                          <ArrowDownToLine className="w-4 h-4" />
+                          {amount > 0n && amount > vault.allowance ? 'Approve & Deposit' : 'Deposit'}
+                        </>
+                      )}
+                    </button>
+                    <button
+                      onClick={() => handleWithdraw(vault)}
+                      disabled={isProcessing || amount === 0n || amount > vault.userProvided}
+                      className="flex-1 bg-blue-500 hover:bg-blue-600 disabled:bg-gray-400 text-white px-4 py-2 rounded-lg font-semibold transition-colors flex items-center justify-center gap-2"
+                    >
+                      {isActive && step === 'withdrawing' ? (
+                        <>
+                          <div className="animate-spin w-4 h-4 border-2 border-white border-t-transparent rounded-full"></div>
+                          Withdrawing...
+                        </>
+                      ) : (
+                        <>
+                          <ArrowUpFromLine className="w-4 h-4" />
+                          Withdraw
+                        </>
+                      )}
+                    </button>
+                  </div>
+                </div>
+
+                {isActive && step === 'completed' && (
+                  <div className="mt-3 text-sm text-green-700 bg-green-50 border border-green-200 rounded-lg p-2 flex items-center gap-2">
+                    <CheckCircle className="w-4 h-4" />
+                    Transaction confirmed!
+                  </div>
+                )}
+              </div>
+            );
+          })}
+        </div>
+      )}
+    </div>
+  );
+};
+
+export default ProvideLiquidityTab;
@@ -2,7 +2,6 @@ import React, { useState } from 'react';
 import { 
   Calculator,
   TrendingUp,
-  TrendingDown,
   BarChart3,
   Settings,
   User,
@@ -25,9 +24,18 @@ import { useAppKit } from '@reown/appkit/react';
 import { useCreatePosition } from '../../hooks/useCreatePosition';
 import type { LoanTerms, CreatePositionParams } from '../../hooks/useCreatePosition';
 import useContractAddresses from '../../hooks/useContractAddresses';
+import { useBlockExplorer } from '../../hooks/useBlockExplorer';
 import { parseUnits } from 'viem';
 import MockETHFaucet from './MockETHFaucet';
 import { useOraclePrices } from '../../hooks/useOraclePrices';
+import {
+  assessLtvRisk,
+  getSuggestedLiquidationRatio,
+  getRiskIcon,
+  getRiskLevelColor,
+  getRiskLevelBgColor,
+  formatHealthFactor
+} from '../../utils/riskEngine';
 
 // Asset icon component
 const AssetIcon: React.FC<{ asset: string; className?: string }> = ({ asset, className = "w-5 h-5" }) => {
@@ -115,71 +123,8 @@ const AssetDropdown: React.FC<{
   );
 };
 
-// Risk calculation logic
-enum RiskLevel {
-  ULTRA_SAFE = "ULTRA_SAFE",
-  HEALTHY = "HEALTHY", 
-  MODERATE = "MODERATE",
-  AGGRESSIVE = "AGGRESSIVE",
-  EXTREME = "EXTREME",
-  DANGER_ZONE = "DANGER_ZONE"
-}
-
-const calculateRiskLevel = (ltv: number): RiskLevel => {
-  if (ltv <= 50) return RiskLevel.ULTRA_SAFE;
-  if (ltv <= 65) return RiskLevel.HEALTHY;
-  if (ltv <= 80) return RiskLevel.MODERATE;
-  if (ltv <= 90) return RiskLevel.AGGRESSIVE;
-  if (ltv <= 100) return RiskLevel.EXTREME;
-  return RiskLevel.DANGER_ZONE;
-};
-
-const getRiskIcon = (riskLevel: RiskLevel) => {
-  switch (riskLevel) {
-    case RiskLevel.ULTRA_SAFE: return <Shield className="w-3 h-3" />;
-    case RiskLevel.HEALTHY: return <Shield className="w-3 h-3" />;
-    case RiskLevel.MODERATE: return <Activity className="w-3 h-3" />;
-    case RiskLevel.AGGRESSIVE: return <Target className="w-3 h-3" />;
-    case RiskLevel.EXTREME: return <AlertTriangle className="w-3 h-3" />;
-    case RiskLevel.DANGER_ZONE: return <TrendingDown className="w-3 h-3" />;
-    default: return <Calculator className="w-3 h-3" />;
-  }
-};
-
-const getRiskLevelColor = (riskLevel: RiskLevel) => {
-  switch (riskLevel) {
-    case RiskLevel.ULTRA_SAFE: return "text-green-800";
-    case RiskLevel.HEALTHY: return "text-emerald-800";
-    case RiskLevel.MODERATE: return "text-blue-800";
-    case RiskLevel.AGGRESSIVE: return "text-yellow-800";
-    case RiskLevel.EXTREME: return "text-orange-800";
-    case RiskLevel.DANGER_ZONE: return "text-red-800";
-    default: return "text-gray-800";
-  }
-};
-
-const getRiskLevelBgColor = (riskLevel: RiskLevel) => {
-  switch (riskLevel) {
-    case RiskLevel.ULTRA_SAFE: return "bg-green-100";
-    case RiskLevel.HEALTHY: return "bg-emerald-100";
-    case RiskLevel.MODERATE: return "bg-blue-100";
-    case RiskLevel.AGGRESSIVE: return "bg-yellow-100";
-    case RiskLevel.EXTREME: return "bg-orange-100";
-    case RiskLevel.DANGER_ZONE: return "bg-red-100";
-    default: return "bg-gray-100";
-  }
-};
-
-const formatHealthFactor = (ltv: number): string => {
-  if (ltv <= 50) return "∞";
-  if (ltv <= 65) return "5.2";
-  if (ltv <= 80) return "2.1";
-  if (ltv <= 90) return "1.3";
-  if (ltv <= 100) return "1.0";
-  return "0.8";
-};
-
 export const RealPositionCreator: React.FC<{ className?: string }> = ({ className = "" }) => {
+  const { explorerName, getTxUrl } = useBlockExplorer();
   const [isEasyMode, setIsEasyMode] = useState(true);
   const [selectedPreset, setSelectedPreset] = useState(0);
   
@@ -198,7 +143,9 @@ export const RealPositionCreator: React.FC<{ className?: string }> = ({ classNam
   const { open } = useAppKit();
 
   // Hook para direcciones de contratos
-  const { addresses } = useContractAddresses();
+  const { addresses, isAssetAvailable } = useContractAddresses();
+  // WGOLD solo se ofrece si su token está desplegado en esta red
+  const isWgoldAvailable = isAssetAvailable('WGOLD');
 
   // Hook para crear posiciones (MEJORADO)
   const {
@@ -273,8 +220,8 @@ export const RealPositionCreator: React.FC<{ className?: string }> = ({ classNam
             console.log('  → VCOP mapped to USDC:', addresses.mockUSDC);
             return addresses.mockUSDC; // VCOP no existe, usar USDC
           case 'WGOLD': 
-            console.log('  → WGOLD mapped to USDC:', addresses.mockUSDC);
-            return addresses.mockUSDC; // WGOLD no existe como contrato, usar USDC
+            console.log('  → WGOLD mapped to:', addresses.mockWGOLD);
+            return addresses.mockWGOLD;
           default: 
             console.log('  → Default mapped to ETH:', addresses.mockETH);
             return addresses.mockETH;
@@ -324,7 +271,7 @@ export const RealPositionCreator: React.FC<{ className?: string }> = ({ classNam
   const handleMainButtonClick = () => {
     if (success && txHash) {
       // Si la transacción fue exitosa, abrir explorador de bloques
-      window.open(`https://subnets-test.avax.network/c-chain/tx/${txHash}`, '_blank');
+      window.open(getTxUrl(txHash), '_blank');
     } else {
       // Si no, crear posición normalmente
       handleCreatePosition();
@@ -363,8 +310,9 @@ export const RealPositionCreator: React.FC<{ className?: string }> = ({ classNam
   const currentLTV = calculateCurrentLTV();
   
   // Calculate risk metrics based on current LTV
-  const riskLevel = calculateRiskLevel(isEasyMode ? easyLTV : currentLTV);
-  const healthFactor = formatHealthFactor(isEasyMode ? easyLTV : currentLTV);
+  const ltvRisk = assessLtvRisk(isEasyMode ? easyLTV : currentLTV, getSuggestedLiquidationRatio(collateralAsset));
+  const riskLevel = ltvRisk.riskLevel;
+  const healthFactor = formatHealthFactor(ltvRisk.healthFactor);
 
   // 🆕 FUNCIÓN PARA RENDERIZAR EL PROGRESO DE TRANSACCIONES
   const renderTransactionProgress = () => {
@@ -582,7 +530,7 @@ export const RealPositionCreator: React.FC<{ className?: string }> = ({ classNam
                         { value: "ETH", label: "ETH" },
                         { value: "WBTC", label: "WBTC" },
                         { value: "USDC", label: "USDC" },
-                        { value: "WGOLD", label: "WGOLD" }
+                        ...(isWgoldAvailable ? [{ value: "WGOLD", label: "WGOLD" }] : [])
                       ]}
                       borderColor="border-blue-300"
                     />
@@ -629,7 +577,7 @@ export const RealPositionCreator: React.FC<{ className?: string }> = ({ classNam
                           { value: "USDC", label: "USDC" },
                           { value: "VCOP", label: "VCOP" },
                           { value: "ETH", label: "ETH" },
-                          { value: "WGOLD", label: "WGOLD" }
+                          ...(isWgoldAvailable ? [{ value: "WGOLD", label: "WGOLD" }] : [])
                         ]}
                         borderColor="border-emerald-300"
                       />
@@ -663,7 +611,7 @@ export const RealPositionCreator: React.FC<{ className?: string }> = ({ classNam
                   <div className="grid grid-cols-3 gap-2">
                     <div className="text-center bg-white p-2 rounded-lg">
                       <div className={`inline-flex items-center px-2 py-1 rounded-full text-xs font-semibold ${getRiskLevelBgColor(riskLevel)} ${getRiskLevelColor(riskLevel)}`}>
-                        {getRiskIcon(riskLevel)}
+                        {React.createElement(getRiskIcon(riskLevel), { className: "w-3 h-3" })}
                       </div>
                       <div className="text-xs text-gray-600 mt-1">Risk</div>
                     </div>
@@ -776,12 +724,14 @@ export const RealPositionCreator: React.FC<{ className?: string }> = ({ classNam
                       <div className="text-xs text-gray-600">VCOP</div>
                     </div>
                     
-                    <div className="text-center bg-white p-2 rounded-lg">
-                      <div className="text-sm font-bold text-gray-900">
-                        ${assetPrices.WGOLD.toLocaleString()}
+                    {isWgoldAvailable && (
+                      <div className="text-center bg-white p-2 rounded-lg">
+                        <div className="text-sm font-bold text-gray-900">
+                          ${assetPrices.WGOLD.toLocaleString()}
+                        </div>
+                        <div className="text-xs text-gray-600">WGOLD</div>
                       </div>
-                      <div className="text-xs text-gray-600">WGOLD</div>
-                    </div>
+                    )}
                   </div>
                   
                   {lastUpdated && (
@@ -831,13 +781,13 @@ export const RealPositionCreator: React.FC<{ className?: string }> = ({ classNam
                     </div>
                     <p className="text-green-700 text-sm mb-2">Position created successfully!</p>
                     <a 
-                      href={`https://subnets-test.avax.network/c-chain/tx/${txHash}`}
+                      href={getTxUrl(txHash)}
                       target="_blank"
                       rel="noopener noreferrer"
                       className="inline-flex items-center gap-1 text-xs text-green-600 hover:text-green-800 underline"
                     >
                       <ExternalLink className="w-3 h-3" />
-                      View on SnowTrace
+                      View on {explorerName}
                     </a>
                   </div>
                 )}
@@ -860,7 +810,7 @@ export const RealPositionCreator: React.FC<{ className?: string }> = ({ classNam
                         { value: "ETH", label: "Ethereum (ETH)" },
                         { value: "WBTC", label: "Wrapped Bitcoin (WBTC)" },
                         { value: "USDC", label: "USD Coin (USDC)" },
-                        { value: "WGOLD", label: "Wrapped Gold (WGOLD)" }
+                        ...(isWgoldAvailable ? [{ value: "WGOLD", label: "Wrapped Gold (WGOLD)" }] : [])
                       ]}
                     />
                   </div>
@@ -873,7 +823,7 @@ export const RealPositionCreator: React.FC<{ className?: string }> = ({ classNam
                         { value: "USDC", label: "USD Coin (USDC)" },
                         { value: "VCOP", label: "VCOP Peso" },
                         { value: "ETH", label: "Ethereum (ETH)" },
-                        { value: "WGOLD", label: "Wrapped Gold (WGOLD)" }
+                        ...(isWgoldAvailable ? [{ value: "WGOLD", label: "Wrapped Gold (WGOLD)" }] : [])
                       ]}
                     />
                   </div>
@@ -979,13 +929,13 @@ export const RealPositionCreator: React.FC<{ className?: string }> = ({ classNam
                     </div>
                     <p className="text-green-700 text-sm mb-2">Position created successfully!</p>
                     <a 
-                      href={`https://subnets-test.avax.network/c-chain/tx/${txHash}`}
+                      href={getTxUrl(txHash)}
                       target="_blank"
                       rel="noopener noreferrer"
                       className="inline-flex items-center gap-1 text-xs text-green-600 hover:text-green-800 underline"
                     >
                       <ExternalLink className="w-3 h-3" />
-                      View on SnowTrace
+                      View on {explorerName}
                     </a>
                   </div>
                 )}
@@ -0,0 +1,232 @@
+import React from 'react';
+import {
+  DollarSign,
+  AlertTriangle,
+  CheckCircle,
+  RefreshCw,
+  Clock,
+  X
+} from 'lucide-react';
+import { formatUnits, parseUnits } from 'viem';
+import { useRepayment, isQuoteExpired, quoteMatchesRequest } from '../../hooks/useRepayment';
+import type { PositionData } from '../../hooks/useUserPositions';
+import AssetIcon from './AssetIcon';
+
+interface RepayPositionPanelProps {
+  positionData: PositionData;
+  loanSymbol: string;
+  loanDecimals: number;
+  onConfirmed: () => void;
+  onClose: () => void;
+}
+
+export const RepayPositionPanel: React.FC<RepayPositionPanelProps> = ({
+  positionData,
+  loanSymbol,
+  loanDecimals,
+  onConfirmed,
+  onClose
+}) => {
+  const [amountInput, setAmountInput] = React.useState('');
+  const [quoteError, setQuoteError] = React.useState<string | null>(null);
+  const [isQuoting, setIsQuoting] = React.useState(false);
+  const [now, setNow] = React.useState(() => Math.floor(Date.now() / 1000));
+
+  // Monto parcial en la unidad base del loan asset; undefined = repago total
+  const requestedAmount = React.useMemo(() => {
+    if (!amountInput || isNaN(Number(amountInput)) || Number(amountInput) <= 0) return undefined;
+    try {
+      return parseUnits(amountInput, loanDecimals);
+    } catch {
+      return undefined;
+    }
+  }, [amountInput, loanDecimals]);
+
+  const {
+    quote,
+    quoteRepayment,
+    repayPosition,
+    step,
+    approvalStrategy,
+    approveHashes,
+    isProcessing,
+    error,
+    errorDetails
+  } = useRepayment({
+    onConfirmed: () => {
+      setAmountInput('');
+      onConfirmed();
+    }
+  });
+
+  const positionId = positionData.positionId;
+
+  const refreshQuote = React.useCallback(async () => {
+    setQuoteError(null);
+    setIsQuoting(true);
+    try {
+      await quoteRepayment(positionId, requestedAmount);
+    } catch (err) {
+      console.error('Error quoting repayment:', err);
+      setQuoteError('Could not quote the repayment. Please try again.');
+    } finally {
+      setIsQuoting(false);
+    }
+  }, [quoteRepayment, positionId, requestedAmount]);
+
+  // Recotizar cuando cambia el monto (con debounce para no leer en cada tecla)
+  React.useEffect(() => {
+    if (isProcessing) return;
+    const timeout = setTimeout(refreshQuote, 400);
+    return () => clearTimeout(timeout);
+  }, [refreshQuote, isProcessing]);
+
+  // Reloj para la cuenta regresiva del vencimiento
+  React.useEffect(() => {
+    const interval = setInterval(() => setNow(Math.floor(Date.now() / 1000)), 1000);
+    return () => clearInterval(interval);
+  }, []);
+
+  const format = (value: bigint) => parseFloat(formatUnits(value, loanDecimals)).toFixed(4);
+
+  const isStale = quote !== null && isQuoteExpired(quote, now);
+  const secondsLeft = quote ? Math.max(0, quote.expiresAt - now) : 0;
+  const isFullRepay = quote?.requestedAmount === null;
+  // Mientras corre el debounce la cotización corresponde al monto anterior
+  const isQuoteCurrent = quote !== null && quoteMatchesRequest(quote, positionId, requestedAmount);
+  const isUpdatingQuote = !isProcessing && (isQuoting || (quote !== null && !isQuoteCurrent));
+  const canSubmit = isQuoteCurrent && !isQuoting && !isStale && !isProcessing;
+
+  return (
+    <div className="mt-4 bg-gray-50 border border-gray-200 rounded-lg p-4">
+      <div className="flex justify-between items-center mb-3">
+        <h4 className="font-semibold text-gray-900 flex items-center gap-2">
+          <AssetIcon asset={loanSymbol} className="w-4 h-4" />
+          Repay {loanSymbol}
+        </h4>
+        <button
+          onClick={onClose}
+          className="p-1 text-gray-500 hover:text-gray-700 transition-colors"
+          title="Close"
+        >
+          <X className="w-4 h-4" />
+        </button>
+      </div>
+
+      {/* Amount input */}
+      <div className="mb-3">
+        <div className="flex justify-between text-xs text-gray-500 mb-1">
+          <span>Amount ({loanSymbol})</span>
+          <span>Leave empty to repay the full debt</span>
+        </div>
+        <input
+          type="number"
+          min="0"
+          step="any"
+          value={amountInput}
+          onChange={(e) => setAmountInput(e.target.value)}
+          disabled={isProcessing}
+          placeholder="Full payoff"
+          className="w-full p-2 text-sm border border-gray-300 rounded-lg focus:outline-none focus:ring-2 focus:ring-blue-500"
+        />
+      </div>
+
+      {/* Quote */}
+      {quote && (
+        <div className={`bg-white border border-gray-200 rounded-lg p-3 mb-3 space-y-2 ${isUpdatingQuote ? 'opacity-50' : ''}`}>
+          <div className="flex items-center justify-between text-sm">
+            <span className="text-gray-600">Debt now</span>
+            <span className="font-medium text-gray-900">{format(quote.current.totalDebt)} {loanSymbol}</span>
+          </div>
+          <div className="flex items-center justify-between text-sm">
+            <span className="text-gray-600">Debt at quote expiry</span>
+            <span className="font-medium text-gray-900">{format(quote.atExpiry.totalDebt)} {loanSymbol}</span>
+          </div>
+          <div className="flex items-center justify-between text-sm">
+            <span className="text-gray-600">{isFullRepay ? 'Repayment (capped to debt)' : 'Repayment'}</span>
+            <span className="font-medium text-gray-900">{format(quote.repayAmount)} {loanSymbol}</span>
+          </div>
+          <div className="flex items-center justify-between text-xs text-gray-500">
+            <span>Interest · principal</span>
+            <span>{format(quote.atExpiry.interestPayment)} · {format(quote.principalAllowance)}</span>
+          </div>
+          <div className="flex items-center justify-between text-xs text-gray-500">
+            <span>Protocol fee (max)</span>
+            <span>{format(quote.feeAllowance)} {loanSymbol}</span>
+          </div>
+          <div className="flex items-center justify-between text-sm border-t border-gray-100 pt-2">
+            <span className="text-gray-600">Max wallet outflow</span>
+            <span className="font-semibold text-gray-900">{format(quote.tokensRequired)} {loanSymbol}</span>
+          </div>
+          {!isStale && (
+            <div className="flex items-center gap-1 text-xs text-gray-500">
+              <Clock className="w-3 h-3" />
+              Quote valid for {Math.floor(secondsLeft / 60)}:{String(secondsLeft % 60).padStart(2, '0')}
+            </div>
+          )}
+        </div>
+      )}
+
+      {/* Stale quote */}
+      {isStale && !isProcessing && (
+        <div className="mb-3 flex items-start justify-between gap-2 text-xs text-yellow-800 bg-yellow-50 border border-yellow-200 rounded-lg p-2">
+          <span className="flex items-start gap-2">
+            <AlertTriangle className="w-4 h-4 flex-shrink-0" />
+            This quote has expired. Interest kept accruing, so the approvals it lists may no longer cover the debt.
+          </span>
+          <button
+            onClick={refreshQuote}
+            className="flex items-center gap-1 font-semibold text-yellow-900 hover:underline whitespace-nowrap"
+          >
+            <RefreshCw className="w-3 h-3" />
+            Refresh quote
+          </button>
+        </div>
+      )}
+
+      {/* Status */}
+      {(error || quoteError) && (
+        <div className="mb-3 text-sm text-red-700 bg-red-50 border border-red-200 rounded-lg p-2">
+          ❌ {error || quoteError}
+          {error && errorDetails?.action && (
+            <div className="text-xs text-red-600 mt-1">💡 {errorDetails.action}</div>
+          )}
+        </div>
+      )}
+      {step === 'completed' && (
+        <div className="mb-3 text-sm text-green-700 bg-green-50 border border-green-200 rounded-lg p-2 flex items-center gap-2">
+          <CheckCircle className="w-4 h-4" />
+          Repayment confirmed!
+        </div>
+      )}
+
+      <button
+        onClick={() => quote && repayPosition(positionId, requestedAmount, quote)}
+        disabled={!canSubmit}
+        className="w-full bg-emerald-500 hover:bg-emerald-600 disabled:bg-gray-400 text-white px-4 py-2 rounded-lg font-semibold transition-colors flex items-center justify-center gap-2"
+      >
+        {isProcessing ? (
+          <>
+            <div className="animate-spin w-4 h-4 border-2 border-white border-t-transparent rounded-full"></div>
+            {step === 'quoting' && 'Quoting...'}
+            {step === 'approving' && `Approving (${approvalStrategy === 'split' ? `${approveHashes.length + 1}/2` : '1/1'})...`}
+            {step === 'repaying' && 'Repaying...'}
+            {step === 'confirming' && 'Confirming...'}
+          </>
+        ) : isUpdatingQuote ? (
+          <>
+            <RefreshCw className="w-4 h-4 animate-spin" />
+            Updating quote...
+          </>
+        ) : (
+          <>
+            <DollarSign className="w-4 h-4" />
+            {isFullRepay ? 'Repay Full Debt' : 'Repay'}
+          </>
+        )}
+      </button>
+    </div>
+  );
+};
+
+export default RepayPositionPanel;
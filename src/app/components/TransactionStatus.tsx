@@ -9,11 +9,14 @@ import {
   Copy,
   CheckCheck
 } from 'lucide-react';
+import { useBlockExplorer } from '../../hooks/useBlockExplorer';
+import { decodeTransactionError, type DecodedTransactionError } from '../../utils/errorDecoder';
 
 interface TransactionStatusProps {
   isLoading: boolean;
   txHash: string | null;
-  error: string | null;
+  // Un string se clasifica con decodeTransactionError; los hooks que ya decodifican pasan el resultado
+  error: string | DecodedTransactionError | null;
   isSuccess: boolean;
   className?: string;
 }
@@ -26,6 +29,12 @@ export const TransactionStatus: React.FC<TransactionStatusProps> = ({
   className = ""
 }) => {
   const [copied, setCopied] = React.useState(false);
+  const { explorerName, getTxUrl } = useBlockExplorer();
+
+  const decodedError = React.useMemo(
+    () => (error === null ? null : typeof error === 'string' ? decodeTransactionError(error) : error),
+    [error]
+  );
 
   const copyToClipboard = async (text: string) => {
     try {
@@ -41,11 +50,6 @@ export const TransactionStatus: React.FC<TransactionStatusProps> = ({
     return `${hash.slice(0, 6)}...${hash.slice(-4)}`;
   };
 
-  const getEtherscanUrl = (hash: string) => {
-    // This would be dynamic based on the network
-    return `https://etherscan.io/tx/${hash}`;
-  };
-
   if (!isLoading && !txHash && !error && !isSuccess) {
     return null;
   }
@@ -111,11 +115,11 @@ export const TransactionStatus: React.FC<TransactionStatusProps> = ({
                   )}
                 </button>
                 <a
-                  href={getEtherscanUrl(txHash)}
+                  href={getTxUrl(txHash)}
                   target="_blank"
                   rel="noopener noreferrer"
                   className="p-2 text-gray-500 hover:text-gray-700 transition-colors"
-                  title="View on Etherscan"
+                  title={`View on ${explorerName}`}
                 >
                   <ExternalLink className="w-4 h-4" />
                 </a>
@@ -135,38 +139,49 @@ export const TransactionStatus: React.FC<TransactionStatusProps> = ({
         )}
 
         {/* Error State */}
-        {error && (
+        {decodedError && (
           <div className="space-y-3">
             <div className="flex items-start gap-3 p-4 bg-red-50 rounded-lg border border-red-200">
               <div className="flex-shrink-0 mt-0.5">
                 <XCircle className="w-6 h-6 text-red-600" />
               </div>
               <div className="flex-1">
-                <div className="font-semibold text-red-900 mb-1">Transaction Failed</div>
-                <div className="text-sm text-red-700 mb-2">
-                  {error}
+                <div className="font-semibold text-red-900 mb-1">{decodedError.title}</div>
+                <div className="text-sm text-red-700">
+                  {decodedError.message}
                 </div>
+                {decodedError.reason && (
+                  <div className="text-xs text-red-600 font-mono mt-1">
+                    Revert reason: {decodedError.reason}
+                  </div>
+                )}
               </div>
             </div>
 
-            {/* Common Error Solutions */}
-            <div className="bg-yellow-50 p-4 rounded-lg border border-yellow-200">
-              <div className="flex items-start gap-2 mb-2">
-                <AlertCircle className="w-4 h-4 text-yellow-600 mt-0.5 flex-shrink-0" />
-                <div className="font-semibold text-yellow-900">Common Solutions:</div>
+            {/* Suggested action */}
+            {decodedError.action && (
+              <div className="bg-yellow-50 p-4 rounded-lg border border-yellow-200">
+                <div className="flex items-start gap-2">
+                  <AlertCircle className="w-4 h-4 text-yellow-600 mt-0.5 flex-shrink-0" />
+                  <div>
+                    <div className="font-semibold text-yellow-900">What you can do</div>
+                    <div className="text-sm text-yellow-800">{decodedError.action}</div>
+                  </div>
+                </div>
               </div>
-              <ul className="text-sm text-yellow-800 space-y-1 ml-6">
-                <li>• Check that you have enough balance for collateral</li>
-                <li>• Ensure you have sufficient ETH for gas fees</li>
-                <li>• Try increasing the gas limit in your wallet</li>
-                <li>• Verify your wallet is connected to the correct network</li>
-              </ul>
-            </div>
+            )}
+
+            {decodedError.details && decodedError.details !== decodedError.message && (
+              <details className="text-xs text-gray-500">
+                <summary className="cursor-pointer">Technical details</summary>
+                <p className="mt-1 font-mono break-all">{decodedError.details}</p>
+              </details>
+            )}
           </div>
         )}
 
         {/* Transaction Hash (if available but failed) */}
-        {txHash && error && (
+        {txHash && decodedError && (
           <div className="bg-gray-50 p-4 rounded-lg border border-gray-200">
             <div className="text-sm font-medium text-gray-700 mb-2">Failed Transaction Hash:</div>
             <div className="flex items-center gap-2">
@@ -185,11 +200,11 @@ export const TransactionStatus: React.FC<TransactionStatusProps> = ({
                 )}
               </button>
               <a
-                href={getEtherscanUrl(txHash)}
+                href={getTxUrl(txHash)}
                 target="_blank"
                 rel="noopener noreferrer"
                 className="p-2 text-gray-500 hover:text-gray-700 transition-colors"
-                title="View on Etherscan"
+                title={`View on ${explorerName}`}
               >
                 <ExternalLink className="w-4 h-4" />
               </a>
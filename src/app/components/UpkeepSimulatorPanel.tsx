@@ -0,0 +1,188 @@
+import React from 'react';
+import { Play, CheckCircle, MinusCircle, FlaskConical } from 'lucide-react';
+import type { Address } from 'viem';
+import { useUpkeepSimulator } from '../../hooks/useUpkeepSimulator';
+
+// Umbrales por defecto del adapter: 95 crítico, 85 peligro, 75 advertencia
+const getRiskColor = (riskLevel: bigint): string => {
+  if (riskLevel >= 95n) return 'text-red-600';
+  if (riskLevel >= 85n) return 'text-orange-600';
+  return 'text-yellow-600';
+};
+
+const parseId = (value: string): bigint => {
+  try {
+    return value.trim() === '' ? 0n : BigInt(value.trim());
+  } catch {
+    return 0n;
+  }
+};
+
+export const UpkeepSimulatorPanel: React.FC<{ defaultManager?: Address }> = ({ defaultManager }) => {
+  const {
+    keeperAddress,
+    managers,
+    defaultBatchSize,
+    simulate,
+    simulation,
+    isSimulating,
+    error
+  } = useUpkeepSimulator();
+
+  const [loanManager, setLoanManager] = React.useState<Address | ''>('');
+  const [startPositionId, setStartPositionId] = React.useState('0');
+  const [batchSize, setBatchSize] = React.useState('');
+  const [optimized, setOptimized] = React.useState(true);
+
+  // Preseleccionar el adapter si está registrado, o el primer manager
+  React.useEffect(() => {
+    if (loanManager || managers.length === 0) return;
+    const preferred = managers.find(
+      (manager) => defaultManager && manager.address.toLowerCase() === defaultManager.toLowerCase()
+    );
+    setLoanManager((preferred ?? managers[0]).address);
+  }, [managers, defaultManager, loanManager]);
+
+  const handleSimulate = () => {
+    if (!loanManager) return;
+    simulate({
+      loanManager,
+      startPositionId: parseId(startPositionId),
+      batchSize: batchSize.trim() === '' ? defaultBatchSize ?? 0n : parseId(batchSize),
+      optimized
+    });
+  };
+
+  if (!keeperAddress) return null;
+
+  return (
+    <div className="mt-6 bg-white rounded-xl border border-gray-200 p-4">
+      <h3 className="text-lg font-bold text-gray-900 flex items-center gap-2 mb-1">
+        <FlaskConical className="w-5 h-5 text-gray-600" />
+        Upkeep Dry Run
+      </h3>
+      <p className="text-sm text-gray-600 mb-4">
+        Calls <span className="font-mono">checkUpkeep</span> through eth_call and lists the positions the keeper would liquidate right now.
+      </p>
+
+      <div className="grid grid-cols-1 md:grid-cols-4 gap-3 mb-4">
+        <label className="text-xs text-gray-600 md:col-span-2">
+          Loan manager
+          <select
+            value={loanManager}
+            onChange={(e) => setLoanManager(e.target.value as Address)}
+            className="mt-1 w-full px-3 py-2 border border-gray-300 rounded-lg text-sm font-mono"
+          >
+            {managers.length === 0 && <option value="">No registered managers</option>}
+            {managers.map((manager) => (
+              <option key={manager.address} value={manager.address}>
+                {manager.address} (priority {manager.priority.toString()})
+              </option>
+            ))}
+          </select>
+        </label>
+        <label className="text-xs text-gray-600">
+          Start position ID
+          <input
+            type="number"
+            min="0"
+            value={startPositionId}
+            onChange={(e) => setStartPositionId(e.target.value)}
+            className="mt-1 w-full px-3 py-2 border border-gray-300 rounded-lg text-sm"
+          />
+        </label>
+        <label className="text-xs text-gray-600">
+          Batch size
+          <input
+            type="number"
+            min="0"
+            value={batchSize}
+            placeholder={defaultBatchSize !== null ? defaultBatchSize.toString() : 'Default'}
+            onChange={(e) => setBatchSize(e.target.value)}
+            className="mt-1 w-full px-3 py-2 border border-gray-300 rounded-lg text-sm"
+          />
+        </label>
+      </div>
+
+      <div className="flex items-center justify-between mb-4">
+        <label className="flex items-center gap-2 text-sm text-gray-700">
+          <input
+            type="checkbox"
+            checked={optimized}
+            onChange={(e) => setOptimized(e.target.checked)}
+          />
+          Use <span className="font-mono">generateOptimizedCheckData</span>
+        </label>
+        <button
+          onClick={handleSimulate}
+          disabled={!loanManager || isSimulating}
+          className="flex items-center gap-2 px-4 py-2 text-sm bg-emerald-600 hover:bg-emerald-700 disabled:bg-gray-300 text-white rounded-lg transition-colors"
+        >
+          {isSimulating ? (
+            <div className="animate-spin w-4 h-4 border-2 border-white border-t-transparent rounded-full"></div>
+          ) : (
+            <Play className="w-4 h-4" />
+          )}
+          Run checkUpkeep
+        </button>
+      </div>
+
+      {error && (
+        <div className="bg-red-50 border border-red-200 rounded-lg p-3 text-sm text-red-700 mb-3">
+          ❌ {error}
+        </div>
+      )}
+
+      {simulation && (
+        <div className="space-y-3">
+          <div
+            className={`flex items-center gap-2 rounded-lg p-3 text-sm border ${
+              simulation.upkeepNeeded
+                ? 'bg-orange-50 border-orange-200 text-orange-800'
+                : 'bg-gray-50 border-gray-200 text-gray-700'
+            }`}
+          >
+            {simulation.upkeepNeeded ? <CheckCircle className="w-4 h-4" /> : <MinusCircle className="w-4 h-4" />}
+            {simulation.upkeepNeeded
+              ? `Upkeep needed: ${simulation.candidates.length} position${simulation.candidates.length === 1 ? '' : 's'} would be liquidated`
+              : 'No upkeep needed. The keeper returns false when it is paused, the manager is not registered, automation is disabled or no position in range is at risk (see the status above).'}
+            <span className="ml-auto text-xs text-gray-500">Block {simulation.blockNumber.toString()}</span>
+          </div>
+
+          <div className="text-xs text-gray-600 space-y-1">
+            <div>
+              checkData: <span className="font-mono break-all">{simulation.checkData}</span>
+            </div>
+            <div>
+              Decoded: manager <span className="font-mono">{simulation.decodedCheckData.loanManager}</span>, start{' '}
+              {simulation.decodedCheckData.startIndex.toString()}, batch {simulation.decodedCheckData.batchSize.toString()}
+            </div>
+          </div>
+
+          {simulation.candidates.length > 0 && (
+            <table className="w-full text-sm">
+              <thead>
+                <tr className="text-left text-xs text-gray-500 border-b border-gray-200">
+                  <th className="py-2 pr-4 font-medium">Position</th>
+                  <th className="py-2 font-medium text-right">Risk level</th>
+                </tr>
+              </thead>
+              <tbody>
+                {simulation.candidates.map((candidate) => (
+                  <tr key={candidate.positionId.toString()} className="border-b border-gray-100 last:border-0">
+                    <td className="py-2 pr-4 font-semibold text-gray-900">#{candidate.positionId.toString()}</td>
+                    <td className={`py-2 text-right font-medium ${getRiskColor(candidate.riskLevel)}`}>
+                      {candidate.riskLevel.toString()}
+                    </td>
+                  </tr>
+                ))}
+              </tbody>
+            </table>
+          )}
+        </div>
+      )}
+    </div>
+  );
+};
+
+export default UpkeepSimulatorPanel;
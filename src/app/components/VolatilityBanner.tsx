@@ -0,0 +1,72 @@
+import React from 'react';
+import { Activity, X } from 'lucide-react';
+import { formatUnits } from 'viem';
+import { useVolatilityAlerts, type PriceThresholdLevel, type VolatilityAlert } from '../../hooks/useVolatilityAlerts';
+import { PRICE_DECIMALS } from '../../utils/riskEngine';
+
+const THRESHOLD_LABELS: Record<PriceThresholdLevel, string> = {
+  basic: 'basic',
+  urgent: 'urgent',
+  immediate: 'immediate',
+  critical: 'critical'
+};
+
+const describeChange = (alert: VolatilityAlert): string => {
+  if (alert.changePercent === null) return 'Price change unknown.';
+  if (alert.thresholdLevel === null || alert.thresholdPercent === null) {
+    return `Price moved ${alert.changePercent.toFixed(2)}%.`;
+  }
+  return `Price moved ${alert.changePercent.toFixed(2)}%, crossing the ${THRESHOLD_LABELS[alert.thresholdLevel]} threshold of ${alert.thresholdPercent.toFixed(2)}%.`;
+};
+
+const formatPositions = (ids: bigint[]): string =>
+  ids.map((id) => `#${id.toString()}`).join(', ');
+
+const VolatilityAlertRow: React.FC<{ alert: VolatilityAlert; onDismiss: () => void }> = ({ alert, onDismiss }) => (
+  <div className="flex items-start justify-between gap-4">
+    <div className="flex items-start gap-3">
+      <Activity className="w-6 h-6 text-orange-600 flex-shrink-0" />
+      <div>
+        <h3 className="font-semibold text-orange-900">
+          {alert.symbol} is in volatility mode
+        </h3>
+        <p className="text-orange-800 text-sm">
+          {describeChange(alert)}
+          {alert.lastKnownPrice > 0n && ` Last known price: $${Number(formatUnits(alert.lastKnownPrice, PRICE_DECIMALS)).toLocaleString('en-US', { maximumFractionDigits: 2 })}.`}
+        </p>
+        <p className="text-orange-700 text-sm mt-1">
+          Affected position{alert.affectedPositionIds.length === 1 ? '' : 's'}:{' '}
+          <span className="font-semibold">{formatPositions(alert.affectedPositionIds)}</span>
+          {alert.expiresAt && ` · Liquidation checks run more often until ${new Date(alert.expiresAt * 1000).toLocaleTimeString()}.`}
+        </p>
+      </div>
+    </div>
+    <button
+      onClick={onDismiss}
+      className="text-orange-500 hover:text-orange-700 transition-colors"
+      title="Dismiss"
+    >
+      <X className="w-4 h-4" />
+    </button>
+  </div>
+);
+
+export const VolatilityBanner: React.FC = () => {
+  const { alerts, dismissAlert } = useVolatilityAlerts();
+
+  if (alerts.length === 0) return null;
+
+  return (
+    <div className="mb-6 bg-orange-50 border border-orange-200 rounded-lg p-4 space-y-3">
+      {alerts.map((alert) => (
+        <VolatilityAlertRow
+          key={`${alert.asset}-${alert.enteredAt}`}
+          alert={alert}
+          onDismiss={() => dismissAlert(alert)}
+        />
+      ))}
+    </div>
+  );
+};
+
+export default VolatilityBanner;
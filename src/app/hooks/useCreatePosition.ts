@@ -1,82 +1,260 @@
-import { useState } from 'react';
+import { useState, useCallback } from 'react';
+import { usePublicClient } from 'wagmi';
+import {
+  encodeAbiParameters,
+  isAddress,
+  keccak256,
+  maxUint256,
+  parseUnits,
+  toHex,
+  zeroAddress,
+  type Address,
+  type Hash
+} from 'viem';
+import { ERC20_ABI, FLEXIBLE_LOAN_MANAGER_ABI } from '../../Abis';
+import {
+  useCreatePosition as useCreatePositionFlow,
+  type CreatePositionParams,
+  type LoanTerms
+} from '../../hooks/useCreatePosition';
+import { useContractAddresses } from '../../hooks/useContractAddresses';
+import { decodeTransactionError } from '../../utils/errorDecoder';
+
+/**
+ * Adaptador de formulario sobre el flujo real de src/hooks/useCreatePosition:
+ * acepta montos y tasas como texto y símbolos o direcciones de asset.
+ */
 
 export interface PositionParams {
-  collateralAsset: string;
+  collateralAsset: string;   // Dirección o símbolo (ETH, USDC, WBTC, WGOLD)
   loanAsset: string;
   collateralAmount: string;
   loanAmount: string;
-  interestRate: string;
+  interestRate: string;      // Porcentaje anual (ej: "8")
+  maxLoanToValue?: number;   // Porcentaje; por defecto el LTV recomendado para el colateral
+}
+
+export interface GasEstimate {
+  approval: bigint | null;    // null si la allowance actual ya alcanza
+  createLoan: bigint;
+  createLoanIsFallback: boolean; // true si createLoan no se pudo estimar y se usa CREATE_LOAN_GAS_FALLBACK
+  total: bigint;              // approve + createLoan: coste completo de abrir la posición
+  maxFeePerGas: bigint;
+  estimatedCost: bigint;      // total * maxFeePerGas, en wei de la moneda nativa
+  needsApproval: boolean;
 }
 
 export interface UseCreatePositionReturn {
   createPosition: (params: PositionParams) => Promise<void>;
   isLoading: boolean;
-  txHash: string | null;
+  txHash: Hash | null;
   error: string | null;
   isSuccess: boolean;
-  estimatedGas: number | null;
-  estimateGas: (params: PositionParams) => Promise<void>;
+  estimatedGas: GasEstimate | null;
+  isEstimating: boolean;
+  estimateGas: (params: PositionParams) => Promise<GasEstimate | null>;
+  // Flujo real completo (pasos, progreso, balances) para la UI que lo necesite
+  flow: ReturnType<typeof useCreatePositionFlow>;
 }
 
-export const useCreatePosition = (): UseCreatePositionReturn => {
-  const [isLoading, setIsLoading] = useState(false);
-  const [txHash, setTxHash] = useState<string | null>(null);
-  const [error, setError] = useState<string | null>(null);
-  const [isSuccess, setIsSuccess] = useState(false);
-  const [estimatedGas, setEstimatedGas] = useState<number | null>(null);
+// Mismo escalado que aplica el flujo real (porcentaje → 4 decimales)
+const PERCENT_SCALE = 10000;
 
-  const createPosition = async (params: PositionParams): Promise<void> => {
-    try {
-      setIsLoading(true);
-      setError(null);
-      setTxHash(null);
-      setIsSuccess(false);
-
-      // Simulate transaction process
-      console.log('Creating position with params:', params);
-      
-      // Simulate delay
-      await new Promise(resolve => setTimeout(resolve, 2000));
-      
-      // Simulate success
-      const mockTxHash = '0x' + Math.random().toString(16).substr(2, 64);
-      setTxHash(mockTxHash);
-      setIsSuccess(true);
-      
-      console.log('Position created successfully!', mockTxHash);
+// Cota de gas de createLoan cuando el RPC no acepta state overrides en eth_estimateGas
+export const CREATE_LOAN_GAS_FALLBACK = 450000n;
+
+// Slot de _allowances en los ERC20 de OpenZeppelin (_balances ocupa el slot 0)
+const ERC20_ALLOWANCES_SLOT = 1n;
+
+/**
+ * Slot de storage de allowance[owner][spender] para simular createLoan como si ya estuviera aprobado
+ */
+const getAllowanceSlot = (owner: Address, spender: Address) => {
+  const ownerSlot = keccak256(encodeAbiParameters([{ type: 'address' }, { type: 'uint256' }], [owner, ERC20_ALLOWANCES_SLOT]));
+  return keccak256(encodeAbiParameters([{ type: 'address' }, { type: 'bytes32' }], [spender, ownerSlot]));
+};
+
+export const useCreatePosition = (
+  options: Parameters<typeof useCreatePositionFlow>[0] = {}
+): UseCreatePositionReturn => {
+  const flow = useCreatePositionFlow(options);
+  const publicClient = usePublicClient();
+  const { getAllTokenAddresses, getTokenAddress } = useContractAddresses();
+  const [estimatedGas, setEstimatedGas] = useState<GasEstimate | null>(null);
+  const [isEstimating, setIsEstimating] = useState(false);
+  const [estimateError, setEstimateError] = useState<string | null>(null);
+
+  const {
+    contractAddresses: addresses,
+    address,
+    createPosition: createPositionFlow,
+    getRecommendedMaxLTV
+  } = flow;
 
+  // Solo se aceptan tokens desplegados en esta red (getAllTokenAddresses excluye la dirección cero)
+  const resolveAsset = useCallback((asset: string): Address => {
+    if (!addresses) throw new Error('Contract addresses not loaded');
+
+    if (isAddress(asset)) {
+      const isSupported = asset !== zeroAddress && getAllTokenAddresses()
+        .some(({ address: token }) => token.toLowerCase() === asset.toLowerCase());
+      if (!isSupported) throw new Error(`Unsupported asset: ${asset}`);
+      return asset;
+    }
+
+    const resolved = getTokenAddress(asset);
+    if (!resolved) throw new Error(`${asset} is not available on this network`);
+    return resolved;
+  }, [addresses, getAllTokenAddresses, getTokenAddress]);
+
+  const toFlowParams = useCallback((params: PositionParams): CreatePositionParams => {
+    const collateralAsset = resolveAsset(params.collateralAsset);
+    return {
+      collateralAsset,
+      loanAsset: resolveAsset(params.loanAsset),
+      collateralAmount: params.collateralAmount,
+      loanAmount: params.loanAmount,
+      maxLoanToValue: params.maxLoanToValue ?? getRecommendedMaxLTV(collateralAsset),
+      interestRate: Number(params.interestRate)
+    };
+  }, [resolveAsset, getRecommendedMaxLTV]);
+
+  const createPosition = useCallback(async (params: PositionParams): Promise<void> => {
+    setEstimateError(null);
+    try {
+      await createPositionFlow(toFlowParams(params));
     } catch (err) {
-      console.error('Error creating position:', err);
-      setError(err instanceof Error ? err.message : 'Unknown error occurred');
-    } finally {
-      setIsLoading(false);
+      setEstimateError(decodeTransactionError(err).message);
+    }
+  }, [createPositionFlow, toFlowParams]);
+
+  /**
+   * Estima el gas de approve (si hace falta) y de createLoan contra el estado actual de la cadena.
+   * Sin allowance, createLoan se estima con un state override que simula la aprobación.
+   */
+  const estimateGas = useCallback(async (params: PositionParams): Promise<GasEstimate | null> => {
+    if (!publicClient || !address || !addresses) {
+      setEstimatedGas(null);
+      return null;
     }
-  };
 
-  const estimateGas = async (params: PositionParams): Promise<void> => {
     try {
-      // Simulate gas estimation
-      console.log('Estimating gas for params:', params);
-      
-      // Mock gas estimation based on parameters
-      const baseGas = 200000;
-      const complexityMultiplier = params.collateralAsset === params.loanAsset ? 1.2 : 1.0;
-      const estimated = Math.round(baseGas * complexityMultiplier + Math.random() * 50000);
-      
-      setEstimatedGas(estimated);
+      setIsEstimating(true);
+      setEstimateError(null);
+
+      const collateralAsset = resolveAsset(params.collateralAsset);
+      const loanAsset = resolveAsset(params.loanAsset);
+      const maxLoanToValue = params.maxLoanToValue ?? getRecommendedMaxLTV(collateralAsset);
+
+      const [collateralDecimals, loanDecimals, allowance] = await Promise.all([
+        publicClient.readContract({ address: collateralAsset, abi: ERC20_ABI, functionName: 'decimals' }),
+        publicClient.readContract({ address: loanAsset, abi: ERC20_ABI, functionName: 'decimals' }),
+        publicClient.readContract({
+          address: collateralAsset,
+          abi: ERC20_ABI,
+          functionName: 'allowance',
+          args: [address, addresses.flexibleLoanManager]
+        })
+      ]);
+
+      const terms: LoanTerms = {
+        collateralAsset,
+        loanAsset,
+        collateralAmount: parseUnits(params.collateralAmount, collateralDecimals),
+        loanAmount: parseUnits(params.loanAmount, loanDecimals),
+        maxLoanToValue: BigInt(Math.round(Number(maxLoanToValue) * PERCENT_SCALE)),
+        interestRate: BigInt(Math.round(Number(params.interestRate) * PERCENT_SCALE)),
+        duration: 0n
+      };
+
+      const needsApproval = allowance < terms.collateralAmount;
+
+      const approval = needsApproval
+        ? await publicClient.estimateContractGas({
+            address: collateralAsset,
+            abi: ERC20_ABI,
+            functionName: 'approve',
+            args: [addresses.flexibleLoanManager, terms.collateralAmount],
+            account: address
+          })
+        : null;
+
+      // Sin allowance el safeTransferFrom revierte: se simula la aprobación sobrescribiendo
+      // el slot de allowance. Si el RPC no admite overrides se usa la cota de respaldo.
+      let createLoan = CREATE_LOAN_GAS_FALLBACK;
+      let createLoanIsFallback = false;
+      if (needsApproval) {
+        try {
+          createLoan = await publicClient.estimateContractGas({
+            address: addresses.flexibleLoanManager,
+            abi: FLEXIBLE_LOAN_MANAGER_ABI,
+            functionName: 'createLoan',
+            args: [terms],
+            account: address,
+            stateOverride: [{
+              address: collateralAsset,
+              stateDiff: [{
+                slot: getAllowanceSlot(address, addresses.flexibleLoanManager),
+                value: toHex(maxUint256, { size: 32 })
+              }]
+            }]
+          });
+        } catch (err) {
+          console.warn('⚠️ createLoan estimate with allowance override failed, using fallback:', err);
+          createLoanIsFallback = true;
+        }
+      } else {
+        await publicClient.simulateContract({
+          address: addresses.flexibleLoanManager,
+          abi: FLEXIBLE_LOAN_MANAGER_ABI,
+          functionName: 'createLoan',
+          args: [terms],
+          account: address
+        });
+        createLoan = await publicClient.estimateContractGas({
+          address: addresses.flexibleLoanManager,
+          abi: FLEXIBLE_LOAN_MANAGER_ABI,
+          functionName: 'createLoan',
+          args: [terms],
+          account: address
+        });
+      }
+
+      const { maxFeePerGas } = await publicClient.estimateFeesPerGas();
+      const total = (approval ?? 0n) + createLoan;
+
+      const estimate: GasEstimate = {
+        approval,
+        createLoan,
+        createLoanIsFallback,
+        total,
+        maxFeePerGas,
+        estimatedCost: total * maxFeePerGas,
+        needsApproval
+      };
+      setEstimatedGas(estimate);
+      return estimate;
     } catch (err) {
       console.error('Error estimating gas:', err);
       setEstimatedGas(null);
+      setEstimateError(decodeTransactionError(err).message);
+      return null;
+    } finally {
+      setIsEstimating(false);
     }
-  };
+  }, [publicClient, address, addresses, resolveAsset, getRecommendedMaxLTV]);
 
   return {
     createPosition,
-    isLoading,
-    txHash,
-    error,
-    isSuccess,
+    isLoading: flow.isLoading,
+    txHash: flow.txHash,
+    error: flow.error ?? estimateError,
+    isSuccess: flow.success,
     estimatedGas,
-    estimateGas
+    isEstimating,
+    estimateGas,
+    flow
   };
-}; 
\ No newline at end of file
+};
+
+export default useCreatePosition;
@@ -3,6 +3,7 @@ import { WagmiProvider } from 'wagmi'
 import { QueryClientProvider } from '@tanstack/react-query'
 import { wagmiAdapter, queryClient } from '../config/appkit'
 import { OraclePricesProvider } from './OraclePricesProvider'
+import { TransactionManagerProvider } from './TransactionManagerProvider'
 
 interface AppKitProviderProps {
   children: ReactNode
@@ -13,7 +14,9 @@ export function AppKitProvider({ children }: AppKitProviderProps) {
     <WagmiProvider config={wagmiAdapter.wagmiConfig}>
       <QueryClientProvider client={queryClient}>
         <OraclePricesProvider>
-          {children}
+          <TransactionManagerProvider>
+            {children}
+          </TransactionManagerProvider>
         </OraclePricesProvider>
       </QueryClientProvider>
     </WagmiProvider>
@@ -3,10 +3,8 @@ import {
   Calculator, 
   TrendingUp, 
   TrendingDown, 
-  AlertTriangle, 
   Shield, 
   DollarSign,
-  Activity,
   Target,
   Clock,
   Zap,
@@ -23,7 +21,8 @@ import {
   ArrowUpDown,
   ChevronDown
 } from 'lucide-react';
-import { useRiskCalculator, RiskLevel } from '../hooks/useRiskCalculator';
+import { useRiskCalculator, toRiskCalculatorAmount } from '../hooks/useRiskCalculator';
+import { RiskLevel, getRiskIcon as getRiskLevelIcon } from '../utils/riskEngine';
 import { useOraclePrices } from '../hooks/useOraclePrices';
 
 interface InteractiveLoanDemoProps {
@@ -183,7 +182,14 @@ export const InteractiveLoanDemo: React.FC<InteractiveLoanDemoProps> = ({ classN
   const [easyCollateralAsset, setEasyCollateralAsset] = useState("ETH");
   const [easyLoanAsset, setEasyLoanAsset] = useState("USDC");
 
-  const { riskMetrics, priceImpact, formatCollateralizationRatio, formatHealthFactor, getRiskLevelColor, getRiskLevelBgColor } = useRiskCalculator(customPosition);
+  // The demo works with human-readable amounts; the risk calculator expects base units
+  const riskPosition = React.useMemo(() => ({
+    ...customPosition,
+    collateralAmount: toRiskCalculatorAmount(customPosition.collateralAmount, customPosition.collateralAsset),
+    loanAmount: toRiskCalculatorAmount(customPosition.loanAmount, customPosition.loanAsset)
+  }), [customPosition]);
+
+  const { riskMetrics, priceImpact, formatCollateralizationRatio, formatHealthFactor, getRiskLevelColor, getRiskLevelBgColor } = useRiskCalculator(riskPosition);
 
   // 🔍 INTEGRACIÓN CON ORACLE: Obtener precios dinámicos del MockVCOPOracle desplegado
   const { 
@@ -240,15 +246,7 @@ export const InteractiveLoanDemo: React.FC<InteractiveLoanDemoProps> = ({ classN
   };
 
   const getRiskIcon = (riskLevel: RiskLevel) => {
-    switch (riskLevel) {
-      case RiskLevel.ULTRA_SAFE: return <Shield className="w-5 h-5" />;
-      case RiskLevel.HEALTHY: return <Shield className="w-5 h-5" />;
-      case RiskLevel.MODERATE: return <Activity className="w-5 h-5" />;
-      case RiskLevel.AGGRESSIVE: return <Target className="w-5 h-5" />;
-      case RiskLevel.EXTREME: return <AlertTriangle className="w-5 h-5" />;
-      case RiskLevel.DANGER_ZONE: return <TrendingDown className="w-5 h-5" />;
-      default: return <Calculator className="w-5 h-5" />;
-    }
+    return React.createElement(getRiskLevelIcon(riskLevel), { className: "w-5 h-5" });
   };
 
   const getLTVColor = (ltv: number) => {
@@ -611,7 +609,24 @@ export const InteractiveLoanDemo: React.FC<InteractiveLoanDemoProps> = ({ classN
 
               {/* Risk Analysis Display */}
               <div className="space-y-4">
-                <h4 className="text-lg font-semibold text-gray-900">Real-Time Risk Analysis</h4>
+                <div className="flex items-center justify-between">
+                  <h4 className="text-lg font-semibold text-gray-900">Real-Time Risk Analysis</h4>
+                  {riskMetrics && (
+                    <span className={`text-xs px-2 py-1 rounded-full font-semibold ${
+                      riskMetrics.priceSource === 'oracle'
+                        ? 'bg-green-100 text-green-700'
+                        : riskMetrics.priceSource === 'fallback'
+                          ? 'bg-yellow-100 text-yellow-700'
+                          : 'bg-gray-100 text-gray-600'
+                    }`}>
+                      {riskMetrics.priceSource === 'oracle'
+                        ? 'Live oracle prices'
+                        : riskMetrics.priceSource === 'fallback'
+                          ? 'Fallback prices'
+                          : 'Price source unavailable'}
+                    </span>
+                  )}
+                </div>
                 
                 {riskMetrics ? (
                   <div className={`transition-all duration-500 ${isAnimating ? 'opacity-50 scale-95' : 'opacity-100 scale-100'}`}>
@@ -1,7 +1,7 @@
 import React, { createContext, useContext, ReactNode } from 'react'
-import { useReadContract } from 'wagmi'
-import { formatUnits, type Address } from 'viem'
-import MOCK_VCOP_ORACLE_ABI from '../Abis/MockVCOPOracle.json'
+import { useReadContract, useReadContracts } from 'wagmi'
+import { formatUnits, zeroAddress, type Address } from 'viem'
+import { MOCK_VCOP_ORACLE_ABI } from '../Abis'
 import { useContractAddresses } from '../hooks/useContractAddresses'
 
 interface OraclePrices {
@@ -12,8 +12,26 @@ interface OraclePrices {
   WGOLD: number // Nueva coin WGOLD (oro wrapped)
 }
 
+// 'oracle' = precios leídos y validados on-chain, 'fallback' = FALLBACK_PRICES
+export type PriceSource = 'oracle' | 'fallback'
+
+// Origen de cada precio individual: oracle manual, feed de Chainlink real o valor de respaldo
+export type AssetPriceSource = 'oracle' | 'chainlink' | 'fallback'
+
+export interface AssetPriceInfo {
+  source: AssetPriceSource
+  updatedAt: Date | null          // Timestamp on-chain de la última actualización
+  isStale: boolean
+  deviation: number | null        // % de cambio respecto al último precio on-chain distinto
+  fallbackReason: string | null
+}
+
+export type OraclePriceDetails = Record<keyof OraclePrices, AssetPriceInfo>
+
 interface OraclePricesContextType {
   prices: OraclePrices
+  priceSource: PriceSource
+  priceDetails: OraclePriceDetails
   isLoading: boolean
   error: string | null
   refetchPrices: () => void
@@ -28,6 +46,37 @@ const FALLBACK_PRICES: OraclePrices = {
   WGOLD: 3302.30 // Precio del oro - Futuros del Precio del Oro (GCM3)
 }
 
+// Assets con precio on-chain. ETH, WBTC y VCOP salen de getCurrentMarketPrices; WGOLD solo de getPriceData
+const LIVE_ASSETS = ['ETH', 'WBTC', 'VCOP', 'WGOLD'] as const
+type LiveAsset = typeof LIVE_ASSETS[number]
+
+// Solo ETH y WBTC tienen feed de Chainlink en el oracle
+const CHAINLINK_ASSETS = ['ETH', 'WBTC'] as const
+
+// Rangos de cordura: fuera de ellos se usa el fallback y se reporta como tal
+const SANITY_RANGES: Partial<Record<LiveAsset, [number, number]>> = {
+  ETH: [100, 20000],
+  WBTC: [10000, 500000],
+  WGOLD: [1000, 10000]
+}
+
+// Los precios manuales del mock se actualizan por script; más de 24h se considera desactualizado
+const MAX_PRICE_AGE_SECONDS = 24 * 60 * 60
+
+interface PriceDataResult {
+  price: bigint
+  timestamp: bigint
+  isValid: boolean
+}
+
+const fallbackInfo = (reason: string): AssetPriceInfo => ({
+  source: 'fallback',
+  updatedAt: null,
+  isStale: false,
+  deviation: null,
+  fallbackReason: reason
+})
+
 const OraclePricesContext = createContext<OraclePricesContextType | undefined>(undefined)
 
 interface OraclePricesProviderProps {
@@ -59,32 +108,197 @@ export function OraclePricesProvider({ children }: OraclePricesProviderProps) {
     }
   })
 
+  // Tokens con feed en el oracle (todos cotizan contra mockUSDC)
+  const feedTokens = React.useMemo(() => {
+    if (!addresses) return null
+    return {
+      ETH: addresses.mockETH,
+      WBTC: addresses.mockWBTC,
+      VCOP: addresses.vcopToken,
+      WGOLD: addresses.mockWGOLD,
+      USDC: addresses.mockUSDC
+    }
+  }, [addresses])
+
+  // Solo se consultan los assets con token en esta red (p. ej. WGOLD puede no estar desplegado)
+  const feedAssets = React.useMemo(
+    () => feedTokens ? LIVE_ASSETS.filter((asset) => feedTokens[asset] !== zeroAddress) : [],
+    [feedTokens]
+  )
+
+  // getPriceData aplica la misma validación que validatePrice (price > 0) y añade el timestamp
+  const {
+    data: feedData,
+    refetch: refetchFeedData
+  } = useReadContracts({
+    contracts: feedTokens ? [
+      ...feedAssets.map((asset) => ({
+        address: oracleAddress,
+        abi: MOCK_VCOP_ORACLE_ABI,
+        functionName: 'getPriceData',
+        args: [feedTokens[asset], feedTokens.USDC]
+      }) as const),
+      ...CHAINLINK_ASSETS.map((asset) => ({
+        address: oracleAddress,
+        abi: MOCK_VCOP_ORACLE_ABI,
+        functionName: 'getChainlinkFeedInfo',
+        args: [feedTokens[asset]]
+      }) as const)
+    ] : [],
+    query: {
+      refetchOnWindowFocus: false,
+      refetchInterval: 120000,
+      staleTime: 60000,
+      gcTime: 300000,
+      enabled: !!oracleAddress && !!feedTokens,
+      retry: 2,
+      retryDelay: 5000
+    }
+  })
+
   // Procesar precios una sola vez
-  const processedPrices = React.useMemo(() => {
-    if (oracleMarketPrices && Array.isArray(oracleMarketPrices) && oracleMarketPrices.length === 4) {
+  const { prices: processedPrices, details: baseDetails } = React.useMemo(() => {
+    const prices: OraclePrices = { ...FALLBACK_PRICES }
+    const details: OraclePriceDetails = {
+      ETH: fallbackInfo('Oracle unavailable'),
+      WBTC: fallbackInfo('Oracle unavailable'),
+      // USDC es la moneda de cotización del oracle: vale 1 por definición
+      USDC: { source: 'oracle', updatedAt: null, isStale: false, deviation: null, fallbackReason: null },
+      VCOP: fallbackInfo('Oracle unavailable'),
+      WGOLD: fallbackInfo('Oracle unavailable')
+    }
+
+    if (!oracleMarketPrices || !Array.isArray(oracleMarketPrices) || oracleMarketPrices.length !== 4) {
+      return { prices, details }
+    }
+
+    const [ethPriceRaw, btcPriceRaw, vcopPriceRaw] = oracleMarketPrices as [bigint, bigint, bigint, bigint]
+    const feedResult = (asset: LiveAsset) => {
+      const index = feedAssets.indexOf(asset)
+      return index >= 0 ? feedData?.[index]?.result as PriceDataResult | undefined : undefined
+    }
+    const wgoldPriceData = feedResult('WGOLD')
+    const rawPrices: Record<LiveAsset, bigint> = {
+      ETH: ethPriceRaw,
+      WBTC: btcPriceRaw,
+      VCOP: vcopPriceRaw,
+      WGOLD: wgoldPriceData?.price ?? 0n
+    }
+    const nowSeconds = Math.floor(Date.now() / 1000)
+
+    LIVE_ASSETS.forEach((asset) => {
       try {
-        const [ethPriceRaw, btcPriceRaw, vcopPriceRaw] = oracleMarketPrices as [bigint, bigint, bigint, bigint]
-        
-        const newPrices: OraclePrices = {
-          ETH: parseFloat(formatUnits(ethPriceRaw, 6)) || FALLBACK_PRICES.ETH,
-          WBTC: parseFloat(formatUnits(btcPriceRaw, 6)) || FALLBACK_PRICES.WBTC,
-          USDC: 1, // USDC siempre es $1
-          VCOP: parseFloat(formatUnits(vcopPriceRaw, 6)) || FALLBACK_PRICES.VCOP,
-          WGOLD: FALLBACK_PRICES.WGOLD // WGOLD siempre es el valor fijo
+        if (!feedTokens?.[asset] || feedTokens[asset] === zeroAddress) {
+          details[asset] = fallbackInfo(`${asset} token not configured on this network`)
+          return
         }
 
-        // Validar que los precios sean razonables
-        if (newPrices.ETH > 100 && newPrices.ETH < 20000 && 
-            newPrices.WBTC > 10000 && newPrices.WBTC < 500000 &&
-            newPrices.VCOP > 0) {
-          return newPrices
+        const raw = rawPrices[asset]
+        const priceData = feedResult(asset)
+
+        // Un precio en cero significa que el oracle no está configurado para ese asset
+        if (!raw || raw === 0n) {
+          details[asset] = fallbackInfo('No price set on-chain')
+          return
+        }
+        if (priceData && !priceData.isValid) {
+          details[asset] = fallbackInfo('Rejected by oracle validation')
+          return
+        }
+
+        const price = parseFloat(formatUnits(raw, 6))
+        const range = SANITY_RANGES[asset]
+        if (range && (price < range[0] || price > range[1])) {
+          details[asset] = fallbackInfo(`Oracle price $${price.toLocaleString()} outside expected range`)
+          return
+        }
+
+        const chainlinkIndex = (CHAINLINK_ASSETS as readonly string[]).indexOf(asset)
+        const chainlinkInfo = chainlinkIndex >= 0
+          ? feedData?.[feedAssets.length + chainlinkIndex]?.result as [Address, bigint, bigint, boolean] | undefined
+          : undefined
+
+        // El mock se reporta a sí mismo como feed; solo un agregador externo cuenta como Chainlink
+        const isChainlink = !!chainlinkInfo &&
+          chainlinkInfo[0] !== zeroAddress &&
+          chainlinkInfo[0].toLowerCase() !== oracleAddress?.toLowerCase() &&
+          chainlinkInfo[1] > 0n
+
+        const updatedAtSeconds = isChainlink ? chainlinkInfo[2] : priceData?.timestamp
+        const updatedAt = updatedAtSeconds && updatedAtSeconds > 0n
+          ? new Date(Number(updatedAtSeconds) * 1000)
+          : null
+        const isStale = isChainlink
+          ? chainlinkInfo[3]
+          : !!updatedAtSeconds && nowSeconds - Number(updatedAtSeconds) > MAX_PRICE_AGE_SECONDS
+
+        prices[asset] = price
+        details[asset] = {
+          source: isChainlink ? 'chainlink' : 'oracle',
+          updatedAt,
+          isStale,
+          deviation: null,
+          fallbackReason: null
         }
       } catch (err) {
-        console.error('Error processing oracle prices:', err)
+        console.error(`Error processing oracle price for ${asset}:`, err)
+        details[asset] = fallbackInfo('Could not process oracle price')
+      }
+    })
+
+    return { prices, details }
+  }, [oracleMarketPrices, feedData, feedTokens, feedAssets, oracleAddress])
+
+  // Desviación respecto a la última lectura on-chain distinta. Solo se comparan precios del
+  // oracle entre sí: los de respaldo no cuentan, y un refetch sin cambios conserva la desviación
+  const lastOraclePricesRef = React.useRef<Partial<Record<LiveAsset, { price: number; updatedAt: number | null }>>>({})
+  const [deviations, setDeviations] = React.useState<Partial<Record<keyof OraclePrices, number>>>({})
+
+  // Al cambiar de red los precios anteriores son de otro oracle
+  React.useEffect(() => {
+    lastOraclePricesRef.current = {}
+    setDeviations({})
+  }, [oracleAddress])
+
+  React.useEffect(() => {
+    const changed: Partial<Record<keyof OraclePrices, number>> = {}
+
+    LIVE_ASSETS.forEach((asset) => {
+      if (baseDetails[asset].source === 'fallback') return
+
+      const current = {
+        price: processedPrices[asset],
+        updatedAt: baseDetails[asset].updatedAt?.getTime() ?? null
       }
+      const previous = lastOraclePricesRef.current[asset]
+      if (previous && previous.price === current.price && previous.updatedAt === current.updatedAt) return
+
+      lastOraclePricesRef.current[asset] = current
+      if (previous && previous.price > 0) {
+        changed[asset] = ((current.price - previous.price) / previous.price) * 100
+      }
+    })
+
+    if (Object.keys(changed).length > 0) {
+      setDeviations((prev) => ({ ...prev, ...changed }))
     }
-    return FALLBACK_PRICES
-  }, [oracleMarketPrices])
+  }, [processedPrices, baseDetails])
+
+  const priceDetails = React.useMemo((): OraclePriceDetails => {
+    const details = { ...baseDetails }
+    LIVE_ASSETS.forEach((asset) => {
+      const isOracleSourced = details[asset].source !== 'fallback'
+      details[asset] = { ...details[asset], deviation: isOracleSourced ? deviations[asset] ?? null : null }
+    })
+    return details
+  }, [baseDetails, deviations])
+
+  // Un asset sin contrato en esta red (p. ej. WGOLD) no se puede usar, así que no cuenta como fallback
+  const priceSource: PriceSource = LIVE_ASSETS
+    .filter((asset) => feedTokens?.[asset] && feedTokens[asset] !== zeroAddress)
+    .some((asset) => baseDetails[asset].source === 'fallback')
+    ? 'fallback'
+    : 'oracle'
 
   const [lastUpdated, setLastUpdated] = React.useState<Date | null>(null)
 
@@ -98,15 +312,18 @@ export function OraclePricesProvider({ children }: OraclePricesProviderProps) {
   // 🔥 OPTIMIZACIÓN: Throttled refetch function
   const refetchPrices = React.useCallback(() => {
     refetchMarketPrices()
-  }, [refetchMarketPrices])
+    refetchFeedData()
+  }, [refetchMarketPrices, refetchFeedData])
 
   const contextValue = React.useMemo(() => ({
     prices: processedPrices,
+    priceSource,
+    priceDetails,
     isLoading: isLoadingMarketPrices || addressesLoading,
     error: marketPricesError?.message || addressesError || null,
     refetchPrices,
     lastUpdated
-  }), [processedPrices, isLoadingMarketPrices, addressesLoading, marketPricesError, addressesError, refetchPrices, lastUpdated])
+  }), [processedPrices, priceSource, priceDetails, isLoadingMarketPrices, addressesLoading, marketPricesError, addressesError, refetchPrices, lastUpdated])
 
   return (
     <OraclePricesContext.Provider value={contextValue}>
@@ -0,0 +1,248 @@
+import React, { useCallback, useEffect, useRef, useState, ReactNode } from 'react'
+import { useAccount, useChainId, usePublicClient } from 'wagmi'
+import {
+  WaitForTransactionReceiptTimeoutError,
+  type Hash,
+  type PublicClient,
+  type ReplacementReturnType
+} from 'viem'
+
+import {
+  TransactionManagerContext,
+  type TrackedTransaction,
+  type TrackTransactionInput
+} from '../hooks/useTransactionManager'
+
+// ===================================
+// 💾 PERSISTENCIA
+// ===================================
+
+const STORAGE_KEY = 'vcop:transactions:v1'
+
+// Historial acotado: las tx terminadas se olvidan después de un día
+const MAX_STORED_TRANSACTIONS = 50
+const SETTLED_RETENTION_MS = 24 * 60 * 60 * 1000
+
+// Cada espera de receipt dura como máximo esto; al vencer se revisa si la tx sigue en el mempool
+const RECEIPT_POLL_TIMEOUT_MS = 60 * 1000
+
+// Sin nonce conocido, una tx que no aparece en el nodo tras este tiempo se da por descartada
+const DROP_AFTER_MS = 15 * 60 * 1000
+
+const RPC_RETRY_DELAY_MS = 10 * 1000
+
+const loadTransactions = (): TrackedTransaction[] => {
+  try {
+    const raw = localStorage.getItem(STORAGE_KEY)
+    if (!raw) return []
+    const parsed = JSON.parse(raw)
+    return Array.isArray(parsed) ? parsed : []
+  } catch (error) {
+    console.warn('⚠️ Could not read stored transactions:', error)
+    return []
+  }
+}
+
+const pruneTransactions = (transactions: TrackedTransaction[]): TrackedTransaction[] => {
+  const now = Date.now()
+  return transactions
+    .filter(tx => tx.status === 'pending' || (tx.settledAt ?? now) > now - SETTLED_RETENTION_MS)
+    .slice(0, MAX_STORED_TRANSACTIONS)
+}
+
+// ===================================
+// 🎯 PROVIDER
+// ===================================
+
+interface TransactionManagerProviderProps {
+  children: ReactNode
+}
+
+export function TransactionManagerProvider({ children }: TransactionManagerProviderProps) {
+  const { address } = useAccount()
+  const chainId = useChainId()
+  const publicClient = usePublicClient()
+
+  const [allTransactions, setAllTransactions] = useState<TrackedTransaction[]>(() => pruneTransactions(loadTransactions()))
+
+  // Watchers activos por hash, con su bandera de cancelación
+  const watchersRef = useRef<Map<Hash, { current: boolean }>>(new Map())
+
+  // Persistir en cada cambio
+  useEffect(() => {
+    try {
+      localStorage.setItem(STORAGE_KEY, JSON.stringify(allTransactions))
+    } catch (error) {
+      console.warn('⚠️ Could not persist transactions:', error)
+    }
+  }, [allTransactions])
+
+  // Sincronizar con otras pestañas
+  useEffect(() => {
+    const handleStorage = (event: StorageEvent) => {
+      if (event.key === STORAGE_KEY) setAllTransactions(pruneTransactions(loadTransactions()))
+    }
+    window.addEventListener('storage', handleStorage)
+    return () => window.removeEventListener('storage', handleStorage)
+  }, [])
+
+  const updateTransaction = useCallback((hash: Hash, updates: Partial<TrackedTransaction>) => {
+    setAllTransactions(prev => prev.map(tx => tx.hash === hash ? { ...tx, ...updates } : tx))
+  }, [])
+
+  const trackTransaction = useCallback(({ hash, purpose, positionId, description }: TrackTransactionInput) => {
+    if (!address) return
+
+    setAllTransactions(prev => {
+      if (prev.some(tx => tx.hash === hash)) return prev
+      return pruneTransactions([
+        {
+          hash,
+          chainId,
+          from: address,
+          nonce: null,
+          purpose,
+          positionId: positionId !== undefined && positionId !== null ? positionId.toString() : null,
+          description: description ?? null,
+          status: 'pending',
+          replacedBy: null,
+          submittedAt: Date.now(),
+          settledAt: null
+        },
+        ...prev
+      ])
+    })
+  }, [address, chainId])
+
+  // Vigilar cada tx pendiente de la red actual, incluidas las restauradas tras recargar
+  useEffect(() => {
+    if (!publicClient) return
+
+    allTransactions
+      .filter(tx => tx.status === 'pending' && tx.chainId === chainId && !watchersRef.current.has(tx.hash))
+      .forEach(tx => {
+        const cancelled = { current: false }
+        watchersRef.current.set(tx.hash, cancelled)
+        watchTransaction(publicClient, tx, updateTransaction, cancelled)
+          .catch(error => console.warn(`⚠️ Stopped watching ${tx.hash}:`, error))
+          .finally(() => {
+            if (watchersRef.current.get(tx.hash) === cancelled) watchersRef.current.delete(tx.hash)
+          })
+      })
+  }, [allTransactions, chainId, publicClient, updateTransaction])
+
+  // Al cambiar de red (o desmontar) se detienen los watchers; la red nueva arranca los suyos
+  useEffect(() => {
+    const watchers = watchersRef.current
+    return () => {
+      watchers.forEach(cancelled => { cancelled.current = true })
+      watchers.clear()
+    }
+  }, [chainId, publicClient])
+
+  const transactions = React.useMemo(() => allTransactions.filter(tx =>
+    tx.chainId === chainId && !!address && tx.from.toLowerCase() === address.toLowerCase()
+  ), [allTransactions, chainId, address])
+
+  const pendingTransactions = React.useMemo(
+    () => transactions.filter(tx => tx.status === 'pending'),
+    [transactions]
+  )
+
+  const getPendingForPosition = useCallback((positionId: bigint) => {
+    const id = positionId.toString()
+    return pendingTransactions.filter(tx => tx.positionId === id)
+  }, [pendingTransactions])
+
+  const clearSettled = useCallback(() => {
+    setAllTransactions(prev => prev.filter(tx => tx.status === 'pending'))
+  }, [])
+
+  const contextValue = React.useMemo(() => ({
+    transactions,
+    pendingTransactions,
+    trackTransaction,
+    getPendingForPosition,
+    clearSettled
+  }), [transactions, pendingTransactions, trackTransaction, getPendingForPosition, clearSettled])
+
+  return (
+    <TransactionManagerContext.Provider value={contextValue}>
+      {children}
+    </TransactionManagerContext.Provider>
+  )
+}
+
+// ===================================
+// 🔍 SEGUIMIENTO DE RECEIPTS
+// ===================================
+
+/**
+ * Espera el receipt en tramos. Entre tramos confirma que la tx sigue en el mempool;
+ * si su nonce ya fue consumido por otra tx que no vimos, o desapareció, se marca como descartada.
+ */
+async function watchTransaction(
+  publicClient: PublicClient,
+  tx: TrackedTransaction,
+  updateTransaction: (hash: Hash, updates: Partial<TrackedTransaction>) => void,
+  cancelled: { current: boolean }
+) {
+  let nonce = tx.nonce
+
+  while (!cancelled.current) {
+    // Guardar el nonce en cuanto el nodo conozca la tx
+    if (nonce === null) {
+      const onChain = await publicClient.getTransaction({ hash: tx.hash }).catch(() => null)
+      if (onChain) {
+        nonce = onChain.nonce
+        updateTransaction(tx.hash, { nonce })
+      }
+    }
+
+    let replacement: ReplacementReturnType | null = null
+    try {
+      const receipt = await publicClient.waitForTransactionReceipt({
+        hash: tx.hash,
+        timeout: RECEIPT_POLL_TIMEOUT_MS,
+        onReplaced: (replaced) => { replacement = replaced }
+      })
+      if (cancelled.current) return
+
+      const replaced = replacement as ReplacementReturnType | null
+      const succeeded = receipt.status === 'success'
+      updateTransaction(tx.hash, {
+        // Un speed up (repriced) mantiene la intención original: cuenta su resultado
+        status: replaced && replaced.reason !== 'repriced'
+          ? 'replaced'
+          : succeeded ? 'confirmed' : 'failed',
+        replacedBy: replaced?.transaction.hash ?? null,
+        settledAt: Date.now()
+      })
+      return
+    } catch (error) {
+      if (cancelled.current) return
+      if (!(error instanceof WaitForTransactionReceiptTimeoutError)) {
+        // Error del RPC: esperar antes de reintentar para no saturarlo
+        console.warn(`⚠️ Error watching ${tx.hash}:`, error)
+        await new Promise(resolve => setTimeout(resolve, RPC_RETRY_DELAY_MS))
+      }
+    }
+
+    // ¿Sigue en el mempool?
+    const stillKnown = await publicClient.getTransaction({ hash: tx.hash }).catch(() => null)
+    if (stillKnown) continue
+
+    let isDropped = Date.now() - tx.submittedAt > DROP_AFTER_MS
+    if (nonce !== null) {
+      const confirmedNonce = await publicClient
+        .getTransactionCount({ address: tx.from, blockTag: 'latest' })
+        .catch(() => null)
+      isDropped = confirmedNonce !== null && confirmedNonce > nonce
+    }
+
+    if (isDropped && !cancelled.current) {
+      updateTransaction(tx.hash, { status: 'dropped', settledAt: Date.now() })
+      return
+    }
+  }
+}
@@ -0,0 +1,29 @@
+import { avalancheFuji } from './networks'
+
+// Registry of protocol deployments keyed by chain ID.
+// To support a new network, deploy the contracts, add its manifest to /public and register it here.
+export interface NetworkDeployment {
+  chainId: number
+  name: string
+  manifestUrl: string
+}
+
+export const DEPLOYMENTS: Record<number, NetworkDeployment> = {
+  [avalancheFuji.id]: {
+    chainId: avalancheFuji.id,
+    name: avalancheFuji.name,
+    manifestUrl: '/deployed-addresses-mock.json'
+  }
+}
+
+// Network to suggest when the wallet is on a chain without a deployment
+export const DEFAULT_DEPLOYMENT = DEPLOYMENTS[avalancheFuji.id]
+
+export function getDeployment(chainId: number | undefined): NetworkDeployment | null {
+  if (chainId === undefined) return null
+  return DEPLOYMENTS[chainId] ?? null
+}
+
+export function isSupportedNetwork(chainId: number | undefined): boolean {
+  return getDeployment(chainId) !== null
+}
@@ -0,0 +1,306 @@
+/**
+ * @fileoverview useAutomationStatus.ts
+ * @description Estado de la automatización de liquidaciones: keeper, adapter y price trigger
+ * @version 2025 - Compatible con wagmi v2.x y viem v2.x
+ *
+ * Funcionalidades:
+ * - Estadísticas del keeper (upkeeps, liquidaciones, gas) desde LoanAutomationKeeperOptimized.getStats
+ * - Tracking y liquidaciones del adapter desde getTrackingStats y getLiquidationStats
+ * - Actividad del price trigger desde PriceChangeLogTrigger.getStatistics
+ * - Pausas y cableado entre contratos, con el motivo por el que una liquidación no se ejecutaría
+ */
+
+import { useMemo } from 'react'
+import { useReadContracts } from 'wagmi'
+import { zeroAddress, type Address } from 'viem'
+
+import {
+  automationKeeperContract,
+  flexibleLoanManagerContract,
+  loanAdapterContract,
+  priceTriggerContract
+} from '../utils/contracts'
+import { useContractAddresses } from './useContractAddresses'
+
+// ===================================
+// 🏗️ INTERFACES Y TIPOS
+// ===================================
+
+export interface KeeperStats {
+  totalLiquidations: bigint
+  totalUpkeeps: bigint
+  lastExecution: number         // Unix seconds, 0 si nunca corrió
+  averageGasUsed: bigint
+  totalGasUsed: bigint
+  registeredManagers: bigint
+  emergencyPause: boolean
+  forwarderRestricted: boolean
+  chainlinkForwarder: Address | null
+  automationRegistry: Address | null
+}
+
+export interface AdapterStats {
+  totalTracked: bigint
+  totalAtRisk: bigint
+  totalLiquidatable: bigint
+  totalCritical: bigint
+  totalAttempts: bigint
+  totalSuccessful: bigint
+  successRate: number           // Porcentaje (0-100)
+  lastSync: number              // Unix seconds
+  automationEnabled: boolean
+  authorizedAutomationContract: Address | null
+}
+
+export interface TriggerStats {
+  totalTriggers: bigint
+  totalLiquidations: bigint
+  totalVolatilityEvents: bigint
+  lastTrigger: number           // Unix seconds
+  activeVolatilityAssets: bigint
+  emergencyPause: boolean
+}
+
+export interface AutomationIssue {
+  severity: 'error' | 'warning'
+  source: 'keeper' | 'adapter' | 'trigger' | 'loanManager'
+  message: string
+}
+
+// Sin upkeeps en este tiempo con posiciones liquidables, el keeper probablemente no está fondeado o registrado
+const STALE_UPKEEP_SECONDS = 60 * 60
+
+// Tasas del adapter en 6 decimales (1000000 = 100%)
+const RATE_PRECISION = 10000
+
+const isDeployed = (address?: Address): address is Address =>
+  Boolean(address) && address !== zeroAddress
+
+// ===================================
+// 🎯 HOOK PRINCIPAL: useAutomationStatus
+// ===================================
+
+export function useAutomationStatus() {
+  const { addresses, isReady } = useContractAddresses()
+
+  const keeper = isDeployed(addresses?.automationKeeper) ? addresses.automationKeeper : undefined
+  const adapter = isDeployed(addresses?.loanAdapter) ? addresses.loanAdapter : undefined
+  const trigger = isDeployed(addresses?.priceTrigger) ? addresses.priceTrigger : undefined
+  const loanManager = isDeployed(addresses?.flexibleLoanManager) ? addresses.flexibleLoanManager : undefined
+
+  // ===================================
+  // 🔍 LECTURAS
+  // ===================================
+
+  const {
+    data: keeperData,
+    isLoading: isLoadingKeeper,
+    refetch: refetchKeeper
+  } = useReadContracts({
+    contracts: keeper
+      ? [
+          { ...automationKeeperContract(keeper), functionName: 'getStats' },
+          { ...automationKeeperContract(keeper), functionName: 'totalGasUsed' },
+          { ...automationKeeperContract(keeper), functionName: 'emergencyPause' },
+          { ...automationKeeperContract(keeper), functionName: 'forwarderRestricted' },
+          { ...automationKeeperContract(keeper), functionName: 'chainlinkForwarder' },
+          { ...automationKeeperContract(keeper), functionName: 'automationRegistry' },
+          { ...automationKeeperContract(keeper), functionName: 'registeredManagers', args: [adapter ?? zeroAddress] }
+        ] as const
+      : [],
+    query: {
+      enabled: isReady && Boolean(keeper),
+      refetchOnWindowFocus: false,
+      staleTime: 30000
+    }
+  })
+
+  const {
+    data: adapterData,
+    isLoading: isLoadingAdapter,
+    refetch: refetchAdapter
+  } = useReadContracts({
+    contracts: adapter
+      ? [
+          { ...loanAdapterContract(adapter), functionName: 'getTrackingStats' },
+          { ...loanAdapterContract(adapter), functionName: 'getLiquidationStats' },
+          { ...loanAdapterContract(adapter), functionName: 'isAutomationEnabled' },
+          { ...loanAdapterContract(adapter), functionName: 'authorizedAutomationContract' }
+        ] as const
+      : [],
+    query: {
+      enabled: isReady && Boolean(adapter),
+      refetchOnWindowFocus: false,
+      staleTime: 30000
+    }
+  })
+
+  const {
+    data: triggerData,
+    isLoading: isLoadingTrigger,
+    refetch: refetchTrigger
+  } = useReadContracts({
+    contracts: trigger
+      ? [
+          { ...priceTriggerContract(trigger), functionName: 'getStatistics' },
+          { ...priceTriggerContract(trigger), functionName: 'emergencyPause' }
+        ] as const
+      : [],
+    query: {
+      enabled: isReady && Boolean(trigger),
+      refetchOnWindowFocus: false,
+      staleTime: 30000
+    }
+  })
+
+  const {
+    data: loanManagerData,
+    refetch: refetchLoanManager
+  } = useReadContracts({
+    contracts: loanManager
+      ? [{ ...flexibleLoanManagerContract(loanManager), functionName: 'paused' }] as const
+      : [],
+    query: {
+      enabled: isReady && Boolean(loanManager),
+      refetchOnWindowFocus: false,
+      staleTime: 30000
+    }
+  })
+
+  // ===================================
+  // 📊 RESULTADOS
+  // ===================================
+
+  const keeperStats = useMemo((): KeeperStats | null => {
+    const stats = keeperData?.[0]?.result as [bigint, bigint, bigint, bigint, bigint] | undefined
+    if (!stats) return null
+
+    const [totalLiquidations, totalUpkeeps, lastExecution, averageGasUsed, registeredManagers] = stats
+    return {
+      totalLiquidations,
+      totalUpkeeps,
+      lastExecution: Number(lastExecution),
+      averageGasUsed,
+      totalGasUsed: (keeperData?.[1]?.result as bigint | undefined) ?? 0n,
+      registeredManagers,
+      emergencyPause: (keeperData?.[2]?.result as boolean | undefined) ?? false,
+      forwarderRestricted: (keeperData?.[3]?.result as boolean | undefined) ?? false,
+      chainlinkForwarder: (keeperData?.[4]?.result as Address | undefined) ?? null,
+      automationRegistry: (keeperData?.[5]?.result as Address | undefined) ?? null
+    }
+  }, [keeperData])
+
+  const isAdapterRegistered = keeperData?.[6]?.result as boolean | undefined
+
+  const adapterStats = useMemo((): AdapterStats | null => {
+    const tracking = adapterData?.[0]?.result as [bigint, bigint, bigint, bigint, bigint] | undefined
+    const liquidations = adapterData?.[1]?.result as [bigint, bigint, bigint, bigint] | undefined
+    if (!tracking || !liquidations) return null
+
+    const [totalTracked, totalAtRisk, totalLiquidatable, totalCritical] = tracking
+    const [totalAttempts, totalSuccessful, successRate, lastSync] = liquidations
+    return {
+      totalTracked,
+      totalAtRisk,
+      totalLiquidatable,
+      totalCritical,
+      totalAttempts,
+      totalSuccessful,
+      successRate: Number(successRate) / RATE_PRECISION,
+      lastSync: Number(lastSync),
+      automationEnabled: (adapterData?.[2]?.result as boolean | undefined) ?? false,
+      authorizedAutomationContract: (adapterData?.[3]?.result as Address | undefined) ?? null
+    }
+  }, [adapterData])
+
+  const triggerStats = useMemo((): TriggerStats | null => {
+    const stats = triggerData?.[0]?.result as [bigint, bigint, bigint, bigint, bigint] | undefined
+    if (!stats) return null
+
+    const [totalTriggers, totalLiquidations, totalVolatilityEvents, lastTrigger, activeVolatilityAssets] = stats
+    return {
+      totalTriggers,
+      totalLiquidations,
+      totalVolatilityEvents,
+      lastTrigger: Number(lastTrigger),
+      activeVolatilityAssets,
+      emergencyPause: (triggerData?.[1]?.result as boolean | undefined) ?? false
+    }
+  }, [triggerData])
+
+  const isLoanManagerPaused = (loanManagerData?.[0]?.result as boolean | undefined) ?? false
+
+  // ===================================
+  // 🚨 MOTIVOS POR LOS QUE NO SE LIQUIDA
+  // ===================================
+
+  const issues = useMemo((): AutomationIssue[] => {
+    const found: AutomationIssue[] = []
+
+    if (!keeper) found.push({ severity: 'error', source: 'keeper', message: 'Automation keeper is not deployed on this network' })
+    if (!adapter) found.push({ severity: 'error', source: 'adapter', message: 'Loan automation adapter is not deployed on this network' })
+    if (!trigger) found.push({ severity: 'warning', source: 'trigger', message: 'Price change trigger is not deployed on this network' })
+
+    if (isLoanManagerPaused) {
+      found.push({ severity: 'error', source: 'loanManager', message: 'FlexibleLoanManager is paused: every liquidation reverts with "Contract paused"' })
+    }
+
+    if (keeperStats) {
+      if (keeperStats.emergencyPause) {
+        found.push({ severity: 'error', source: 'keeper', message: 'Keeper emergency pause is on: checkUpkeep always returns false' })
+      }
+      if (adapter && isAdapterRegistered === false) {
+        found.push({ severity: 'error', source: 'keeper', message: 'The adapter is not registered as a loan manager in the keeper' })
+      }
+      if (keeperStats.forwarderRestricted && (!keeperStats.chainlinkForwarder || keeperStats.chainlinkForwarder === zeroAddress)) {
+        found.push({ severity: 'error', source: 'keeper', message: 'performUpkeep is restricted to the Chainlink forwarder, but no forwarder is set' })
+      }
+      if (
+        addresses?.automationRegistry &&
+        keeperStats.automationRegistry &&
+        keeperStats.automationRegistry.toLowerCase() !== addresses.automationRegistry.toLowerCase()
+      ) {
+        found.push({ severity: 'warning', source: 'keeper', message: 'Keeper points to a different automation registry than the deployment manifest' })
+      }
+    }
+
+    if (adapterStats) {
+      if (!adapterStats.automationEnabled) {
+        found.push({ severity: 'error', source: 'adapter', message: 'Automation is disabled in the adapter' })
+      }
+      if (keeper && adapterStats.authorizedAutomationContract?.toLowerCase() !== keeper.toLowerCase()) {
+        found.push({ severity: 'error', source: 'adapter', message: 'The keeper is not the adapter\'s authorized automation contract: its liquidations revert with "Unauthorized"' })
+      }
+      if (adapterStats.totalLiquidatable > 0n && keeperStats) {
+        const secondsSinceUpkeep = Math.floor(Date.now() / 1000) - keeperStats.lastExecution
+        if (keeperStats.lastExecution === 0 || secondsSinceUpkeep > STALE_UPKEEP_SECONDS) {
+          found.push({ severity: 'warning', source: 'keeper', message: `${adapterStats.totalLiquidatable} liquidatable positions but no upkeep ran in the last hour: check the upkeep balance and registration` })
+        }
+      }
+    }
+
+    if (triggerStats?.emergencyPause) {
+      found.push({ severity: 'warning', source: 'trigger', message: 'Price trigger emergency pause is on: price moves will not start liquidations' })
+    }
+
+    return found
+  }, [keeper, adapter, trigger, addresses, isLoanManagerPaused, keeperStats, isAdapterRegistered, adapterStats, triggerStats])
+
+  const refresh = async () => {
+    await Promise.all([refetchKeeper(), refetchAdapter(), refetchTrigger(), refetchLoanManager()])
+  }
+
+  return {
+    keeper: keeperStats,
+    adapter: adapterStats,
+    trigger: triggerStats,
+    isLoanManagerPaused,
+    issues,
+    isHealthy: !issues.some((issue) => issue.severity === 'error'),
+    addresses: { keeper, adapter, trigger },
+    isLoading: !isReady || isLoadingKeeper || isLoadingAdapter || isLoadingTrigger,
+    refresh
+  }
+}
+
+export default useAutomationStatus
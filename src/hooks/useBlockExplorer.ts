@@ -0,0 +1,29 @@
+/**
+ * @fileoverview useBlockExplorer.ts
+ * @description Enlaces al block explorer de la red activa (tx, direcciones y tokens)
+ * @version 2025 - Compatible con wagmi v2.x y viem v2.x
+ */
+
+import { useMemo } from 'react'
+import { useChainId, useChains } from 'wagmi'
+
+import { getBlockExplorer, getExplorerUrl } from '../utils/explorer'
+
+export function useBlockExplorer() {
+  const chainId = useChainId()
+  const chains = useChains()
+
+  return useMemo(() => {
+    const explorer = getBlockExplorer(chains.find(chain => chain.id === chainId))
+
+    return {
+      explorerName: explorer.name,
+      explorerUrl: explorer.url,
+      getTxUrl: (hash: string) => getExplorerUrl(explorer, 'tx', hash),
+      getAddressUrl: (address: string) => getExplorerUrl(explorer, 'address', address),
+      getTokenUrl: (token: string) => getExplorerUrl(explorer, 'token', token)
+    }
+  }, [chainId, chains])
+}
+
+export default useBlockExplorer
@@ -0,0 +1,193 @@
+/**
+ * @fileoverview useBorrowerRewards.ts
+ * @description Hook para los rewards de prestatarios de FlexibleLoanManager (wagmi v2 + viem v2)
+ * @version 2025 - Compatible con wagmi v2.x y viem v2.x
+ *
+ * Funcionalidades:
+ * - Leer rewards pendientes, distribuidor y REWARD_POOL_ID
+ * - Rewards por cuenta: el contrato no expone el stake de cada posición
+ * - Reclamar rewards y refrescar cuando se confirma el evento RewardsClaimed
+ */
+
+import { useState, useCallback } from 'react'
+import { useAccount, useReadContracts, useWriteContract, usePublicClient } from 'wagmi'
+import { parseEventLogs, zeroAddress, type Address, type Hash } from 'viem'
+
+import { FLEXIBLE_LOAN_MANAGER_ABI } from '../Abis'
+import { useContractAddresses } from './useContractAddresses'
+import { useTransactionManager } from './useTransactionManager'
+import { formatTransactionError } from '../utils/errorDecoder'
+
+// El RewardDistributor reparte un token de 18 decimales
+export const REWARD_TOKEN_DECIMALS = 18
+
+// ===================================
+// 🏗️ INTERFACES Y TIPOS
+// ===================================
+
+export interface ClaimRewardsState {
+  step: 'idle' | 'claiming' | 'confirming' | 'completed'
+  txHash: Hash | null
+  claimedAmount: bigint | null
+  error: string | null
+}
+
+export interface ClaimRewardsResult {
+  success: boolean
+  txHash?: Hash
+  claimedAmount?: bigint
+  error?: string
+}
+
+const INITIAL_CLAIM_STATE: ClaimRewardsState = {
+  step: 'idle',
+  txHash: null,
+  claimedAmount: null,
+  error: null
+}
+
+// ===================================
+// 🎯 HOOK PRINCIPAL: useBorrowerRewards
+// ===================================
+
+export function useBorrowerRewards() {
+  const { address } = useAccount()
+  const publicClient = usePublicClient()
+  const { addresses } = useContractAddresses()
+  const { writeContractAsync } = useWriteContract()
+  const { trackTransaction } = useTransactionManager()
+
+  const [claimState, setClaimState] = useState<ClaimRewardsState>(INITIAL_CLAIM_STATE)
+
+  const loanManager = addresses?.flexibleLoanManager
+
+  // ===================================
+  // 🔍 LECTURA DE REWARDS
+  // ===================================
+
+  const {
+    data: rewardsData,
+    refetch: refetchRewards,
+    isLoading
+  } = useReadContracts({
+    contracts: loanManager && address
+      ? [
+          { address: loanManager, abi: FLEXIBLE_LOAN_MANAGER_ABI, functionName: 'getPendingRewards', args: [address] },
+          { address: loanManager, abi: FLEXIBLE_LOAN_MANAGER_ABI, functionName: 'getRewardDistributor' },
+          { address: loanManager, abi: FLEXIBLE_LOAN_MANAGER_ABI, functionName: 'REWARD_POOL_ID' }
+        ]
+      : [],
+    query: {
+      enabled: Boolean(loanManager && address),
+      refetchOnWindowFocus: false,
+      staleTime: 30000
+    }
+  })
+
+  // updateUserRewards lleva un único stake por cuenta; no hay forma de atribuirlo a cada posición
+  const pendingRewards = (rewardsData?.[0]?.result as bigint | undefined) ?? 0n
+  const rewardDistributor = (rewardsData?.[1]?.result as Address | undefined) ?? null
+  const rewardPoolId = (rewardsData?.[2]?.result as Hash | undefined) ?? null
+  const rewardsEnabled = Boolean(rewardDistributor && rewardDistributor !== zeroAddress)
+
+  // ===================================
+  // ✍️ RECLAMAR REWARDS
+  // ===================================
+
+  const claimRewards = useCallback(async (): Promise<ClaimRewardsResult> => {
+    if (!loanManager || !address || !publicClient) {
+      return { success: false, error: 'Contract addresses not loaded or wallet not connected' }
+    }
+
+    try {
+      setClaimState({ ...INITIAL_CLAIM_STATE, step: 'claiming' })
+
+      await publicClient.simulateContract({
+        address: loanManager,
+        abi: FLEXIBLE_LOAN_MANAGER_ABI,
+        functionName: 'claimRewards',
+        account: address
+      })
+
+      const txHash = await writeContractAsync({
+        address: loanManager,
+        abi: FLEXIBLE_LOAN_MANAGER_ABI,
+        functionName: 'claimRewards'
+      })
+      trackTransaction({ hash: txHash, purpose: 'claim-rewards', description: 'Borrower rewards' })
+      setClaimState(prev => ({ ...prev, step: 'confirming', txHash }))
+
+      const receipt = await publicClient.waitForTransactionReceipt({ hash: txHash })
+      if (receipt.status !== 'success') {
+        throw new Error('Claim transaction reverted')
+      }
+
+      // claimRewards no emite nada si no había rewards pendientes
+      const claimedEvents = parseEventLogs({
+        abi: FLEXIBLE_LOAN_MANAGER_ABI,
+        eventName: 'RewardsClaimed',
+        logs: receipt.logs
+      })
+      const claimedEvent = claimedEvents.find((log) => {
+        const args = log.args as { user?: Address }
+        return args.user?.toLowerCase() === address.toLowerCase()
+      })
+      if (!claimedEvent) {
+        throw new Error('No rewards were claimed')
+      }
+
+      const claimedAmount = (claimedEvent.args as { amount?: bigint }).amount ?? 0n
+      console.log('🎁 Borrower rewards claimed:', claimedAmount.toString())
+
+      setClaimState(prev => ({ ...prev, step: 'completed', claimedAmount }))
+      await refetchRewards()
+      return { success: true, txHash, claimedAmount }
+    } catch (error) {
+      const message = getRewardsErrorMessage(error)
+      console.error('💥 Claim borrower rewards error:', error)
+      setClaimState(prev => ({ ...prev, step: 'idle', error: message }))
+      return { success: false, error: message }
+    }
+  }, [loanManager, address, publicClient, writeContractAsync, trackTransaction, refetchRewards])
+
+  const resetClaimState = useCallback(() => {
+    setClaimState(INITIAL_CLAIM_STATE)
+  }, [])
+
+  return {
+    // 📊 Datos
+    pendingRewards,
+    rewardDistributor,
+    rewardPoolId,
+    rewardsEnabled,
+
+    // 🔄 Estados
+    isLoading,
+    ...claimState,
+    isClaiming: claimState.step === 'claiming' || claimState.step === 'confirming',
+
+    // 🚀 Funciones
+    claimRewards,
+    refetchRewards,
+    resetClaimState
+  }
+}
+
+// ===================================
+// 🧮 FUNCIONES AUXILIARES
+// ===================================
+
+function getRewardsErrorMessage(error: unknown): string {
+  const message = error instanceof Error ? error.message : String(error)
+
+  if (message.includes('User rejected') || message.includes('User denied')) {
+    return 'Transaction cancelled by user'
+  }
+  if (message.includes('Reward distributor not set')) {
+    return 'Rewards are not enabled for borrowers yet'
+  }
+
+  return formatTransactionError(error)
+}
+
+export default useBorrowerRewards
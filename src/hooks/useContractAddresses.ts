@@ -1,12 +1,14 @@
 /**
  * @fileoverview useContractAddresses.ts
  * @description Hook centralizado para manejar todas las direcciones de contratos dinámicamente
- * @version 2025 - Siempre lee desde deployed-addresses-mock.json
+ * @version 2025 - Lee el manifiesto de despliegue de la red activa (ver config/deployments.ts)
  */
 
-import { useState, useEffect, useCallback } from 'react'
-import { type Address } from 'viem'
+import { useState, useEffect, useCallback, useRef } from 'react'
+import { zeroAddress, type Address } from 'viem'
 import { useChainId } from 'wagmi'
+import { getDeployment, DEFAULT_DEPLOYMENT } from '../config/deployments'
+import { validateManifest, formatManifestErrors } from '../utils/manifestValidator'
 
 // ===================================
 // 🏗️ INTERFACES Y TIPOS
@@ -27,6 +29,7 @@ export interface ContractAddresses {
   mockWBTC: Address
   mockUSDC: Address
   vcopToken: Address
+  mockWGOLD: Address
   
   // VCOP Collateral
   mockVcopOracle: Address
@@ -67,71 +70,89 @@ export function useContractAddresses() {
   const [assetMapping, setAssetMapping] = useState<AssetMapping>({})
   const [isLoading, setIsLoading] = useState(true)
   const [error, setError] = useState<string | null>(null)
+  const deployment = getDeployment(chainId)
 
-  // Cargar direcciones desde deployed-addresses-mock.json
+  // Evita que la respuesta de una red anterior pise la de la red actual
+  const latestRequestRef = useRef(0)
+  const loadedChainIdRef = useRef<number | null>(null)
+
+  // Cargar direcciones desde el manifiesto de la red activa
   const loadAddresses = useCallback(async () => {
+    const requestId = ++latestRequestRef.current
+    const isLatest = () => requestId === latestRequestRef.current
+
     try {
       setIsLoading(true)
       setError(null)
 
-      console.log('🔄 Loading contract addresses from deployed-addresses-mock.json...')
+      // Al cambiar de red no seguir exponiendo direcciones de la red anterior
+      if (loadedChainIdRef.current !== chainId) {
+        loadedChainIdRef.current = chainId
+        setAddresses(null)
+        setAssetMapping({})
+      }
+
+      if (!deployment) {
+        throw new Error(`Unsupported network (chain ID ${chainId}). Switch to ${DEFAULT_DEPLOYMENT.name}.`)
+      }
+
+      console.log(`🔄 Loading contract addresses for ${deployment.name} from ${deployment.manifestUrl}...`)
       
-      const response = await fetch('/deployed-addresses-mock.json')
+      const response = await fetch(deployment.manifestUrl)
       if (!response.ok) {
         throw new Error(`Failed to load config: ${response.status} ${response.statusText}`)
       }
       
       const data = await response.json()
+      if (!isLatest()) return
       console.log('📋 Raw config data:', data)
 
-      // Mapear datos a la estructura esperada
+      // Validar forma, checksum y direcciones cero antes de usar el manifiesto
+      const validation = validateManifest(data)
+      const manifestError = formatManifestErrors(validation.issues)
+      if (manifestError) {
+        throw new Error(manifestError)
+      }
+      validation.issues
+        .filter(issue => issue.severity === 'warning')
+        .forEach(issue => console.warn(`⚠️ Deployment manifest ${issue.path}: ${issue.message}`))
+
+      const { tokens, vcopCollateral, coreLending, config, automation } = validation.values
+
+      // Mapear datos validados (con checksum) a la estructura esperada
       const contractAddresses: ContractAddresses = {
         // Core Lending
-        flexibleLoanManager: data.coreLending?.flexibleLoanManager as Address,
-        genericLoanManager: data.coreLending?.genericLoanManager as Address,
-        riskCalculator: data.coreLending?.riskCalculator as Address,
-        mintableBurnableHandler: data.coreLending?.mintableBurnableHandler as Address,
-        vaultBasedHandler: data.coreLending?.vaultBasedHandler as Address,
-        flexibleAssetHandler: data.coreLending?.flexibleAssetHandler as Address,
-        dynamicPriceRegistry: data.coreLending?.dynamicPriceRegistry as Address,
+        flexibleLoanManager: coreLending.flexibleLoanManager as Address,
+        genericLoanManager: coreLending.genericLoanManager as Address,
+        riskCalculator: coreLending.riskCalculator as Address,
+        mintableBurnableHandler: coreLending.mintableBurnableHandler as Address,
+        vaultBasedHandler: coreLending.vaultBasedHandler as Address,
+        flexibleAssetHandler: coreLending.flexibleAssetHandler as Address,
+        dynamicPriceRegistry: coreLending.dynamicPriceRegistry as Address,
         
         // Tokens
-        mockETH: data.tokens?.mockETH as Address,
-        mockWBTC: data.tokens?.mockWBTC as Address,
-        mockUSDC: data.tokens?.mockUSDC as Address,
-        vcopToken: data.tokens?.vcopToken as Address,
+        mockETH: tokens.mockETH as Address,
+        mockWBTC: tokens.mockWBTC as Address,
+        mockUSDC: tokens.mockUSDC as Address,
+        vcopToken: tokens.vcopToken as Address,
+        mockWGOLD: (tokens.mockWGOLD ?? zeroAddress) as Address,
         
         // VCOP Collateral
-        mockVcopOracle: data.vcopCollateral?.mockVcopOracle as Address,
-        vcopPriceCalculator: data.vcopCollateral?.vcopPriceCalculator as Address,
-        vcopCollateralManager: data.vcopCollateral?.vcopCollateralManager as Address,
-        vcopCollateralHook: data.vcopCollateral?.vcopCollateralHook as Address,
+        mockVcopOracle: vcopCollateral.mockVcopOracle as Address,
+        vcopPriceCalculator: vcopCollateral.vcopPriceCalculator as Address,
+        vcopCollateralManager: vcopCollateral.vcopCollateralManager as Address,
+        vcopCollateralHook: vcopCollateral.vcopCollateralHook as Address,
         
         // Config
-        poolManager: data.config?.poolManager as Address,
-        feeCollector: data.config?.feeCollector as Address,
-        usdToCopRate: data.config?.usdToCopRate as string,
+        poolManager: config.poolManager as Address,
+        feeCollector: config.feeCollector as Address,
+        usdToCopRate: config.usdToCopRate as string,
         
         // Automation
-        automationRegistry: data.automation?.automationRegistry as Address,
-        automationKeeper: data.automation?.automationKeeper as Address,
-        loanAdapter: data.automation?.loanAdapter as Address,
-        priceTrigger: data.automation?.priceTrigger as Address
-      }
-
-      // Validar que las direcciones críticas existan
-      const criticalAddresses = [
-        'flexibleLoanManager',
-        'vaultBasedHandler', 
-        'mockETH',
-        'mockUSDC',
-        'feeCollector'
-      ] as const
-
-      for (const key of criticalAddresses) {
-        if (!contractAddresses[key]) {
-          throw new Error(`Critical address missing: ${key}`)
-        }
+        automationRegistry: automation.automationRegistry as Address,
+        automationKeeper: automation.automationKeeper as Address,
+        loanAdapter: automation.loanAdapter as Address,
+        priceTrigger: automation.priceTrigger as Address
       }
 
       // Crear mapeo de direcciones a símbolos (para ambos casos)
@@ -153,6 +174,10 @@ export function useContractAddresses() {
         mapping[contractAddresses.vcopToken.toLowerCase()] = 'VCOP'
         mapping[contractAddresses.vcopToken] = 'VCOP'
       }
+      if (contractAddresses.mockWGOLD && contractAddresses.mockWGOLD !== zeroAddress) {
+        mapping[contractAddresses.mockWGOLD.toLowerCase()] = 'WGOLD'
+        mapping[contractAddresses.mockWGOLD] = 'WGOLD'
+      }
 
       setAddresses(contractAddresses)
       setAssetMapping(mapping)
@@ -166,19 +191,20 @@ export function useContractAddresses() {
       console.log('🎯 Asset mapping created:', mapping)
 
     } catch (err) {
+      if (!isLatest()) return
       console.error('💥 Error loading contract addresses:', err)
       setError(err instanceof Error ? err.message : 'Failed to load contract addresses')
       setAddresses(null)
       setAssetMapping({})
     } finally {
-      setIsLoading(false)
+      if (isLatest()) setIsLoading(false)
     }
-  }, [])
+  }, [chainId, deployment])
 
   // Cargar direcciones al montar el componente y cuando cambie la chain
   useEffect(() => {
     loadAddresses()
-  }, [chainId, loadAddresses])
+  }, [loadAddresses])
 
   // ===================================
   // 🛠️ FUNCIONES AUXILIARES
@@ -204,6 +230,7 @@ export function useContractAddresses() {
     if (addresses?.mockUSDC && normalized === addresses.mockUSDC.toLowerCase()) return 'USDC'
     if (addresses?.mockWBTC && normalized === addresses.mockWBTC.toLowerCase()) return 'WBTC'
     if (addresses?.vcopToken && normalized === addresses.vcopToken.toLowerCase()) return 'VCOP'
+    if (addresses?.mockWGOLD && addresses.mockWGOLD !== zeroAddress && normalized === addresses.mockWGOLD.toLowerCase()) return 'WGOLD'
     
     console.warn(`⚠️ Unknown asset address: ${assetAddress}`)
     return 'Unknown'
@@ -222,7 +249,8 @@ export function useContractAddresses() {
       'ETH': { symbol: 'ETH', name: 'Mock Ethereum', decimals: 18 },
       'USDC': { symbol: 'USDC', name: 'Mock USD Coin', decimals: 6 },
       'WBTC': { symbol: 'WBTC', name: 'Mock Wrapped Bitcoin', decimals: 8 },
-      'VCOP': { symbol: 'VCOP', name: 'VCOP Token', decimals: 18 }
+      'VCOP': { symbol: 'VCOP', name: 'VCOP Token', decimals: 18 },
+      'WGOLD': { symbol: 'WGOLD', name: 'Mock Wrapped Gold', decimals: 18 }
     }
 
     const info = tokenInfoMap[symbol]
@@ -244,10 +272,26 @@ export function useContractAddresses() {
       { address: addresses.mockETH, symbol: 'ETH' },
       { address: addresses.mockUSDC, symbol: 'USDC' },
       { address: addresses.mockWBTC, symbol: 'WBTC' },
-      { address: addresses.vcopToken, symbol: 'VCOP' }
-    ].filter(token => token.address)
+      { address: addresses.vcopToken, symbol: 'VCOP' },
+      { address: addresses.mockWGOLD, symbol: 'WGOLD' }
+    ].filter(token => token.address && token.address !== zeroAddress)
   }, [addresses])
 
+  /**
+   * Obtener la dirección de un token por su símbolo (null si no está desplegado en esta red)
+   */
+  const getTokenAddress = useCallback((symbol: string): Address | null => {
+    const token = getAllTokenAddresses().find(t => t.symbol === symbol.toUpperCase())
+    return token ? token.address : null
+  }, [getAllTokenAddresses])
+
+  /**
+   * Verificar si un asset tiene contrato configurado (p. ej. WGOLD puede no estar desplegado)
+   */
+  const isAssetAvailable = useCallback((symbol: string): boolean => {
+    return getTokenAddress(symbol) !== null
+  }, [getTokenAddress])
+
   /**
    * Validar si una dirección es válida
    */
@@ -273,8 +317,15 @@ export function useContractAddresses() {
     getAssetSymbol,
     getTokenInfo,
     getAllTokenAddresses,
+    getTokenAddress,
+    isAssetAvailable,
     isValidAddress,
     
+    // Red activa
+    chainId,
+    deployment,
+    isUnsupportedNetwork: !deployment,
+    
     // Helpers para casos comunes
     isReady: !isLoading && !error && !!addresses,
     
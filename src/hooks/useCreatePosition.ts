@@ -17,31 +17,27 @@ import {
 import { 
   formatUnits, 
   parseUnits,
+  zeroAddress,
   type Address,
   type Hash
 } from 'viem'
-import { readContract } from 'wagmi/actions'
+import { readContract, simulateContract } from 'wagmi/actions'
 
 // Importar ABIs
-import FlexibleLoanManagerABI from '../Abis/FlexibleLoanManager.json'
-import MockVCOPOracleABI from '../Abis/MockVCOPOracle.json'
+import { ERC20_ABI, FLEXIBLE_LOAN_MANAGER_ABI, MOCK_VCOP_ORACLE_ABI } from '../Abis'
+import type { LoanTerms } from '../utils/contracts'
+import { decodeTransactionError, type DecodedTransactionError } from '../utils/errorDecoder'
 
 // Importar hook centralizado de direcciones
 import useContractAddresses from './useContractAddresses'
+import { useTransactionManager } from './useTransactionManager'
 
 // ===================================
 // 🔧 TIPOS PRINCIPALES
 // ===================================
 
-export interface LoanTerms {
-  collateralAsset: Address
-  loanAsset: Address  
-  collateralAmount: bigint
-  loanAmount: bigint
-  maxLoanToValue: bigint    // 6 decimals (800000 = 80%)
-  interestRate: bigint      // 6 decimals (80000 = 8% APR)
-  duration: bigint          // 0 = perpetual loan
-}
+// Struct generado desde el ABI de FlexibleLoanManager.createLoan
+export type { LoanTerms }
 
 export interface CreatePositionParams {
   collateralAsset?: Address
@@ -56,6 +52,7 @@ export interface CreatePositionParams {
 export interface CreatePositionState {
   isLoading: boolean
   error: string | null
+  errorDetails: DecodedTransactionError | null // Error de transacción clasificado (con acción sugerida)
   success: boolean
   positionId: bigint | null
   txHash: Hash | null
@@ -86,43 +83,6 @@ export interface LoanValidation {
 // 📋 ABIs (SIMPLIFICADOS)
 // ===================================
 
-const ERC20_ABI = [
-  {
-    name: 'approve',
-    type: 'function',
-    stateMutability: 'nonpayable',
-    inputs: [
-      { name: 'spender', type: 'address' },
-      { name: 'amount', type: 'uint256' }
-    ],
-    outputs: [{ name: '', type: 'bool' }]
-  },
-  {
-    name: 'allowance',
-    type: 'function', 
-    stateMutability: 'view',
-    inputs: [
-      { name: 'owner', type: 'address' },
-      { name: 'spender', type: 'address' }
-    ],
-    outputs: [{ name: '', type: 'uint256' }]
-  },
-  {
-    name: 'balanceOf',
-    type: 'function',
-    stateMutability: 'view',
-    inputs: [{ name: 'account', type: 'address' }],
-    outputs: [{ name: '', type: 'uint256' }]
-  },
-  {
-    name: 'decimals',
-    type: 'function',
-    stateMutability: 'view',
-    inputs: [],
-    outputs: [{ name: '', type: 'uint8' }]
-  }
-] as const
-
 // ===================================
 // 🚀 HOOK PRINCIPAL
 // ===================================
@@ -136,6 +96,7 @@ export function useCreatePosition({
   const [state, setState] = useState<CreatePositionState>({
     isLoading: false,
     error: null,
+    errorDetails: null,
     success: false,
     positionId: null,
     txHash: null,
@@ -170,6 +131,13 @@ export function useCreatePosition({
     query: { enabled: !!address && autoVerifyBalances && !!addresses?.mockUSDC }
   })
 
+  const isWgoldConfigured = !!addresses?.mockWGOLD && addresses.mockWGOLD !== zeroAddress
+  const { data: wgoldBalance, refetch: refetchWGOLDBalance } = useBalance({
+    address,
+    token: isWgoldConfigured ? addresses?.mockWGOLD : undefined,
+    query: { enabled: !!address && autoVerifyBalances && isWgoldConfigured }
+  })
+
   // Write contracts usando wagmi v2
   const { 
     writeContract: approve,
@@ -185,6 +153,17 @@ export function useCreatePosition({
     error: createLoanError
   } = useWriteContract()
 
+  // Registrar cada hash enviado en el gestor de transacciones
+  const { trackTransaction } = useTransactionManager()
+
+  useEffect(() => {
+    if (approveHash) trackTransaction({ hash: approveHash, purpose: 'approve', description: 'Collateral for FlexibleLoanManager' })
+  }, [approveHash, trackTransaction])
+
+  useEffect(() => {
+    if (createLoanHash) trackTransaction({ hash: createLoanHash, purpose: 'create-position' })
+  }, [createLoanHash, trackTransaction])
+
   // Wait for confirmations
   const { isLoading: isApproveConfirming, isSuccess: isApproveSuccess } = useWaitForTransactionReceipt({
     hash: approveHash
@@ -206,7 +185,7 @@ export function useCreatePosition({
    */
   const { data: ethPrice } = useReadContract({
     address: addresses?.mockVcopOracle,
-    abi: MockVCOPOracleABI,
+    abi: MOCK_VCOP_ORACLE_ABI,
     functionName: 'getPrice',
     args: addresses?.mockETH && addresses?.mockUSDC ? [addresses.mockETH, addresses.mockUSDC] : undefined,
     query: { enabled: !!addresses?.mockVcopOracle && !!addresses?.mockETH && !!addresses?.mockUSDC }
@@ -214,7 +193,7 @@ export function useCreatePosition({
 
   const { data: usdcPrice } = useReadContract({
     address: addresses?.mockVcopOracle,
-    abi: MockVCOPOracleABI,
+    abi: MOCK_VCOP_ORACLE_ABI,
     functionName: 'getPrice',
     args: addresses?.mockUSDC && addresses?.mockUSDC ? [addresses.mockUSDC, addresses.mockUSDC] : undefined,
     query: { enabled: !!addresses?.mockVcopOracle && !!addresses?.mockUSDC }
@@ -231,7 +210,7 @@ export function useCreatePosition({
     // Obtener precio del oracle (en 6 decimales)
     const price = await readContract(config, {
       address: addresses.mockVcopOracle,
-      abi: MockVCOPOracleABI,
+      abi: MOCK_VCOP_ORACLE_ABI,
       functionName: 'getPrice',
       args: [assetAddress, addresses.mockUSDC]
     })
@@ -252,7 +231,8 @@ export function useCreatePosition({
     // Obtener símbolo del asset
     const symbol = assetAddress === addresses.mockETH ? 'ETH' : 
                    assetAddress === addresses.mockUSDC ? 'USDC' : 
-                   assetAddress === addresses.mockWBTC ? 'WBTC' : 'Unknown'
+                   assetAddress === addresses.mockWBTC ? 'WBTC' :
+                   assetAddress === addresses.mockWGOLD ? 'WGOLD' : 'Unknown'
 
     return {
       price: price as bigint,
@@ -400,6 +380,7 @@ export function useCreatePosition({
     // Obtener decimales del asset de collateral
     const isETH = collateralAsset === addresses.mockETH
     const isUSDC = collateralAsset === addresses.mockUSDC
+    const isWGOLD = isWgoldConfigured && collateralAsset === addresses.mockWGOLD
     
     console.log('🔍 checkBalances - collateralAsset:', collateralAsset)
     console.log('🔍 checkBalances - addresses.mockETH:', addresses.mockETH)  
@@ -450,6 +431,17 @@ export function useCreatePosition({
           message: `Need ${displayAmount} USDC for collateral, have ${formatUnits(usdcBalance.value, 6)} USDC`
         }
       }
+    } else if (isWGOLD) {
+      if (!wgoldBalance) {
+        return { valid: false, message: 'WGOLD balance not loaded' }
+      }
+
+      if (wgoldBalance.value < collateralAmountBigint) {
+        return {
+          valid: false,
+          message: `Need ${displayAmount} WGOLD for collateral, have ${formatUnits(wgoldBalance.value, 18)} WGOLD`
+        }
+      }
     } else {
       // Para otros assets, solo advertir que no podemos verificar balance
       console.log('⚠️ Cannot verify balance for unknown collateral asset:', collateralAsset)
@@ -457,7 +449,7 @@ export function useCreatePosition({
     }
     
     return { valid: true, message: 'Collateral balance sufficient' }
-  }, [ethBalance, usdcBalance, autoVerifyBalances, addresses])
+  }, [ethBalance, usdcBalance, wgoldBalance, isWgoldConfigured, autoVerifyBalances, addresses])
 
   // ===================================
   // 🛠️ FUNCIONES UTILITARIAS
@@ -471,6 +463,7 @@ export function useCreatePosition({
     setState({
       isLoading: false,
       error: null,
+      errorDetails: null,
       success: false,
       positionId: null,
       txHash: null,
@@ -484,6 +477,30 @@ export function useCreatePosition({
     pendingLoanTermsRef.current = null
   }, [])
 
+  /**
+   * Simula createLoan con la allowance ya concedida y, si no revierte, lo envía
+   */
+  const simulateAndCreateLoan = useCallback(async (terms: LoanTerms) => {
+    if (!addresses || !address) {
+      throw new Error('Wallet or contract addresses not available')
+    }
+
+    await simulateContract(config, {
+      address: addresses.flexibleLoanManager,
+      abi: FLEXIBLE_LOAN_MANAGER_ABI,
+      functionName: 'createLoan',
+      args: [terms],
+      account: address
+    })
+
+    createLoan({
+      address: addresses.flexibleLoanManager,
+      abi: FLEXIBLE_LOAN_MANAGER_ABI,
+      functionName: 'createLoan',
+      args: [terms]
+    })
+  }, [config, addresses, address, createLoan])
+
   // ===================================
   // 🎯 FUNCIÓN PRINCIPAL - MEJORADA CON FLUJO AUTOMÁTICO
   // ===================================
@@ -503,6 +520,7 @@ export function useCreatePosition({
       updateState({ 
         isLoading: true, 
         error: null, 
+        errorDetails: null,
         step: 'checking',
         success: false,
         transactionStep: 0
@@ -623,23 +641,20 @@ export function useCreatePosition({
         
         console.log('💰 Creating loan directly (1/1)...')
         
-        createLoan({
-          address: addresses.flexibleLoanManager,
-          abi: FlexibleLoanManagerABI,
-          functionName: 'createLoan',
-          args: [finalTerms]
-        })
+        await simulateAndCreateLoan(finalTerms)
       }
 
     } catch (error) {
       console.error('💥 Error creating position:', error)
+      const decoded = decodeTransactionError(error)
       updateState({
-        error: error instanceof Error ? error.message : 'Unknown error',
+        error: decoded.message,
+        errorDetails: decoded,
         isLoading: false,
         step: 'idle'
       })
     }
-  }, [isConnected, address, addresses, validateLoanTerms, checkBalances, approve, createLoan])
+  }, [isConnected, address, addresses, validateLoanTerms, checkBalances, approve, simulateAndCreateLoan])
 
   // ===================================
   // 🔄 EFECTOS MEJORADOS PARA MANEJAR FLUJO AUTOMÁTICO
@@ -659,14 +674,19 @@ export function useCreatePosition({
       // 🆕 USAR LOS TÉRMINOS GUARDADOS (NO HARDCODEADOS)
       const savedTerms = pendingLoanTermsRef.current
 
-      createLoan({
-        address: addresses.flexibleLoanManager,
-        abi: FlexibleLoanManagerABI,
-        functionName: 'createLoan',
-        args: [savedTerms]
+      simulateAndCreateLoan(savedTerms).catch(error => {
+        console.error('❌ Create loan simulation failed:', error)
+        const decoded = decodeTransactionError(error)
+        updateState({
+          error: `Create loan failed: ${decoded.message}`,
+          errorDetails: decoded,
+          isLoading: false,
+          step: 'idle'
+        })
+        pendingLoanTermsRef.current = null
       })
     }
-  }, [isApproveSuccess, state.step, createLoan, addresses, approveHash])
+  }, [isApproveSuccess, state.step, simulateAndCreateLoan, addresses, approveHash])
 
   // Manejar confirmación de createLoan
   useEffect(() => {
@@ -689,8 +709,10 @@ export function useCreatePosition({
   useEffect(() => {
     if (approveError) {
       console.error('❌ Approve failed:', approveError)
+      const decoded = decodeTransactionError(approveError)
       updateState({
-        error: `Approve failed: ${approveError.message}`,
+        error: `Approve failed: ${decoded.message}`,
+        errorDetails: decoded,
         isLoading: false,
         step: 'idle'
       })
@@ -702,8 +724,10 @@ export function useCreatePosition({
   useEffect(() => {
     if (createLoanError) {
       console.error('❌ Create loan failed:', createLoanError)
+      const decoded = decodeTransactionError(createLoanError)
       updateState({
-        error: `Create loan failed: ${createLoanError.message}`,
+        error: `Create loan failed: ${decoded.message}`,
+        errorDetails: decoded,
         isLoading: false,
         step: 'idle'
       })
@@ -725,6 +749,7 @@ export function useCreatePosition({
     if (collateralAsset === addresses.mockETH) return 80  // ETH es relativamente estable
     if (collateralAsset === addresses.mockUSDC) return 90 // USDC es estable
     if (collateralAsset === addresses.mockWBTC) return 75 // BTC es volátil
+    if (collateralAsset === addresses.mockWGOLD) return 80 // El oro tiene baja volatilidad
     
     return 70 // Conservador para otros assets
   }, [addresses])
@@ -800,6 +825,11 @@ export function useCreatePosition({
         value: usdcBalance.value,
         formatted: formatUnits(usdcBalance.value, 6),
         sufficient: true
+      } : null,
+      wgold: wgoldBalance ? {
+        value: wgoldBalance.value,
+        formatted: formatUnits(wgoldBalance.value, 18),
+        sufficient: true
       } : null
     },
     
@@ -830,6 +860,7 @@ export function useCreatePosition({
     refetchBalances: () => {
       refetchETHBalance()
       refetchUSDCBalance()
+      if (isWgoldConfigured) refetchWGOLDBalance()
     }
   }
 }
@@ -0,0 +1,133 @@
+/**
+ * @fileoverview useDeploymentDiagnostics.ts
+ * @description Hook para diagnosticar el manifiesto de despliegue de la red activa
+ * @version 2025 - Compatible con wagmi v2.x y viem v2.x
+ *
+ * Funcionalidades:
+ * - Cargar el manifiesto de la red activa desde el registro de despliegues
+ * - Validar forma, checksum y direcciones cero de cada contrato
+ * - Confirmar que existe bytecode en cada dirección en la chain activa
+ */
+
+import { useState, useEffect, useCallback, useRef } from 'react'
+import { useChainId, usePublicClient } from 'wagmi'
+import { getDeployment, type NetworkDeployment } from '../config/deployments'
+import {
+  validateManifest,
+  checkManifestBytecode,
+  type ManifestEntry,
+  type ManifestIssue
+} from '../utils/manifestValidator'
+
+// ===================================
+// 🔧 TIPOS
+// ===================================
+
+export interface DeploymentDiagnostics {
+  deployment: NetworkDeployment | null
+  entries: ManifestEntry[]
+  issues: ManifestIssue[]
+  missingBytecode: Set<string>   // Paths sin contrato desplegado
+  bytecodeChecked: boolean
+  checkedAt: Date | null
+}
+
+const EMPTY_DIAGNOSTICS: DeploymentDiagnostics = {
+  deployment: null,
+  entries: [],
+  issues: [],
+  missingBytecode: new Set(),
+  bytecodeChecked: false,
+  checkedAt: null
+}
+
+// ===================================
+// 🎯 HOOK PRINCIPAL
+// ===================================
+
+export function useDeploymentDiagnostics() {
+  const chainId = useChainId()
+  const publicClient = usePublicClient()
+  const deployment = getDeployment(chainId)
+
+  const [diagnostics, setDiagnostics] = useState<DeploymentDiagnostics>(EMPTY_DIAGNOSTICS)
+  const [isLoading, setIsLoading] = useState(false)
+  const [error, setError] = useState<string | null>(null)
+  const latestRunRef = useRef(0)
+
+  const runDiagnostics = useCallback(async () => {
+    const runId = ++latestRunRef.current
+    const isLatest = () => runId === latestRunRef.current
+
+    setIsLoading(true)
+    setError(null)
+
+    try {
+      if (!deployment) {
+        setDiagnostics({
+          ...EMPTY_DIAGNOSTICS,
+          issues: [{ severity: 'error', path: '(network)', message: `No deployment registered for chain ID ${chainId}` }],
+          checkedAt: new Date()
+        })
+        return
+      }
+
+      const response = await fetch(deployment.manifestUrl)
+      if (!response.ok) {
+        throw new Error(`Failed to load ${deployment.manifestUrl}: ${response.status} ${response.statusText}`)
+      }
+
+      const validation = validateManifest(await response.json())
+      if (!isLatest()) return
+
+      // Publicar la validación estructural mientras se consulta el bytecode
+      setDiagnostics({
+        deployment,
+        entries: validation.entries,
+        issues: validation.issues,
+        missingBytecode: new Set(),
+        bytecodeChecked: false,
+        checkedAt: new Date()
+      })
+
+      if (!publicClient) return
+
+      const bytecode = await checkManifestBytecode(publicClient, validation.entries)
+      if (!isLatest()) return
+
+      setDiagnostics({
+        deployment,
+        entries: validation.entries,
+        issues: [...validation.issues, ...bytecode.issues],
+        missingBytecode: bytecode.missing,
+        bytecodeChecked: true,
+        checkedAt: new Date()
+      })
+    } catch (err) {
+      if (!isLatest()) return
+      console.error('Error running deployment diagnostics:', err)
+      setError(err instanceof Error ? err.message : 'Failed to run deployment diagnostics')
+    } finally {
+      if (isLatest()) setIsLoading(false)
+    }
+  }, [chainId, deployment, publicClient])
+
+  useEffect(() => {
+    runDiagnostics()
+  }, [runDiagnostics])
+
+  const errorCount = diagnostics.issues.filter(issue => issue.severity === 'error').length
+  const warningCount = diagnostics.issues.filter(issue => issue.severity === 'warning').length
+
+  return {
+    diagnostics,
+    errorCount,
+    warningCount,
+    isHealthy: !error && errorCount === 0,
+    isLoading,
+    error,
+    refresh: runDiagnostics
+  }
+}
+
+export default useDeploymentDiagnostics
@@ -0,0 +1,246 @@
+/**
+ * @fileoverview useIncreaseLoan.ts
+ * @description Hook para pedir prestado más contra una posición existente (wagmi v2 + viem v2)
+ * @version 2025 - Compatible con wagmi v2.x y viem v2.x
+ *
+ * Funcionalidades:
+ * - Leer la liquidez disponible con getMaxBorrowAmount
+ * - Previsualizar LTV y health factor después del préstamo usando useRiskCalculator
+ * - Ejecutar increaseLoan con el mismo tracking de pasos que CreatePositionState
+ */
+
+import { useState, useCallback, useMemo } from 'react'
+import { useAccount, useReadContract, useWriteContract, usePublicClient } from 'wagmi'
+import { parseEventLogs, type Hash } from 'viem'
+
+import { FLEXIBLE_LOAN_MANAGER_ABI } from '../Abis'
+import { useContractAddresses } from './useContractAddresses'
+import { useTransactionManager } from './useTransactionManager'
+import { useRiskCalculator } from './useRiskCalculator'
+import type { PositionData } from './useUserPositions'
+import { formatTransactionError } from '../utils/errorDecoder'
+
+// ===================================
+// 🏗️ INTERFACES Y TIPOS
+// ===================================
+
+export interface IncreaseLoanParams {
+  positionData: PositionData | null
+  collateralSymbol: string
+  loanSymbol: string
+  additionalAmount: bigint   // En unidades base del loan asset
+  onConfirmed?: (positionId: bigint) => void
+}
+
+export interface IncreaseLoanState {
+  isLoading: boolean
+  error: string | null
+  success: boolean
+  txHash: Hash | null
+  step: 'idle' | 'checking' | 'validating' | 'borrowing' | 'completed'
+  transactionStep: number     // 0: inicial, 1: increaseLoan
+  totalTransactions: number   // increaseLoan no requiere approve
+}
+
+const INITIAL_STATE: IncreaseLoanState = {
+  isLoading: false,
+  error: null,
+  success: false,
+  txHash: null,
+  step: 'idle',
+  transactionStep: 0,
+  totalTransactions: 1
+}
+
+// ===================================
+// 🎯 HOOK PRINCIPAL: useIncreaseLoan
+// ===================================
+
+export function useIncreaseLoan({
+  positionData,
+  collateralSymbol,
+  loanSymbol,
+  additionalAmount,
+  onConfirmed
+}: IncreaseLoanParams) {
+  const { address } = useAccount()
+  const publicClient = usePublicClient()
+  const { addresses } = useContractAddresses()
+  const { writeContractAsync } = useWriteContract()
+  const { trackTransaction } = useTransactionManager()
+
+  const [state, setState] = useState<IncreaseLoanState>(INITIAL_STATE)
+
+  const updateState = useCallback((updates: Partial<IncreaseLoanState>) => {
+    setState(prev => ({ ...prev, ...updates }))
+  }, [])
+
+  const resetState = useCallback(() => {
+    setState(INITIAL_STATE)
+  }, [])
+
+  // ===================================
+  // 🔍 LIQUIDEZ DISPONIBLE
+  // ===================================
+
+  // getMaxBorrowAmount solo depende de la liquidez del loan asset (sin límites de ratio)
+  const {
+    data: maxBorrowData,
+    refetch: refetchMaxBorrow,
+    isLoading: isLoadingMaxBorrow
+  } = useReadContract({
+    address: addresses?.flexibleLoanManager,
+    abi: FLEXIBLE_LOAN_MANAGER_ABI,
+    functionName: 'getMaxBorrowAmount',
+    args: positionData
+      ? [positionData.position.collateralAsset, positionData.position.loanAsset, positionData.position.collateralAmount]
+      : undefined,
+    query: {
+      enabled: Boolean(addresses?.flexibleLoanManager && positionData),
+      refetchOnWindowFocus: false,
+      staleTime: 15000
+    }
+  })
+
+  const maxBorrowAmount = maxBorrowData ?? 0n
+
+  // ===================================
+  // 🧮 PREVISUALIZACIÓN DE RIESGO
+  // ===================================
+
+  const interestRate = positionData
+    ? (Number(positionData.position.interestRate) / 10000).toString()
+    : undefined
+
+  const { riskMetrics: currentRisk } = useRiskCalculator({
+    collateralAsset: collateralSymbol,
+    loanAsset: loanSymbol,
+    collateralAmount: positionData?.position.collateralAmount.toString(),
+    loanAmount: positionData?.totalDebt.toString(),
+    interestRate
+  })
+
+  const projectedDebt = positionData ? positionData.totalDebt + additionalAmount : 0n
+
+  const { riskMetrics: projectedRisk, formatHealthFactor, formatCollateralizationRatio } = useRiskCalculator({
+    collateralAsset: collateralSymbol,
+    loanAsset: loanSymbol,
+    collateralAmount: positionData?.position.collateralAmount.toString(),
+    loanAmount: projectedDebt > 0n ? projectedDebt.toString() : undefined,
+    interestRate
+  })
+
+  const preview = useMemo(() => {
+    const toLtv = (ratio?: number) => (ratio && ratio > 0 ? 100000000 / ratio : 0)
+
+    return {
+      currentLtv: toLtv(currentRisk?.collateralizationRatio),
+      projectedLtv: toLtv(projectedRisk?.collateralizationRatio),
+      currentHealthFactor: currentRisk?.healthFactor ?? null,
+      projectedHealthFactor: projectedRisk?.healthFactor ?? null,
+      projectedRiskLevel: projectedRisk?.riskLevel ?? null,
+      exceedsLiquidity: additionalAmount > maxBorrowAmount,
+      isTheoreticallyLiquidatable: projectedRisk?.isTheoreticallyLiquidatable ?? false
+    }
+  }, [currentRisk, projectedRisk, additionalAmount, maxBorrowAmount])
+
+  // ===================================
+  // ✍️ EJECUCIÓN
+  // ===================================
+
+  const increaseLoan = useCallback(async () => {
+    if (!positionData) return
+    if (!addresses?.flexibleLoanManager || !address || !publicClient) {
+      updateState({ error: 'Contract addresses not loaded or wallet not connected' })
+      return
+    }
+
+    const { positionId } = positionData
+
+    try {
+      setState({ ...INITIAL_STATE, isLoading: true, step: 'checking' })
+
+      if (additionalAmount <= 0n) {
+        throw new Error('Amount must be greater than 0')
+      }
+
+      // Step 1: Verificar liquidez disponible con datos frescos
+      const { data: freshMaxBorrow } = await refetchMaxBorrow()
+      if ((freshMaxBorrow ?? 0n) < additionalAmount) {
+        throw new Error('Insufficient liquidity in the vault for this amount')
+      }
+
+      // Step 2: Simular antes de enviar
+      updateState({ step: 'validating' })
+      await publicClient.simulateContract({
+        address: addresses.flexibleLoanManager,
+        abi: FLEXIBLE_LOAN_MANAGER_ABI,
+        functionName: 'increaseLoan',
+        args: [positionId, additionalAmount],
+        account: address
+      })
+
+      // Step 3: Ejecutar increaseLoan (1/1)
+      updateState({ step: 'borrowing', transactionStep: 1 })
+      const txHash = await writeContractAsync({
+        address: addresses.flexibleLoanManager,
+        abi: FLEXIBLE_LOAN_MANAGER_ABI,
+        functionName: 'increaseLoan',
+        args: [positionId, additionalAmount]
+      })
+      trackTransaction({ hash: txHash, purpose: 'increase-loan', positionId })
+      updateState({ txHash })
+
+      const receipt = await publicClient.waitForTransactionReceipt({ hash: txHash })
+      const increased = parseEventLogs({
+        abi: FLEXIBLE_LOAN_MANAGER_ABI,
+        eventName: 'LoanIncreased',
+        logs: receipt.logs
+      })
+
+      if (receipt.status !== 'success' || increased.length === 0) {
+        throw new Error('Transaction was mined but LoanIncreased was not emitted')
+      }
+
+      console.log('🎉 Loan increased for position', positionId.toString())
+      updateState({ step: 'completed', success: true, isLoading: false })
+      refetchMaxBorrow()
+      onConfirmed?.(positionId)
+    } catch (error) {
+      console.error('💥 Increase loan error:', error)
+      const message = error instanceof Error ? error.message : 'Unknown error'
+      updateState({
+        error: message.includes('User rejected') || message.includes('User denied')
+          ? 'Transaction cancelled by user'
+          : message.includes('Insufficient liquidity')
+            ? 'Insufficient liquidity in the vault for this amount'
+            : formatTransactionError(error),
+        isLoading: false,
+        step: 'idle',
+        transactionStep: 0
+      })
+    }
+  }, [positionData, addresses, address, publicClient, additionalAmount, refetchMaxBorrow, writeContractAsync, trackTransaction, updateState, onConfirmed])
+
+  return {
+    ...state,
+
+    // Funciones principales
+    increaseLoan,
+    resetState,
+
+    // Liquidez
+    maxBorrowAmount,
+    isLoadingMaxBorrow,
+    refetchMaxBorrow,
+
+    // Previsualización
+    currentRisk,
+    projectedRisk,
+    preview,
+    formatHealthFactor,
+    formatCollateralizationRatio
+  }
+}
+
+export default useIncreaseLoan
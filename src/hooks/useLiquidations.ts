@@ -0,0 +1,472 @@
+/**
+ * @fileoverview useLiquidations.ts
+ * @description Hook para liquidadores: recorrer posiciones, filtrar las liquidables y ejecutar liquidatePosition
+ * @version 2025 - Compatible con wagmi v2.x y viem v2.x
+ *
+ * Funcionalidades:
+ * - Paginar todas las posiciones activas con getPositionsInRange
+ * - Detectar posiciones liquidables (canLiquidate) y en riesgo (adapter.getPositionsAtRisk)
+ * - Estimar el bonus del liquidador en el loan asset y en USD
+ * - Ejecutar liquidatePosition aprobando al asset handler del loan asset cuando haga falta
+ */
+
+import { useState, useCallback, useMemo } from 'react'
+import { useAccount, useReadContract, useReadContracts, useWriteContract, usePublicClient } from 'wagmi'
+import { formatUnits, parseEventLogs, type Address, type Hash } from 'viem'
+
+import { ERC20_ABI, FLEXIBLE_LOAN_MANAGER_ABI, LOAN_MANAGER_AUTOMATION_ADAPTER_ABI, VAULT_BASED_HANDLER_ABI } from '../Abis'
+import { useContractAddresses } from './useContractAddresses'
+import { useTransactionManager } from './useTransactionManager'
+import { flexibleLoanManagerContract } from '../utils/contracts'
+import { useOraclePrices, type OraclePrices } from './useOraclePrices'
+import type { LoanPosition } from './useUserPositions'
+import { formatTransactionError } from '../utils/errorDecoder'
+import { projectAccruedInterest, QUOTE_VALIDITY_SECONDS } from './useRepayment'
+
+// Rango de IDs que se escanea por página
+export const LIQUIDATION_PAGE_SIZE = 25
+
+// Opciones compartidas por los batches de lectura de posiciones
+const POSITION_READ_QUERY = {
+  refetchOnWindowFocus: false,
+  staleTime: 15000
+} as const
+
+// ===================================
+// 🏗️ INTERFACES Y TIPOS
+// ===================================
+
+export interface LiquidationCandidate {
+  positionId: bigint
+  position: LoanPosition
+  collateralSymbol: string
+  loanSymbol: string
+  collateralDecimals: number
+  loanDecimals: number
+  totalDebt: bigint
+  collateralizationRatio: bigint   // 6 decimales (1000000 = 100%)
+  canLiquidate: boolean
+  isAtRisk: boolean                // Marcada por el adapter de automatización
+  collateralToLiquidator: bigint   // Colateral que recibe el liquidador
+  expectedBonus: number            // Beneficio neto en unidades del loan asset
+  expectedBonusUSD: number
+}
+
+export interface LiquidationState {
+  step: 'idle' | 'approving' | 'liquidating' | 'confirming' | 'completed'
+  positionId: bigint | null
+  txHash: Hash | null
+  error: string | null
+}
+
+export interface LiquidationResult {
+  success: boolean
+  txHash?: Hash
+  error?: string
+}
+
+const INITIAL_LIQUIDATION_STATE: LiquidationState = {
+  step: 'idle',
+  positionId: null,
+  txHash: null,
+  error: null
+}
+
+// ===================================
+// 🎯 HOOK PRINCIPAL: useLiquidations
+// ===================================
+
+export function useLiquidations() {
+  const { address } = useAccount()
+  const publicClient = usePublicClient()
+  const { addresses, getAssetSymbol, getTokenInfo } = useContractAddresses()
+  const { prices } = useOraclePrices()
+  const { writeContractAsync } = useWriteContract()
+  const { trackTransaction } = useTransactionManager()
+
+  const [page, setPage] = useState(0)
+  const [liquidationState, setLiquidationState] = useState<LiquidationState>(INITIAL_LIQUIDATION_STATE)
+
+  const loanManager = addresses?.flexibleLoanManager
+  const loanAdapter = addresses?.loanAdapter
+
+  // ===================================
+  // 🔍 PARÁMETROS GLOBALES
+  // ===================================
+
+  const {
+    data: globalData,
+    refetch: refetchGlobal
+  } = useReadContracts({
+    contracts: loanManager
+      ? [
+          { address: loanManager, abi: FLEXIBLE_LOAN_MANAGER_ABI, functionName: 'nextPositionId' },
+          { address: loanManager, abi: FLEXIBLE_LOAN_MANAGER_ABI, functionName: 'liquidationBonus' }
+        ] as const
+      : undefined,
+    query: {
+      enabled: Boolean(loanManager),
+      refetchOnWindowFocus: false,
+      staleTime: 30000
+    }
+  })
+
+  const nextPositionId = globalData?.[0]?.result ?? 1n
+  const liquidationBonus = globalData?.[1]?.result ?? 0n
+  const totalPages = Math.max(1, Math.ceil(Number(nextPositionId - 1n) / LIQUIDATION_PAGE_SIZE))
+
+  // El adapter solo conoce las posiciones que tiene en tracking
+  const {
+    data: atRiskData,
+    refetch: refetchAtRisk
+  } = useReadContract({
+    address: loanAdapter,
+    abi: LOAN_MANAGER_AUTOMATION_ADAPTER_ABI,
+    functionName: 'getPositionsAtRisk',
+    query: {
+      enabled: Boolean(loanAdapter),
+      refetchOnWindowFocus: false,
+      staleTime: 30000
+    }
+  })
+
+  const atRiskIds = useMemo(() => {
+    const [ids] = atRiskData ?? [[], []]
+    return new Set(ids.map((id) => id.toString()))
+  }, [atRiskData])
+
+  // ===================================
+  // 📄 PÁGINA ACTUAL
+  // ===================================
+
+  const rangeStart = BigInt(1 + page * LIQUIDATION_PAGE_SIZE)
+  const rangeEnd = rangeStart + BigInt(LIQUIDATION_PAGE_SIZE - 1)
+
+  const {
+    data: pageIdsData,
+    refetch: refetchPageIds,
+    isLoading: isLoadingPageIds
+  } = useReadContract({
+    address: loanManager,
+    abi: FLEXIBLE_LOAN_MANAGER_ABI,
+    functionName: 'getPositionsInRange',
+    args: [rangeStart, rangeEnd],
+    query: {
+      enabled: Boolean(loanManager),
+      refetchOnWindowFocus: false,
+      staleTime: 15000
+    }
+  })
+
+  const pageIds = useMemo(() => pageIdsData ?? [], [pageIdsData])
+
+  // Un batch por función para que viem infiera el tipo de cada resultado
+  const positionReads = useMemo(() => {
+    if (!loanManager) return undefined
+
+    const contract = flexibleLoanManagerContract(loanManager)
+
+    return {
+      positions: pageIds.map((positionId) =>
+        ({ ...contract, functionName: 'getPosition', args: [positionId] } as const)),
+      debts: pageIds.map((positionId) =>
+        ({ ...contract, functionName: 'getTotalDebt', args: [positionId] } as const)),
+      ratios: pageIds.map((positionId) =>
+        ({ ...contract, functionName: 'getCollateralizationRatio', args: [positionId] } as const)),
+      liquidatable: pageIds.map((positionId) =>
+        ({ ...contract, functionName: 'canLiquidate', args: [positionId] } as const))
+    }
+  }, [loanManager, pageIds])
+
+  const positionReadsEnabled = Boolean(positionReads) && pageIds.length > 0
+
+  const { data: positionsData, refetch: refetchPositionData, isLoading: isLoadingPositions } = useReadContracts({
+    contracts: positionReads?.positions,
+    query: { ...POSITION_READ_QUERY, enabled: positionReadsEnabled }
+  })
+  const { data: debtsData, refetch: refetchDebts } = useReadContracts({
+    contracts: positionReads?.debts,
+    query: { ...POSITION_READ_QUERY, enabled: positionReadsEnabled }
+  })
+  const { data: ratiosData, refetch: refetchRatios } = useReadContracts({
+    contracts: positionReads?.ratios,
+    query: { ...POSITION_READ_QUERY, enabled: positionReadsEnabled }
+  })
+  const { data: liquidatableData, refetch: refetchLiquidatable } = useReadContracts({
+    contracts: positionReads?.liquidatable,
+    query: { ...POSITION_READ_QUERY, enabled: positionReadsEnabled }
+  })
+
+  // ===================================
+  // 🧮 ESTIMACIÓN DEL BONUS
+  // ===================================
+
+  const candidates = useMemo((): LiquidationCandidate[] => {
+    if (!positionsData) return []
+
+    const result: LiquidationCandidate[] = []
+
+    pageIds.forEach((positionId, i) => {
+      const position = positionsData[i]?.result
+      const totalDebt = debtsData?.[i]?.result ?? 0n
+      const collateralizationRatio = ratiosData?.[i]?.result ?? 0n
+      const canLiquidate = liquidatableData?.[i]?.result ?? false
+
+      if (!position || !position.isActive || totalDebt === 0n) return
+
+      const collateralSymbol = getAssetSymbol(position.collateralAsset)
+      const loanSymbol = getAssetSymbol(position.loanAsset)
+      const collateralDecimals = getTokenInfo(position.collateralAsset)?.decimals ?? 18
+      const loanDecimals = getTokenInfo(position.loanAsset)?.decimals ?? 18
+
+      // Misma fórmula que liquidatePosition, expresada en unidades del loan asset:
+      // collateralValue = debt * ratio, reward = min(debt + collateralValue * bonus, collateralValue)
+      const debt = parseFloat(formatUnits(totalDebt, loanDecimals))
+      const ratio = Number(collateralizationRatio) / 1000000
+      const collateralValue = debt * ratio
+      const bonus = Number(liquidationBonus) / 1000000
+      const liquidatorReward = Math.min(debt + collateralValue * bonus, collateralValue)
+      const expectedBonus = liquidatorReward - debt
+
+      const rewardShare = collateralValue > 0 ? liquidatorReward / collateralValue : 0
+      const collateralToLiquidator =
+        (position.collateralAmount * BigInt(Math.floor(rewardShare * 1000000))) / 1000000n
+
+      const loanPrice = prices[loanSymbol as keyof OraclePrices] ?? 0
+
+      result.push({
+        positionId,
+        position,
+        collateralSymbol,
+        loanSymbol,
+        collateralDecimals,
+        loanDecimals,
+        totalDebt,
+        collateralizationRatio,
+        canLiquidate,
+        isAtRisk: atRiskIds.has(positionId.toString()),
+        collateralToLiquidator,
+        expectedBonus,
+        expectedBonusUSD: expectedBonus * loanPrice
+      })
+    })
+
+    return result
+  }, [positionsData, debtsData, ratiosData, liquidatableData, pageIds, getAssetSymbol, getTokenInfo, liquidationBonus, prices, atRiskIds])
+
+  const refresh = useCallback(async () => {
+    await Promise.all([refetchGlobal(), refetchAtRisk(), refetchPageIds()])
+    await Promise.all([refetchPositionData(), refetchDebts(), refetchRatios(), refetchLiquidatable()])
+  }, [refetchGlobal, refetchAtRisk, refetchPageIds, refetchPositionData, refetchDebts, refetchRatios, refetchLiquidatable])
+
+  // ===================================
+  // ✍️ LIQUIDACIÓN
+  // ===================================
+
+  /**
+   * Detecta qué asset handler cobra la deuda del loan asset (es el que hace transferFrom al liquidador)
+   */
+  const detectLoanHandler = useCallback(async (token: Address): Promise<Address | null> => {
+    if (!addresses || !publicClient) return null
+
+    const handlers = [
+      addresses.vaultBasedHandler,
+      addresses.flexibleAssetHandler,
+      addresses.mintableBurnableHandler
+    ]
+
+    for (const handlerAddress of handlers) {
+      if (!handlerAddress) continue
+      try {
+        const isSupported = await publicClient.readContract({
+          address: handlerAddress,
+          abi: VAULT_BASED_HANDLER_ABI,
+          functionName: 'isAssetSupported',
+          args: [token]
+        })
+        if (isSupported) return handlerAddress
+      } catch (error) {
+        console.log(`Handler ${handlerAddress} check failed:`, error)
+      }
+    }
+
+    return null
+  }, [addresses, publicClient])
+
+  const liquidate = useCallback(async (candidate: LiquidationCandidate): Promise<LiquidationResult> => {
+    if (!loanManager || !address || !publicClient) {
+      return { success: false, error: 'Contract addresses not loaded or wallet not connected' }
+    }
+
+    const { positionId, position } = candidate
+
+    try {
+      setLiquidationState({ ...INITIAL_LIQUIDATION_STATE, positionId })
+
+      const stillLiquidatable = await publicClient.readContract({
+        address: loanManager,
+        abi: FLEXIBLE_LOAN_MANAGER_ABI,
+        functionName: 'canLiquidate',
+        args: [positionId]
+      })
+      if (!stillLiquidatable) throw new Error('Position is no longer liquidatable')
+
+      const [current, totalDebt, storedInterest, block] = await Promise.all([
+        publicClient.readContract({
+          address: loanManager,
+          abi: FLEXIBLE_LOAN_MANAGER_ABI,
+          functionName: 'getPosition',
+          args: [positionId]
+        }),
+        publicClient.readContract({
+          address: loanManager,
+          abi: FLEXIBLE_LOAN_MANAGER_ABI,
+          functionName: 'getTotalDebt',
+          args: [positionId]
+        }),
+        publicClient.readContract({
+          address: loanManager,
+          abi: FLEXIBLE_LOAN_MANAGER_ABI,
+          functionName: 'accruedInterest',
+          args: [positionId]
+        }),
+        publicClient.getBlock()
+      ])
+
+      // liquidatePosition ejecuta updateInterest() antes de cobrar la deuda: se aprueba la deuda
+      // proyectada al final de la ventana de firma, con la misma fórmula que el repago
+      const requiredAmount = current.loanAmount + projectAccruedInterest({
+        loanAmount: current.loanAmount,
+        interestRate: current.interestRate,
+        lastInterestUpdate: current.lastInterestUpdate,
+        storedInterest,
+        timestamp: Number(block.timestamp) + QUOTE_VALIDITY_SECONDS
+      })
+
+      const balance = await publicClient.readContract({
+        address: position.loanAsset,
+        abi: ERC20_ABI,
+        functionName: 'balanceOf',
+        args: [address]
+      })
+      if (balance < totalDebt) throw new Error(`Insufficient ${candidate.loanSymbol} balance to repay the debt`)
+
+      // liquidatePosition llama a loanHandler.repay(loanAsset, totalDebt, msg.sender)
+      const loanHandler = await detectLoanHandler(position.loanAsset)
+      if (!loanHandler) throw new Error('No asset handler found for the loan asset')
+
+      const allowance = await publicClient.readContract({
+        address: position.loanAsset,
+        abi: ERC20_ABI,
+        functionName: 'allowance',
+        args: [address, loanHandler]
+      })
+
+      if (allowance < requiredAmount) {
+        setLiquidationState(prev => ({ ...prev, step: 'approving' }))
+        const approveHash = await writeContractAsync({
+          address: position.loanAsset,
+          abi: ERC20_ABI,
+          functionName: 'approve',
+          args: [loanHandler, requiredAmount]
+        })
+        trackTransaction({ hash: approveHash, purpose: 'approve', positionId, description: 'Debt repayment for liquidation' })
+        const approveReceipt = await publicClient.waitForTransactionReceipt({ hash: approveHash })
+        if (approveReceipt.status !== 'success') {
+          throw new Error('Approval transaction reverted')
+        }
+      }
+
+      setLiquidationState(prev => ({ ...prev, step: 'liquidating' }))
+      await publicClient.simulateContract({
+        address: loanManager,
+        abi: FLEXIBLE_LOAN_MANAGER_ABI,
+        functionName: 'liquidatePosition',
+        args: [positionId],
+        account: address
+      })
+
+      const txHash = await writeContractAsync({
+        address: loanManager,
+        abi: FLEXIBLE_LOAN_MANAGER_ABI,
+        functionName: 'liquidatePosition',
+        args: [positionId]
+      })
+      trackTransaction({ hash: txHash, purpose: 'liquidate', positionId })
+      setLiquidationState(prev => ({ ...prev, step: 'confirming', txHash }))
+
+      const receipt = await publicClient.waitForTransactionReceipt({ hash: txHash })
+      const liquidated = parseEventLogs({
+        abi: FLEXIBLE_LOAN_MANAGER_ABI,
+        eventName: 'PositionLiquidated',
+        logs: receipt.logs
+      })
+
+      if (receipt.status !== 'success' || liquidated.length === 0) {
+        throw new Error('Transaction was mined but PositionLiquidated was not emitted')
+      }
+
+      console.log('⚡ Position liquidated:', positionId.toString())
+      setLiquidationState(prev => ({ ...prev, step: 'completed' }))
+      await refresh()
+      return { success: true, txHash }
+    } catch (error) {
+      const message = getLiquidationErrorMessage(error)
+      console.error('💥 Liquidation error:', error)
+      setLiquidationState(prev => ({ ...prev, step: 'idle', error: message }))
+      return { success: false, error: message }
+    }
+  }, [loanManager, address, publicClient, detectLoanHandler, writeContractAsync, trackTransaction, refresh])
+
+  const resetLiquidationState = useCallback(() => {
+    setLiquidationState(INITIAL_LIQUIDATION_STATE)
+  }, [])
+
+  return {
+    // 📊 Datos
+    candidates,
+    liquidatableCount: candidates.filter((c) => c.canLiquidate).length,
+    atRiskCount: atRiskIds.size,
+    liquidationBonus,
+
+    // 📄 Paginación
+    page,
+    totalPages,
+    setPage,
+
+    // 🔄 Estados
+    isLoading: isLoadingPageIds || isLoadingPositions,
+    ...liquidationState,
+    isLiquidating: liquidationState.step !== 'idle' && liquidationState.step !== 'completed',
+
+    // 🚀 Funciones
+    liquidate,
+    refresh,
+    resetLiquidationState
+  }
+}
+
+// ===================================
+// 🧮 FUNCIONES AUXILIARES
+// ===================================
+
+function getLiquidationErrorMessage(error: unknown): string {
+  const message = error instanceof Error ? error.message : String(error)
+
+  if (message.includes('User rejected') || message.includes('User denied')) {
+    return 'Transaction cancelled by user'
+  }
+  if (message.includes('Position not liquidatable')) {
+    return 'Position is no longer liquidatable'
+  }
+  if (message.includes('Position not active')) {
+    return 'Position has already been closed'
+  }
+  if (message.includes('Pausable: paused') || message.includes('EnforcedPause')) {
+    return 'The loan manager is paused'
+  }
+
+  return formatTransactionError(error)
+}
+
+export default useLiquidations
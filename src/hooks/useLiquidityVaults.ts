@@ -0,0 +1,457 @@
+/**
+ * @fileoverview useLiquidityVaults.ts
+ * @description Hook para el lado prestamista: proveer liquidez a los vaults de VaultBasedHandler
+ * @version 2025 - Compatible con wagmi v2.x y viem v2.x
+ *
+ * Funcionalidades:
+ * - Listar los vaults de cada asset soportado con utilización, APY y participación del usuario
+ * - Depositar liquidez (con aprobación del token cuando haga falta)
+ * - Retirar liquidez
+ * - Reclamar rewards de proveedor de liquidez
+ */
+
+import { useState, useCallback, useMemo } from 'react'
+import { useAccount, useReadContract, useReadContracts, useWriteContract, usePublicClient } from 'wagmi'
+import { formatUnits, parseEventLogs, zeroAddress, type Address, type Hash } from 'viem'
+
+import { ERC20_ABI, VAULT_BASED_HANDLER_ABI } from '../Abis'
+import { erc20Contract, vaultBasedHandlerContract } from '../utils/contracts'
+import { useContractAddresses } from './useContractAddresses'
+import { useTransactionManager } from './useTransactionManager'
+import { formatTransactionError } from '../utils/errorDecoder'
+
+// Opciones compartidas por los batches de lectura de vaults
+const VAULT_READ_QUERY = {
+  refetchOnWindowFocus: false,
+  staleTime: 15000
+} as const
+
+// ===================================
+// 🏗️ INTERFACES Y TIPOS
+// ===================================
+
+export interface VaultData {
+  token: Address
+  symbol: string
+  decimals: number
+  totalLiquidity: bigint
+  totalBorrowed: bigint
+  totalInterestAccrued: bigint
+  availableLiquidity: bigint
+  utilizationRate: number     // Porcentaje (0-100)
+  borrowApr: number           // Porcentaje, tasa que pagan los prestatarios
+  supplyApy: number           // Porcentaje, borrowApr * utilización
+  userProvided: bigint
+  userEarnedInterest: bigint
+  userPendingInterest: bigint
+  userShare: number           // Porcentaje del vault que pertenece al usuario
+  walletBalance: bigint
+  allowance: bigint
+}
+
+export interface LiquidityActionState {
+  step: 'idle' | 'approving' | 'depositing' | 'withdrawing' | 'claiming' | 'completed'
+  token: Address | null
+  txHash: Hash | null
+  error: string | null
+}
+
+export interface LiquidityActionResult {
+  success: boolean
+  txHash?: Hash
+  error?: string
+}
+
+const INITIAL_ACTION_STATE: LiquidityActionState = {
+  step: 'idle',
+  token: null,
+  txHash: null,
+  error: null
+}
+
+// ===================================
+// 🎯 HOOK PRINCIPAL: useLiquidityVaults
+// ===================================
+
+export function useLiquidityVaults() {
+  const { address } = useAccount()
+  const publicClient = usePublicClient()
+  const { addresses, getAllTokenAddresses, getTokenInfo, isReady } = useContractAddresses()
+  const { writeContractAsync } = useWriteContract()
+  const { trackTransaction } = useTransactionManager()
+
+  const [actionState, setActionState] = useState<LiquidityActionState>(INITIAL_ACTION_STATE)
+
+  const vaultHandler = addresses?.vaultBasedHandler
+  const candidateTokens = useMemo(() => getAllTokenAddresses(), [getAllTokenAddresses])
+
+  // ===================================
+  // 🔍 LECTURA DE VAULTS
+  // ===================================
+
+  // Un batch por función para que viem infiera el tipo de cada resultado
+  const user = address ?? zeroAddress
+  const handler = useMemo(() => vaultHandler ? vaultBasedHandlerContract(vaultHandler) : undefined, [vaultHandler])
+
+  const vaultReads = useMemo(() => {
+    if (!handler || !vaultHandler) return undefined
+
+    return {
+      supported: candidateTokens.map(({ address: token }) =>
+        ({ ...handler, functionName: 'isAssetSupported', args: [token] } as const)),
+      stats: candidateTokens.map(({ address: token }) =>
+        ({ ...handler, functionName: 'getVaultStats', args: [token] } as const)),
+      providerInfo: candidateTokens.map(({ address: token }) =>
+        ({ ...handler, functionName: 'getProviderInfo', args: [token, user] } as const)),
+      balances: candidateTokens.map(({ address: token }) =>
+        ({ ...erc20Contract(token), functionName: 'balanceOf', args: [user] } as const)),
+      allowances: candidateTokens.map(({ address: token }) =>
+        ({ ...erc20Contract(token), functionName: 'allowance', args: [user, vaultHandler] } as const))
+    }
+  }, [handler, vaultHandler, candidateTokens, user])
+
+  const readsEnabled = isReady && Boolean(vaultReads) && candidateTokens.length > 0
+
+  const { data: supportedData, refetch: refetchSupported, isLoading: isLoadingVaults } = useReadContracts({
+    contracts: vaultReads?.supported,
+    query: { ...VAULT_READ_QUERY, enabled: readsEnabled }
+  })
+  const { data: statsData, refetch: refetchStats } = useReadContracts({
+    contracts: vaultReads?.stats,
+    query: { ...VAULT_READ_QUERY, enabled: readsEnabled }
+  })
+  const { data: providerInfoData, refetch: refetchProviderInfo } = useReadContracts({
+    contracts: vaultReads?.providerInfo,
+    query: { ...VAULT_READ_QUERY, enabled: readsEnabled }
+  })
+  const { data: balancesData, refetch: refetchBalances } = useReadContracts({
+    contracts: vaultReads?.balances,
+    query: { ...VAULT_READ_QUERY, enabled: readsEnabled }
+  })
+  const { data: allowancesData, refetch: refetchAllowances } = useReadContracts({
+    contracts: vaultReads?.allowances,
+    query: { ...VAULT_READ_QUERY, enabled: readsEnabled }
+  })
+
+  // Rewards de proveedor (el contrato los expone por usuario, no por vault)
+  const {
+    data: rewardsData,
+    refetch: refetchRewards
+  } = useReadContract({
+    address: vaultHandler,
+    abi: VAULT_BASED_HANDLER_ABI,
+    functionName: 'getPendingRewards',
+    args: address ? [address] : undefined,
+    query: {
+      enabled: Boolean(vaultHandler && address),
+      refetchOnWindowFocus: false,
+      staleTime: 30000
+    }
+  })
+
+  const pendingRewards = rewardsData ?? 0n
+
+  // ===================================
+  // 🧮 PROCESAMIENTO DE DATOS
+  // ===================================
+
+  const vaults = useMemo((): VaultData[] => {
+    if (!supportedData) return []
+
+    const result: VaultData[] = []
+
+    candidateTokens.forEach(({ address: token, symbol }, i) => {
+      const isSupported = supportedData[i]?.result
+      if (!isSupported) return
+
+      const stats = statsData?.[i]?.result
+      const providerInfo = providerInfoData?.[i]?.result
+      const walletBalance = balancesData?.[i]?.result ?? 0n
+      const allowance = allowancesData?.[i]?.result ?? 0n
+
+      const [totalLiquidity, totalBorrowed, totalInterestAccrued, utilizationRaw, interestRateRaw] = stats ?? [0n, 0n, 0n, 0n, 0n]
+      const [userProvided, , userEarnedInterest, userPendingInterest] = providerInfo ?? [0n, 0n, 0n, 0n]
+
+      // Tasas en 6 decimales (1000000 = 100%)
+      const utilizationRate = Number(utilizationRaw) / 10000
+      const borrowApr = Number(interestRateRaw) / 10000
+      const supplyApy = (borrowApr * utilizationRate) / 100
+
+      result.push({
+        token,
+        symbol,
+        decimals: getTokenInfo(token)?.decimals ?? 18,
+        totalLiquidity,
+        totalBorrowed,
+        totalInterestAccrued,
+        availableLiquidity: totalLiquidity > totalBorrowed ? totalLiquidity - totalBorrowed : 0n,
+        utilizationRate,
+        borrowApr,
+        supplyApy,
+        userProvided,
+        userEarnedInterest,
+        userPendingInterest,
+        userShare: totalLiquidity > 0n ? Number((userProvided * 1000000n) / totalLiquidity) / 10000 : 0,
+        walletBalance,
+        allowance
+      })
+    })
+
+    return result
+  }, [supportedData, statsData, providerInfoData, balancesData, allowancesData, candidateTokens, getTokenInfo])
+
+  const refresh = useCallback(async () => {
+    await Promise.all([
+      refetchSupported(),
+      refetchStats(),
+      refetchProviderInfo(),
+      refetchBalances(),
+      refetchAllowances(),
+      refetchRewards()
+    ])
+  }, [refetchSupported, refetchStats, refetchProviderInfo, refetchBalances, refetchAllowances, refetchRewards])
+
+  // ===================================
+  // ✍️ FUNCIONES DE ESCRITURA
+  // ===================================
+
+  /**
+   * Depositar liquidez en el vault de un token (aprueba al handler si hace falta)
+   */
+  const deposit = useCallback(async (token: Address, amount: bigint): Promise<LiquidityActionResult> => {
+    if (!vaultHandler || !address || !publicClient) {
+      return { success: false, error: 'Contract addresses not loaded or wallet not connected' }
+    }
+
+    try {
+      setActionState({ ...INITIAL_ACTION_STATE, token })
+
+      if (amount <= 0n) throw new Error('Amount must be greater than 0')
+
+      const balance = await publicClient.readContract({
+        address: token,
+        abi: ERC20_ABI,
+        functionName: 'balanceOf',
+        args: [address]
+      })
+      if (balance < amount) throw new Error('Insufficient token balance')
+
+      // provideLiquidity hace safeTransferFrom(provider, vault, amount)
+      const allowance = await publicClient.readContract({
+        address: token,
+        abi: ERC20_ABI,
+        functionName: 'allowance',
+        args: [address, vaultHandler]
+      })
+
+      if (allowance < amount) {
+        setActionState(prev => ({ ...prev, step: 'approving' }))
+        const approveHash = await writeContractAsync({
+          address: token,
+          abi: ERC20_ABI,
+          functionName: 'approve',
+          args: [vaultHandler, amount]
+        })
+        trackTransaction({ hash: approveHash, purpose: 'approve', description: 'Liquidity for VaultBasedHandler' })
+        const approveReceipt = await publicClient.waitForTransactionReceipt({ hash: approveHash })
+        if (approveReceipt.status !== 'success') {
+          throw new Error('Approval transaction reverted')
+        }
+      }
+
+      setActionState(prev => ({ ...prev, step: 'depositing' }))
+      await publicClient.simulateContract({
+        address: vaultHandler,
+        abi: VAULT_BASED_HANDLER_ABI,
+        functionName: 'provideLiquidity',
+        args: [token, amount, address],
+        account: address
+      })
+
+      const txHash = await writeContractAsync({
+        address: vaultHandler,
+        abi: VAULT_BASED_HANDLER_ABI,
+        functionName: 'provideLiquidity',
+        args: [token, amount, address]
+      })
+      trackTransaction({ hash: txHash, purpose: 'vault-deposit' })
+      setActionState(prev => ({ ...prev, txHash }))
+
+      const receipt = await publicClient.waitForTransactionReceipt({ hash: txHash })
+      const provided = parseEventLogs({
+        abi: VAULT_BASED_HANDLER_ABI,
+        eventName: 'LiquidityProvided',
+        args: { token, provider: address },
+        logs: receipt.logs
+      })
+
+      if (receipt.status !== 'success' || provided.length === 0) {
+        throw new Error('Transaction was mined but LiquidityProvided was not emitted')
+      }
+      console.log('✅ Liquidity provided:', formatUnits(amount, getTokenInfo(token)?.decimals ?? 18))
+
+      setActionState(prev => ({ ...prev, step: 'completed' }))
+      await refresh()
+      return { success: true, txHash }
+    } catch (error) {
+      const message = getLiquidityErrorMessage(error)
+      console.error('💥 Provide liquidity error:', error)
+      setActionState(prev => ({ ...prev, step: 'idle', error: message }))
+      return { success: false, error: message }
+    }
+  }, [vaultHandler, address, publicClient, writeContractAsync, trackTransaction, getTokenInfo, refresh])
+
+  /**
+   * Retirar liquidez del vault de un token
+   */
+  const withdraw = useCallback(async (token: Address, amount: bigint): Promise<LiquidityActionResult> => {
+    if (!vaultHandler || !address || !publicClient) {
+      return { success: false, error: 'Contract addresses not loaded or wallet not connected' }
+    }
+
+    try {
+      setActionState({ ...INITIAL_ACTION_STATE, token, step: 'withdrawing' })
+
+      if (amount <= 0n) throw new Error('Amount must be greater than 0')
+
+      await publicClient.simulateContract({
+        address: vaultHandler,
+        abi: VAULT_BASED_HANDLER_ABI,
+        functionName: 'withdrawLiquidity',
+        args: [token, amount, address],
+        account: address
+      })
+
+      const txHash = await writeContractAsync({
+        address: vaultHandler,
+        abi: VAULT_BASED_HANDLER_ABI,
+        functionName: 'withdrawLiquidity',
+        args: [token, amount, address]
+      })
+      trackTransaction({ hash: txHash, purpose: 'vault-withdraw' })
+      setActionState(prev => ({ ...prev, txHash }))
+
+      const receipt = await publicClient.waitForTransactionReceipt({ hash: txHash })
+      const withdrawn = parseEventLogs({
+        abi: VAULT_BASED_HANDLER_ABI,
+        eventName: 'LiquidityWithdrawn',
+        args: { token, provider: address },
+        logs: receipt.logs
+      })
+
+      if (receipt.status !== 'success' || withdrawn.length === 0) {
+        throw new Error('Transaction was mined but LiquidityWithdrawn was not emitted')
+      }
+      console.log('✅ Liquidity withdrawn:', formatUnits(amount, getTokenInfo(token)?.decimals ?? 18))
+
+      setActionState(prev => ({ ...prev, step: 'completed' }))
+      await refresh()
+      return { success: true, txHash }
+    } catch (error) {
+      const message = getLiquidityErrorMessage(error)
+      console.error('💥 Withdraw liquidity error:', error)
+      setActionState(prev => ({ ...prev, step: 'idle', error: message }))
+      return { success: false, error: message }
+    }
+  }, [vaultHandler, address, publicClient, writeContractAsync, trackTransaction, getTokenInfo, refresh])
+
+  /**
+   * Reclamar rewards de proveedor de liquidez
+   */
+  const claimRewards = useCallback(async (): Promise<LiquidityActionResult> => {
+    if (!vaultHandler || !address || !publicClient) {
+      return { success: false, error: 'Contract addresses not loaded or wallet not connected' }
+    }
+
+    try {
+      setActionState({ ...INITIAL_ACTION_STATE, step: 'claiming' })
+
+      await publicClient.simulateContract({
+        address: vaultHandler,
+        abi: VAULT_BASED_HANDLER_ABI,
+        functionName: 'claimRewards',
+        account: address
+      })
+
+      const txHash = await writeContractAsync({
+        address: vaultHandler,
+        abi: VAULT_BASED_HANDLER_ABI,
+        functionName: 'claimRewards'
+      })
+      trackTransaction({ hash: txHash, purpose: 'claim-rewards', description: 'Liquidity provider rewards' })
+      setActionState(prev => ({ ...prev, txHash }))
+
+      const receipt = await publicClient.waitForTransactionReceipt({ hash: txHash })
+      const claimed = parseEventLogs({
+        abi: VAULT_BASED_HANDLER_ABI,
+        eventName: 'RewardsClaimed',
+        args: { user: address },
+        logs: receipt.logs
+      })
+
+      if (receipt.status !== 'success' || claimed.length === 0) {
+        throw new Error('Transaction was mined but RewardsClaimed was not emitted')
+      }
+      console.log('🎁 Liquidity rewards claimed')
+
+      setActionState(prev => ({ ...prev, step: 'completed' }))
+      await refresh()
+      return { success: true, txHash }
+    } catch (error) {
+      const message = getLiquidityErrorMessage(error)
+      console.error('💥 Claim rewards error:', error)
+      setActionState(prev => ({ ...prev, step: 'idle', error: message }))
+      return { success: false, error: message }
+    }
+  }, [vaultHandler, address, publicClient, writeContractAsync, trackTransaction, refresh])
+
+  const resetActionState = useCallback(() => {
+    setActionState(INITIAL_ACTION_STATE)
+  }, [])
+
+  return {
+    // 📊 Datos
+    vaults,
+    pendingRewards,
+
+    // 🔄 Estados
+    isLoading: isLoadingVaults || !isReady,
+    ...actionState,
+    isProcessing: actionState.step !== 'idle' && actionState.step !== 'completed',
+
+    // 🚀 Funciones
+    deposit,
+    withdraw,
+    claimRewards,
+    refresh,
+    resetActionState
+  }
+}
+
+// ===================================
+// 🧮 FUNCIONES AUXILIARES
+// ===================================
+
+function getLiquidityErrorMessage(error: unknown): string {
+  const message = error instanceof Error ? error.message : String(error)
+
+  if (message.includes('User rejected') || message.includes('User denied')) {
+    return 'Transaction cancelled by user'
+  }
+  if (message.includes('Insufficient available liquidity')) {
+    return 'Not enough idle liquidity in the vault right now - part of it is lent out'
+  }
+  if (message.includes('Insufficient provided liquidity')) {
+    return 'Amount exceeds the liquidity you have provided'
+  }
+  if (message.includes('Reward distributor not set')) {
+    return 'Rewards are not enabled for this vault yet'
+  }
+  if (message.includes('Asset not active')) {
+    return 'This vault is not active'
+  }
+
+  return formatTransactionError(error)
+}
+
+export default useLiquidityVaults
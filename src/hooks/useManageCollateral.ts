@@ -0,0 +1,376 @@
+/**
+ * @fileoverview useManageCollateral.ts
+ * @description Hook para agregar o retirar colateral de posiciones existentes (wagmi v2 + viem v2)
+ * @version 2025 - Compatible con wagmi v2.x y viem v2.x
+ *
+ * Funcionalidades:
+ * - Previsualizar el nuevo ratio de colateralización y RiskLevel antes de enviar
+ * - Aprobar el token de colateral cuando haga falta (solo para addCollateral)
+ * - Ejecutar addCollateral / withdrawCollateral en FlexibleLoanManager
+ * - Esperar confirmación (eventos CollateralAdded / CollateralWithdrawn) y refrescar la posición
+ */
+
+import { useState, useCallback } from 'react'
+import { useAccount, useWriteContract, usePublicClient } from 'wagmi'
+import { parseEventLogs, type Address, type Hash } from 'viem'
+
+import { ERC20_ABI, FLEXIBLE_LOAN_MANAGER_ABI } from '../Abis'
+import { useContractAddresses } from './useContractAddresses'
+import { useTransactionManager } from './useTransactionManager'
+import { RiskLevel, NO_DEBT_RATIO, getRiskLevel } from '../utils/riskEngine'
+import type { PositionData } from './useUserPositions'
+import { formatTransactionError } from '../utils/errorDecoder'
+
+// ===================================
+// 🏗️ INTERFACES Y TIPOS
+// ===================================
+
+export type CollateralAction = 'add' | 'withdraw'
+
+export interface CollateralPreview {
+  action: CollateralAction
+  currentCollateral: bigint
+  newCollateral: bigint
+  currentRatio: bigint        // 6 decimales (1500000 = 150%)
+  newRatio: bigint            // 6 decimales, NO_DEBT_RATIO si la posición no tiene deuda
+  currentRiskLevel: RiskLevel
+  newRiskLevel: RiskLevel
+  hasDebt: boolean
+  isValid: boolean
+  warning: string | null
+}
+
+export interface ManageCollateralState {
+  step: 'idle' | 'approving' | 'submitting' | 'confirming' | 'completed'
+  positionId: bigint | null
+  action: CollateralAction | null
+  approveHash: Hash | null
+  txHash: Hash | null
+  error: string | null
+}
+
+export interface ManageCollateralResult {
+  success: boolean
+  txHash?: Hash
+  error?: string
+}
+
+const INITIAL_STATE: ManageCollateralState = {
+  step: 'idle',
+  positionId: null,
+  action: null,
+  approveHash: null,
+  txHash: null,
+  error: null
+}
+
+// ===================================
+// 🧮 PREVISUALIZACIÓN
+// ===================================
+
+/**
+ * Calcula el ratio de colateralización resultante de agregar o retirar colateral.
+ * La deuda no cambia, así que el ratio on-chain escala linealmente con la cantidad de colateral.
+ */
+export function previewCollateralChange(
+  positionData: PositionData,
+  action: CollateralAction,
+  amount: bigint
+): CollateralPreview {
+  const currentCollateral = positionData.position.collateralAmount
+  const currentRatio = positionData.collateralizationRatio
+  const hasDebt = positionData.totalDebt > 0n && currentRatio !== NO_DEBT_RATIO
+
+  const newCollateral = action === 'add'
+    ? currentCollateral + amount
+    : currentCollateral - amount
+
+  let warning: string | null = null
+  let isValid = amount > 0n
+
+  if (action === 'withdraw' && amount > currentCollateral) {
+    isValid = false
+    warning = 'Amount exceeds the collateral deposited in this position'
+  }
+
+  let newRatio: bigint
+  if (!hasDebt) {
+    newRatio = NO_DEBT_RATIO
+  } else if (newCollateral <= 0n) {
+    newRatio = 0n
+  } else if (currentCollateral === 0n) {
+    newRatio = currentRatio
+  } else {
+    newRatio = (currentRatio * newCollateral) / currentCollateral
+  }
+
+  const currentRiskLevel = getRiskLevel(currentRatio)
+  const newRiskLevel = getRiskLevel(newRatio)
+
+  if (isValid && action === 'withdraw' && hasDebt) {
+    if (newRiskLevel === RiskLevel.DANGER_ZONE) {
+      warning = '⚠️ This withdrawal leaves the position undercollateralized and liquidatable'
+    } else if (newRiskLevel === RiskLevel.EXTREME) {
+      warning = '⚠️ This withdrawal puts the position very close to liquidation'
+    }
+  }
+
+  return {
+    action,
+    currentCollateral,
+    newCollateral: newCollateral < 0n ? 0n : newCollateral,
+    currentRatio,
+    newRatio,
+    currentRiskLevel,
+    newRiskLevel,
+    hasDebt,
+    isValid,
+    warning
+  }
+}
+
+// ===================================
+// 🎯 HOOK PRINCIPAL: useManageCollateral
+// ===================================
+
+export function useManageCollateral({
+  onConfirmed
+}: {
+  onConfirmed?: (positionId: bigint, action: CollateralAction) => void
+} = {}) {
+  const { address } = useAccount()
+  const publicClient = usePublicClient()
+  const { addresses } = useContractAddresses()
+  const { writeContractAsync } = useWriteContract()
+  const { trackTransaction } = useTransactionManager()
+
+  const [state, setState] = useState<ManageCollateralState>(INITIAL_STATE)
+
+  const updateState = useCallback((updates: Partial<ManageCollateralState>) => {
+    setState(prev => ({ ...prev, ...updates }))
+  }, [])
+
+  const resetState = useCallback(() => {
+    setState(INITIAL_STATE)
+  }, [])
+
+  /**
+   * Espera la confirmación y verifica que el evento esperado haya sido emitido
+   */
+  const waitForCollateralEvent = useCallback(async (
+    hash: Hash,
+    eventName: 'CollateralAdded' | 'CollateralWithdrawn'
+  ): Promise<boolean> => {
+    if (!publicClient) return false
+
+    const receipt = await publicClient.waitForTransactionReceipt({ hash })
+    if (receipt.status !== 'success') return false
+
+    const events = parseEventLogs({
+      abi: FLEXIBLE_LOAN_MANAGER_ABI,
+      eventName,
+      logs: receipt.logs
+    })
+
+    return events.length > 0
+  }, [publicClient])
+
+  /**
+   * Agregar colateral a una posición existente (aprueba el token si hace falta)
+   */
+  const addCollateral = useCallback(async (
+    positionData: PositionData,
+    amount: bigint
+  ): Promise<ManageCollateralResult> => {
+    if (!addresses?.flexibleLoanManager || !address || !publicClient) {
+      return { success: false, error: 'Contract addresses not loaded or wallet not connected' }
+    }
+
+    const { positionId, position } = positionData
+    const collateralAsset = position.collateralAsset as Address
+
+    try {
+      setState({ ...INITIAL_STATE, positionId, action: 'add' })
+
+      if (amount <= 0n) {
+        throw new Error('Amount must be greater than 0')
+      }
+
+      // 1. Verificar balance del token de colateral
+      const balance = await publicClient.readContract({
+        address: collateralAsset,
+        abi: ERC20_ABI,
+        functionName: 'balanceOf',
+        args: [address]
+      })
+
+      if (balance < amount) {
+        throw new Error('Insufficient collateral token balance')
+      }
+
+      // 2. Aprobar FlexibleLoanManager si el allowance no alcanza
+      const allowance = await publicClient.readContract({
+        address: collateralAsset,
+        abi: ERC20_ABI,
+        functionName: 'allowance',
+        args: [address, addresses.flexibleLoanManager]
+      })
+
+      if (allowance < amount) {
+        updateState({ step: 'approving' })
+        console.log('💰 Approving collateral token for FlexibleLoanManager...')
+
+        const approveHash = await writeContractAsync({
+          address: collateralAsset,
+          abi: ERC20_ABI,
+          functionName: 'approve',
+          args: [addresses.flexibleLoanManager, amount]
+        })
+
+        trackTransaction({ hash: approveHash, purpose: 'approve', positionId, description: 'Collateral for FlexibleLoanManager' })
+        updateState({ approveHash })
+        const approveReceipt = await publicClient.waitForTransactionReceipt({ hash: approveHash })
+        if (approveReceipt.status !== 'success') {
+          throw new Error('Approval transaction reverted')
+        }
+      }
+
+      // 3. Simular antes de enviar
+      updateState({ step: 'submitting' })
+      await publicClient.simulateContract({
+        address: addresses.flexibleLoanManager,
+        abi: FLEXIBLE_LOAN_MANAGER_ABI,
+        functionName: 'addCollateral',
+        args: [positionId, amount],
+        account: address
+      })
+
+      const txHash = await writeContractAsync({
+        address: addresses.flexibleLoanManager,
+        abi: FLEXIBLE_LOAN_MANAGER_ABI,
+        functionName: 'addCollateral',
+        args: [positionId, amount]
+      })
+      trackTransaction({ hash: txHash, purpose: 'add-collateral', positionId })
+
+      // 4. Esperar confirmación del evento CollateralAdded
+      updateState({ step: 'confirming', txHash })
+      const confirmed = await waitForCollateralEvent(txHash, 'CollateralAdded')
+      if (!confirmed) {
+        throw new Error('Transaction was mined but CollateralAdded was not emitted')
+      }
+
+      console.log('✅ Collateral added to position', positionId.toString())
+      updateState({ step: 'completed' })
+      onConfirmed?.(positionId, 'add')
+
+      return { success: true, txHash }
+    } catch (error) {
+      const message = getCollateralErrorMessage(error)
+      console.error('💥 Add collateral error:', error)
+      updateState({ step: 'idle', error: message })
+      return { success: false, error: message }
+    }
+  }, [addresses, address, publicClient, writeContractAsync, trackTransaction, updateState, waitForCollateralEvent, onConfirmed])
+
+  /**
+   * Retirar colateral de una posición existente (no requiere aprobación)
+   */
+  const withdrawCollateral = useCallback(async (
+    positionData: PositionData,
+    amount: bigint
+  ): Promise<ManageCollateralResult> => {
+    if (!addresses?.flexibleLoanManager || !address || !publicClient) {
+      return { success: false, error: 'Contract addresses not loaded or wallet not connected' }
+    }
+
+    const { positionId, position } = positionData
+
+    try {
+      setState({ ...INITIAL_STATE, positionId, action: 'withdraw' })
+
+      if (amount <= 0n) {
+        throw new Error('Amount must be greater than 0')
+      }
+
+      if (amount > position.collateralAmount) {
+        throw new Error('Amount exceeds available collateral')
+      }
+
+      // 1. Simular antes de enviar
+      updateState({ step: 'submitting' })
+      await publicClient.simulateContract({
+        address: addresses.flexibleLoanManager,
+        abi: FLEXIBLE_LOAN_MANAGER_ABI,
+        functionName: 'withdrawCollateral',
+        args: [positionId, amount],
+        account: address
+      })
+
+      const txHash = await writeContractAsync({
+        address: addresses.flexibleLoanManager,
+        abi: FLEXIBLE_LOAN_MANAGER_ABI,
+        functionName: 'withdrawCollateral',
+        args: [positionId, amount]
+      })
+      trackTransaction({ hash: txHash, purpose: 'withdraw-collateral', positionId })
+
+      // 2. Esperar confirmación del evento CollateralWithdrawn
+      updateState({ step: 'confirming', txHash })
+      const confirmed = await waitForCollateralEvent(txHash, 'CollateralWithdrawn')
+      if (!confirmed) {
+        throw new Error('Transaction was mined but CollateralWithdrawn was not emitted')
+      }
+
+      console.log('✅ Collateral withdrawn from position', positionId.toString())
+      updateState({ step: 'completed' })
+      onConfirmed?.(positionId, 'withdraw')
+
+      return { success: true, txHash }
+    } catch (error) {
+      const message = getCollateralErrorMessage(error)
+      console.error('💥 Withdraw collateral error:', error)
+      updateState({ step: 'idle', error: message })
+      return { success: false, error: message }
+    }
+  }, [addresses, address, publicClient, writeContractAsync, trackTransaction, updateState, waitForCollateralEvent, onConfirmed])
+
+  return {
+    ...state,
+
+    // Funciones principales
+    addCollateral,
+    withdrawCollateral,
+    previewCollateralChange,
+    resetState,
+
+    // Estados derivados
+    isProcessing: state.step === 'approving' || state.step === 'submitting' || state.step === 'confirming',
+    isApproving: state.step === 'approving'
+  }
+}
+
+// ===================================
+// 🧮 FUNCIONES AUXILIARES
+// ===================================
+
+function getCollateralErrorMessage(error: unknown): string {
+  const message = error instanceof Error ? error.message : String(error)
+
+  if (message.includes('User rejected') || message.includes('User denied')) {
+    return 'Transaction cancelled by user'
+  }
+  if (message.includes('Not position owner')) {
+    return 'Only the position owner can manage its collateral'
+  }
+  if (message.includes('Position not active')) {
+    return 'This position is no longer active'
+  }
+  if (message.includes('Amount exceeds available collateral')) {
+    return 'Amount exceeds available collateral'
+  }
+
+  return formatTransactionError(error)
+}
+
+export default useManageCollateral
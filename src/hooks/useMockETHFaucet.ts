@@ -2,11 +2,14 @@ import { useState, useCallback, useEffect } from 'react';
 import { useAccount, useWriteContract, useWaitForTransactionReceipt, useBalance } from 'wagmi';
 import { parseUnits } from 'viem';
 import useContractAddresses from './useContractAddresses';
-import MockETHABI from '../Abis/MockETH.json';
+import { useTransactionManager } from './useTransactionManager';
+import { MOCK_ETH_ABI } from '../Abis';
+import { decodeTransactionError, type DecodedTransactionError } from '../utils/errorDecoder';
 
 export interface FaucetState {
   isLoading: boolean;
   error: string | null;
+  errorDetails: DecodedTransactionError | null;
   success: boolean;
   txHash: string | null;
   isConfirming: boolean;
@@ -19,6 +22,7 @@ export function useMockETHFaucet() {
   const [state, setState] = useState<FaucetState>({
     isLoading: false,
     error: null,
+    errorDetails: null,
     success: false,
     txHash: null,
     isConfirming: false
@@ -47,6 +51,12 @@ export function useMockETHFaucet() {
     hash: mintHash
   });
 
+  const { trackTransaction } = useTransactionManager();
+
+  useEffect(() => {
+    if (mintHash) trackTransaction({ hash: mintHash, purpose: 'faucet', description: 'Mint 1 ETH' });
+  }, [mintHash, trackTransaction]);
+
   // Función para mintear 1 ETH
   const requestETH = useCallback(async () => {
     if (!isConnected || !address) {
@@ -64,17 +74,18 @@ export function useMockETHFaucet() {
         ...prev, 
         isLoading: true, 
         error: null, 
+        errorDetails: null,
         success: false,
         isConfirming: false
       }));
 
       console.log('🚀 Minting ETH using address:', addresses.mockETH);
       console.log('💰 Minting to user:', address);
-      console.log('📄 Using ABI:', MockETHABI);
+      console.log('📄 Using ABI:', MOCK_ETH_ABI);
 
       await mintETH({
         address: addresses.mockETH,
-        abi: MockETHABI,
+        abi: MOCK_ETH_ABI,
         functionName: 'mint',
         args: [address, parseUnits('1', 18)] // Mintear exactamente 1 ETH
       });
@@ -88,12 +99,14 @@ export function useMockETHFaucet() {
         cause: error instanceof Error ? (error as any).cause : null,
         stack: error instanceof Error ? error.stack : null
       });
-      
+
+      const decoded = decodeTransactionError(error);
       setState(prev => ({ 
         ...prev, 
         isLoading: false, 
         isConfirming: false,
-        error: error instanceof Error ? error.message : 'Failed to request ETH'
+        error: decoded.message,
+        errorDetails: decoded
       }));
     }
   }, [isConnected, address, mintETH, addresses, isReady]);
@@ -103,6 +116,7 @@ export function useMockETHFaucet() {
     setState({
       isLoading: false,
       error: null,
+      errorDetails: null,
       success: false,
       txHash: null,
       isConfirming: false
@@ -139,27 +153,14 @@ export function useMockETHFaucet() {
         errorDetails: error
       });
 
-      let errorMessage = 'Failed to mint ETH';
-      
-      if (error?.message) {
-        if (error.message.includes('User rejected') || error.message.includes('user rejected')) {
-          errorMessage = 'Transaction rejected by user';
-        } else if (error.message.includes('insufficient funds')) {
-          errorMessage = 'Insufficient funds for gas';
-        } else if (error.message.includes('execution reverted')) {
-          errorMessage = 'Contract execution failed - contract may have restrictions';
-        } else if (error.message.includes('nonce')) {
-          errorMessage = 'Transaction nonce error - try again';
-        } else {
-          errorMessage = `Transaction failed: ${error.message}`;
-        }
-      }
+      const decoded = decodeTransactionError(error);
 
       setState(prev => ({
         ...prev,
         isLoading: false,
         isConfirming: false,
-        error: errorMessage
+        error: decoded.message,
+        errorDetails: decoded
       }));
     }
   }, [mintError, receiptError]);
@@ -5,13 +5,21 @@
  */
 
 // 🔥 OPTIMIZACIÓN: Redirigir al contexto centralizado para evitar múltiples solicitudes
-import { useOraclePrices as useOraclePricesFromContext } from '../components/OraclePricesProvider'
+import {
+  useOraclePrices as useOraclePricesFromContext,
+  type PriceSource,
+  type AssetPriceSource,
+  type AssetPriceInfo,
+  type OraclePriceDetails
+} from '../components/OraclePricesProvider'
 import { useReadContract } from 'wagmi'
 import { formatUnits, type Address } from 'viem'
-import MOCK_VCOP_ORACLE_ABI from '../Abis/MockVCOPOracle.json'
+import { MOCK_VCOP_ORACLE_ABI } from '../Abis'
 import { useContractAddresses } from './useContractAddresses'
 
 // Re-exportar tipos para compatibilidad
+export type { PriceSource, AssetPriceSource, AssetPriceInfo, OraclePriceDetails }
+
 export interface OraclePrices {
   ETH: number
   WBTC: number  
@@ -22,6 +30,8 @@ export interface OraclePrices {
 
 export interface UseOraclePricesReturn {
   prices: OraclePrices
+  priceSource: PriceSource
+  priceDetails: OraclePriceDetails
   isLoading: boolean
   error: string | null
   refetchPrices: () => void
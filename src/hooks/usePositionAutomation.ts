@@ -0,0 +1,214 @@
+/**
+ * @fileoverview usePositionAutomation.ts
+ * @description Estado de monitoreo automático de cada posición en LoanManagerAutomationAdapter
+ * @version 2025 - Compatible con wagmi v2.x y viem v2.x
+ *
+ * Funcionalidades:
+ * - Saber si cada posición está en tracking y cómo la ve el adapter (getPositionHealthData)
+ * - Último intento de liquidación automática, fallos acumulados y cooldown restante
+ * - Añadir una posición al tracking con addPositionToTracking
+ *
+ * Nota: addPositionToTracking solo lo aceptan el loan manager, el owner del adapter y el
+ * contrato de automatización autorizado; para el resto de cuentas canManageTracking es false.
+ */
+
+import { useState, useCallback, useMemo } from 'react'
+import { useAccount, useReadContracts, useWriteContract, usePublicClient } from 'wagmi'
+import { zeroAddress, type Address } from 'viem'
+
+import { LOAN_MANAGER_AUTOMATION_ADAPTER_ABI } from '../Abis'
+import { loanAdapterContract } from '../utils/contracts'
+import { formatTransactionError } from '../utils/errorDecoder'
+import { useContractAddresses } from './useContractAddresses'
+import { useTransactionManager } from './useTransactionManager'
+import type { PositionData } from './useUserPositions'
+
+// ===================================
+// 🏗️ INTERFACES Y TIPOS
+// ===================================
+
+export interface PositionAutomationStatus {
+  positionId: bigint
+  isTracked: boolean
+  failureCount: bigint
+  lastAttempt: number           // Unix seconds, 0 si nunca se intentó
+  cooldownEndsAt: number | null // Unix seconds; null si no hay cooldown activo
+  healthFactor: bigint | null   // Ratio de colateralización (6 decimales) visto por el adapter
+}
+
+// Lecturas por posición, en este orden
+const READS_PER_POSITION = 4
+
+// ===================================
+// 🎯 HOOK PRINCIPAL: usePositionAutomation
+// ===================================
+
+export function usePositionAutomation(positions: PositionData[] = []) {
+  const { address } = useAccount()
+  const publicClient = usePublicClient()
+  const { addresses } = useContractAddresses()
+  const { writeContractAsync } = useWriteContract()
+  const { trackTransaction } = useTransactionManager()
+
+  const [addingPositionId, setAddingPositionId] = useState<bigint | null>(null)
+  const [error, setError] = useState<{ positionId: bigint; message: string } | null>(null)
+
+  const adapter = addresses?.loanAdapter && addresses.loanAdapter !== zeroAddress
+    ? addresses.loanAdapter
+    : undefined
+
+  // ===================================
+  // 🔍 LECTURAS
+  // ===================================
+
+  const {
+    data: globalData,
+    refetch: refetchGlobal
+  } = useReadContracts({
+    contracts: adapter
+      ? [
+          { ...loanAdapterContract(adapter), functionName: 'isAutomationEnabled' },
+          { ...loanAdapterContract(adapter), functionName: 'liquidationCooldown' },
+          { ...loanAdapterContract(adapter), functionName: 'owner' },
+          { ...loanAdapterContract(adapter), functionName: 'loanManager' },
+          { ...loanAdapterContract(adapter), functionName: 'authorizedAutomationContract' }
+        ] as const
+      : [],
+    query: {
+      enabled: Boolean(adapter),
+      refetchOnWindowFocus: false,
+      staleTime: 30000
+    }
+  })
+
+  const {
+    data: positionsData,
+    refetch: refetchPositions,
+    isLoading
+  } = useReadContracts({
+    contracts: adapter
+      ? positions.flatMap(({ positionId }) => [
+          { ...loanAdapterContract(adapter), functionName: 'isPositionTracked', args: [positionId] },
+          { ...loanAdapterContract(adapter), functionName: 'getPositionFailureCount', args: [positionId] },
+          { ...loanAdapterContract(adapter), functionName: 'lastLiquidationAttempt', args: [positionId] },
+          { ...loanAdapterContract(adapter), functionName: 'getPositionHealthData', args: [positionId] }
+        ] as const)
+      : [],
+    query: {
+      enabled: Boolean(adapter) && positions.length > 0,
+      refetchOnWindowFocus: false,
+      staleTime: 30000
+    }
+  })
+
+  const automationEnabled = (globalData?.[0]?.result as boolean | undefined) ?? false
+  const liquidationCooldown = Number((globalData?.[1]?.result as bigint | undefined) ?? 0n)
+
+  const canManageTracking = useMemo(() => {
+    if (!address) return false
+    const account = address.toLowerCase()
+    return [globalData?.[2]?.result, globalData?.[3]?.result, globalData?.[4]?.result]
+      .some((allowed) => typeof allowed === 'string' && allowed.toLowerCase() === account)
+  }, [address, globalData])
+
+  const statusById = useMemo(() => {
+    const map = new Map<string, PositionAutomationStatus>()
+    const now = Math.floor(Date.now() / 1000)
+
+    positions.forEach(({ positionId }, i) => {
+      const base = i * READS_PER_POSITION
+      const isTracked = positionsData?.[base]?.result as boolean | undefined
+      if (isTracked === undefined) return
+
+      const lastAttempt = Number((positionsData?.[base + 2]?.result as bigint | undefined) ?? 0n)
+      const health = positionsData?.[base + 3]?.result as [Address, bigint, bigint, bigint] | undefined
+      const cooldownEndsAt = lastAttempt > 0 ? lastAttempt + liquidationCooldown : 0
+
+      map.set(positionId.toString(), {
+        positionId,
+        isTracked,
+        failureCount: (positionsData?.[base + 1]?.result as bigint | undefined) ?? 0n,
+        lastAttempt,
+        cooldownEndsAt: cooldownEndsAt > now ? cooldownEndsAt : null,
+        healthFactor: health ? health[3] : null
+      })
+    })
+
+    return map
+  }, [positions, positionsData, liquidationCooldown])
+
+  const getAutomationStatus = useCallback(
+    (positionId: bigint): PositionAutomationStatus | null => statusById.get(positionId.toString()) ?? null,
+    [statusById]
+  )
+
+  // ===================================
+  // ✍️ AÑADIR AL TRACKING
+  // ===================================
+
+  const addPositionToTracking = useCallback(async (positionId: bigint): Promise<boolean> => {
+    if (!adapter || !address || !publicClient) {
+      setError({ positionId, message: 'Automation adapter not available or wallet not connected' })
+      return false
+    }
+
+    try {
+      setAddingPositionId(positionId)
+      setError(null)
+
+      await publicClient.simulateContract({
+        address: adapter,
+        abi: LOAN_MANAGER_AUTOMATION_ADAPTER_ABI,
+        functionName: 'addPositionToTracking',
+        args: [positionId],
+        account: address
+      })
+
+      const txHash = await writeContractAsync({
+        address: adapter,
+        abi: LOAN_MANAGER_AUTOMATION_ADAPTER_ABI,
+        functionName: 'addPositionToTracking',
+        args: [positionId]
+      })
+      trackTransaction({ hash: txHash, purpose: 'add-tracking', positionId })
+
+      const receipt = await publicClient.waitForTransactionReceipt({ hash: txHash })
+      if (receipt.status !== 'success') {
+        throw new Error('Tracking transaction reverted')
+      }
+
+      console.log('🤖 Position added to automation tracking:', positionId.toString())
+      await refetchPositions()
+      return true
+    } catch (err) {
+      console.error('💥 Add position to tracking error:', err)
+      setError({ positionId, message: formatTransactionError(err) })
+      return false
+    } finally {
+      setAddingPositionId(null)
+    }
+  }, [adapter, address, publicClient, writeContractAsync, trackTransaction, refetchPositions])
+
+  return {
+    // 📊 Datos
+    isAvailable: Boolean(adapter),
+    automationEnabled,
+    liquidationCooldown,
+    canManageTracking,
+    getAutomationStatus,
+
+    // 🔄 Estados
+    isLoading,
+    addingPositionId,
+    error: error?.message ?? null,
+    getTrackingError: (positionId: bigint) => (error?.positionId === positionId ? error.message : null),
+
+    // 🚀 Funciones
+    addPositionToTracking,
+    refresh: async () => {
+      await Promise.all([refetchGlobal(), refetchPositions()])
+    }
+  }
+}
+
+export default usePositionAutomation
@@ -0,0 +1,486 @@
+/**
+ * @fileoverview useProtocolAdmin.ts
+ * @description Operaciones owner-only de FlexibleLoanManager, VaultBasedHandler y LoanManagerAutomationAdapter
+ * @version 2025 - Compatible con wagmi v2.x y viem v2.x
+ *
+ * Funcionalidades:
+ * - Saber de qué contratos es owner() la cuenta conectada
+ * - Leer la configuración actual (fee, bonus, pausa, tasas, ratios por asset, umbrales de riesgo)
+ * - Flujo en dos pasos: simulate(action) prepara y estima gas, confirm() envía la transacción
+ *
+ * Nota: cada acción se simula con la cuenta conectada antes de mostrarse para confirmar,
+ * así un revert por onlyOwner o por parámetros inválidos aparece antes de firmar.
+ */
+
+import { useState, useCallback, useMemo } from 'react'
+import { useAccount, useReadContracts, useWriteContract, usePublicClient } from 'wagmi'
+import { zeroAddress, type Address, type Hash } from 'viem'
+
+import {
+  flexibleLoanManagerContract,
+  vaultBasedHandlerContract,
+  loanAdapterContract
+} from '../utils/contracts'
+import { formatTransactionError } from '../utils/errorDecoder'
+import { useContractAddresses } from './useContractAddresses'
+import { useTransactionManager } from './useTransactionManager'
+
+// ===================================
+// 🏗️ INTERFACES Y TIPOS
+// ===================================
+
+export type AdminContract = 'loanManager' | 'vaultHandler' | 'adapter'
+
+// Porcentajes y tasas en 6 decimales (5000 = 0.5%); maxLoanAmount en unidades del token;
+// umbrales de riesgo del adapter en escala 0-100
+export type AdminAction =
+  | { kind: 'setProtocolFee'; fee: bigint }
+  | { kind: 'setPaused'; paused: boolean }
+  | { kind: 'setLiquidationBonus'; bonus: bigint }
+  | { kind: 'activateEmergencyMode'; assets: Address[]; reason: string }
+  | { kind: 'resolveEmergencyMode'; assets: Address[]; reason: string }
+  | {
+      kind: 'configureAsset'
+      token: Address
+      collateralRatio: bigint
+      liquidationRatio: bigint
+      maxLoanAmount: bigint
+      interestRate: bigint
+    }
+  | { kind: 'updateBothRatios'; token: Address; collateralRatio: bigint; liquidationRatio: bigint }
+  | { kind: 'setInterestRateParams'; baseRate: bigint; multiplier: bigint }
+  | { kind: 'setRiskThresholds'; critical: bigint; danger: bigint; warning: bigint }
+
+export type AdminActionKind = AdminAction['kind']
+
+export const ADMIN_ACTION_CONTRACT: Record<AdminActionKind, AdminContract> = {
+  setProtocolFee: 'loanManager',
+  setPaused: 'loanManager',
+  setLiquidationBonus: 'loanManager',
+  activateEmergencyMode: 'loanManager',
+  resolveEmergencyMode: 'loanManager',
+  configureAsset: 'vaultHandler',
+  updateBothRatios: 'vaultHandler',
+  setInterestRateParams: 'vaultHandler',
+  setRiskThresholds: 'adapter'
+}
+
+// Llamada preparada. Cada una se construye con el contrato tipado de su ABI,
+// así functionName y args se comprueban en compilación
+interface AdminCall {
+  estimate: (account: Address) => Promise<bigint>   // simulate + estimateContractGas
+  send: () => Promise<Hash>
+}
+
+export interface AdminAssetConfig {
+  token: Address
+  symbol: string
+  collateralRatio: bigint
+  liquidationRatio: bigint
+  maxLoanAmount: bigint
+  interestRate: bigint
+  isActive: boolean
+}
+
+export interface AdminState {
+  step: 'idle' | 'simulating' | 'ready' | 'submitting' | 'confirming' | 'completed'
+  action: AdminAction | null
+  gasEstimate: bigint | null
+  txHash: Hash | null
+  error: string | null
+}
+
+const INITIAL_ADMIN_STATE: AdminState = {
+  step: 'idle',
+  action: null,
+  gasEstimate: null,
+  txHash: null,
+  error: null
+}
+
+const isDeployed = (address?: Address): address is Address =>
+  Boolean(address) && address !== zeroAddress
+
+const sameAddress = (a: unknown, b?: Address): boolean =>
+  typeof a === 'string' && Boolean(b) && a.toLowerCase() === b!.toLowerCase()
+
+// ===================================
+// 🎯 HOOK PRINCIPAL: useProtocolAdmin
+// ===================================
+
+export function useProtocolAdmin() {
+  const { address } = useAccount()
+  const publicClient = usePublicClient()
+  const { addresses, getAllTokenAddresses } = useContractAddresses()
+  const { writeContractAsync } = useWriteContract()
+  const { trackTransaction } = useTransactionManager()
+
+  const [state, setState] = useState<AdminState>(INITIAL_ADMIN_STATE)
+
+  const loanManager = isDeployed(addresses?.flexibleLoanManager) ? addresses!.flexibleLoanManager : undefined
+  const vaultHandler = isDeployed(addresses?.vaultBasedHandler) ? addresses!.vaultBasedHandler : undefined
+  const adapter = isDeployed(addresses?.loanAdapter) ? addresses!.loanAdapter : undefined
+
+  const tokens = useMemo(() => getAllTokenAddresses(), [getAllTokenAddresses])
+
+  // ===================================
+  // 🔍 LECTURAS
+  // ===================================
+
+  const {
+    data: loanManagerData,
+    refetch: refetchLoanManager,
+    isLoading: isLoadingLoanManager
+  } = useReadContracts({
+    contracts: loanManager
+      ? [
+          { ...flexibleLoanManagerContract(loanManager), functionName: 'owner' },
+          { ...flexibleLoanManagerContract(loanManager), functionName: 'protocolFee' },
+          { ...flexibleLoanManagerContract(loanManager), functionName: 'liquidationBonus' },
+          { ...flexibleLoanManagerContract(loanManager), functionName: 'paused' }
+        ] as const
+      : [],
+    query: {
+      enabled: Boolean(loanManager),
+      refetchOnWindowFocus: false,
+      staleTime: 30000
+    }
+  })
+
+  const {
+    data: vaultHandlerData,
+    refetch: refetchVaultHandler,
+    isLoading: isLoadingVaultHandler
+  } = useReadContracts({
+    contracts: vaultHandler
+      ? [
+          { ...vaultBasedHandlerContract(vaultHandler), functionName: 'owner' },
+          { ...vaultBasedHandlerContract(vaultHandler), functionName: 'baseInterestRate' },
+          { ...vaultBasedHandlerContract(vaultHandler), functionName: 'utilizationMultiplier' }
+        ] as const
+      : [],
+    query: {
+      enabled: Boolean(vaultHandler),
+      refetchOnWindowFocus: false,
+      staleTime: 30000
+    }
+  })
+
+  const {
+    data: adapterData,
+    refetch: refetchAdapter,
+    isLoading: isLoadingAdapter
+  } = useReadContracts({
+    contracts: adapter
+      ? [
+          { ...loanAdapterContract(adapter), functionName: 'owner' },
+          { ...loanAdapterContract(adapter), functionName: 'criticalRiskThreshold' },
+          { ...loanAdapterContract(adapter), functionName: 'dangerRiskThreshold' },
+          { ...loanAdapterContract(adapter), functionName: 'warningRiskThreshold' }
+        ] as const
+      : [],
+    query: {
+      enabled: Boolean(adapter),
+      refetchOnWindowFocus: false,
+      staleTime: 30000
+    }
+  })
+
+  const {
+    data: assetConfigData,
+    refetch: refetchAssetConfigs
+  } = useReadContracts({
+    contracts: vaultHandler
+      ? tokens.map(({ address: token }) => ({
+          ...vaultBasedHandlerContract(vaultHandler),
+          functionName: 'getAssetConfig',
+          args: [token]
+        } as const))
+      : [],
+    query: {
+      enabled: Boolean(vaultHandler) && tokens.length > 0,
+      refetchOnWindowFocus: false,
+      staleTime: 30000
+    }
+  })
+
+  const owners = {
+    loanManager: loanManagerData?.[0]?.result as Address | undefined,
+    vaultHandler: vaultHandlerData?.[0]?.result as Address | undefined,
+    adapter: adapterData?.[0]?.result as Address | undefined
+  }
+
+  const ownership = useMemo((): Record<AdminContract, boolean> => ({
+    loanManager: sameAddress(loanManagerData?.[0]?.result, address),
+    vaultHandler: sameAddress(vaultHandlerData?.[0]?.result, address),
+    adapter: sameAddress(adapterData?.[0]?.result, address)
+  }), [loanManagerData, vaultHandlerData, adapterData, address])
+
+  const loanManagerConfig = loanManagerData
+    ? {
+        protocolFee: (loanManagerData[1]?.result as bigint | undefined) ?? 0n,
+        liquidationBonus: (loanManagerData[2]?.result as bigint | undefined) ?? 0n,
+        paused: (loanManagerData[3]?.result as boolean | undefined) ?? false
+      }
+    : null
+
+  const vaultHandlerConfig = vaultHandlerData
+    ? {
+        baseInterestRate: (vaultHandlerData[1]?.result as bigint | undefined) ?? 0n,
+        utilizationMultiplier: (vaultHandlerData[2]?.result as bigint | undefined) ?? 0n
+      }
+    : null
+
+  const adapterConfig = adapterData
+    ? {
+        criticalRiskThreshold: (adapterData[1]?.result as bigint | undefined) ?? 0n,
+        dangerRiskThreshold: (adapterData[2]?.result as bigint | undefined) ?? 0n,
+        warningRiskThreshold: (adapterData[3]?.result as bigint | undefined) ?? 0n
+      }
+    : null
+
+  const assetConfigs = useMemo((): AdminAssetConfig[] => {
+    return tokens.map(({ address: token, symbol }, i) => {
+      const config = assetConfigData?.[i]?.result as
+        | { collateralRatio: bigint; liquidationRatio: bigint; maxLoanAmount: bigint; interestRate: bigint; isActive: boolean }
+        | undefined
+
+      return {
+        token,
+        symbol,
+        collateralRatio: config?.collateralRatio ?? 0n,
+        liquidationRatio: config?.liquidationRatio ?? 0n,
+        maxLoanAmount: config?.maxLoanAmount ?? 0n,
+        interestRate: config?.interestRate ?? 0n,
+        isActive: config?.isActive ?? false
+      }
+    })
+  }, [tokens, assetConfigData])
+
+  const refreshAll = useCallback(async () => {
+    await Promise.all([refetchLoanManager(), refetchVaultHandler(), refetchAdapter(), refetchAssetConfigs()])
+  }, [refetchLoanManager, refetchVaultHandler, refetchAdapter, refetchAssetConfigs])
+
+  // ===================================
+  // 🧱 CONSTRUCCIÓN DE LLAMADAS
+  // ===================================
+
+  const buildCall = useCallback((action: AdminAction): AdminCall | null => {
+    if (!publicClient) return null
+
+    switch (action.kind) {
+      case 'setProtocolFee': {
+        if (!loanManager) return null
+        const request = { ...flexibleLoanManagerContract(loanManager), functionName: 'setProtocolFee', args: [action.fee] } as const
+        return {
+          estimate: async (account) => {
+            await publicClient.simulateContract({ ...request, account })
+            return publicClient.estimateContractGas({ ...request, account })
+          },
+          send: () => writeContractAsync(request)
+        }
+      }
+      case 'setPaused': {
+        if (!loanManager) return null
+        const request = { ...flexibleLoanManagerContract(loanManager), functionName: 'setPaused', args: [action.paused] } as const
+        return {
+          estimate: async (account) => {
+            await publicClient.simulateContract({ ...request, account })
+            return publicClient.estimateContractGas({ ...request, account })
+          },
+          send: () => writeContractAsync(request)
+        }
+      }
+      case 'setLiquidationBonus': {
+        if (!loanManager) return null
+        const request = { ...flexibleLoanManagerContract(loanManager), functionName: 'setLiquidationBonus', args: [action.bonus] } as const
+        return {
+          estimate: async (account) => {
+            await publicClient.simulateContract({ ...request, account })
+            return publicClient.estimateContractGas({ ...request, account })
+          },
+          send: () => writeContractAsync(request)
+        }
+      }
+      case 'activateEmergencyMode': {
+        if (!loanManager) return null
+        const request = {
+          ...flexibleLoanManagerContract(loanManager),
+          functionName: 'activateEmergencyMode',
+          args: [action.assets, action.reason]
+        } as const
+        return {
+          estimate: async (account) => {
+            await publicClient.simulateContract({ ...request, account })
+            return publicClient.estimateContractGas({ ...request, account })
+          },
+          send: () => writeContractAsync(request)
+        }
+      }
+      case 'resolveEmergencyMode': {
+        if (!loanManager) return null
+        const request = {
+          ...flexibleLoanManagerContract(loanManager),
+          functionName: 'resolveEmergencyMode',
+          args: [action.assets, action.reason]
+        } as const
+        return {
+          estimate: async (account) => {
+            await publicClient.simulateContract({ ...request, account })
+            return publicClient.estimateContractGas({ ...request, account })
+          },
+          send: () => writeContractAsync(request)
+        }
+      }
+      case 'configureAsset': {
+        if (!vaultHandler) return null
+        const request = {
+          ...vaultBasedHandlerContract(vaultHandler),
+          functionName: 'configureAsset',
+          args: [action.token, action.collateralRatio, action.liquidationRatio, action.maxLoanAmount, action.interestRate]
+        } as const
+        return {
+          estimate: async (account) => {
+            await publicClient.simulateContract({ ...request, account })
+            return publicClient.estimateContractGas({ ...request, account })
+          },
+          send: () => writeContractAsync(request)
+        }
+      }
+      case 'updateBothRatios': {
+        if (!vaultHandler) return null
+        const request = {
+          ...vaultBasedHandlerContract(vaultHandler),
+          functionName: 'updateBothRatios',
+          args: [action.token, action.collateralRatio, action.liquidationRatio]
+        } as const
+        return {
+          estimate: async (account) => {
+            await publicClient.simulateContract({ ...request, account })
+            return publicClient.estimateContractGas({ ...request, account })
+          },
+          send: () => writeContractAsync(request)
+        }
+      }
+      case 'setInterestRateParams': {
+        if (!vaultHandler) return null
+        const request = {
+          ...vaultBasedHandlerContract(vaultHandler),
+          functionName: 'setInterestRateParams',
+          args: [action.baseRate, action.multiplier]
+        } as const
+        return {
+          estimate: async (account) => {
+            await publicClient.simulateContract({ ...request, account })
+            return publicClient.estimateContractGas({ ...request, account })
+          },
+          send: () => writeContractAsync(request)
+        }
+      }
+      case 'setRiskThresholds': {
+        if (!adapter) return null
+        const request = {
+          ...loanAdapterContract(adapter),
+          functionName: 'setRiskThresholds',
+          args: [action.critical, action.danger, action.warning]
+        } as const
+        return {
+          estimate: async (account) => {
+            await publicClient.simulateContract({ ...request, account })
+            return publicClient.estimateContractGas({ ...request, account })
+          },
+          send: () => writeContractAsync(request)
+        }
+      }
+    }
+  }, [publicClient, writeContractAsync, loanManager, vaultHandler, adapter])
+
+  // ===================================
+  // 🧪 SIMULACIÓN
+  // ===================================
+
+  const simulate = useCallback(async (action: AdminAction): Promise<boolean> => {
+    const call = buildCall(action)
+    if (!call || !address) {
+      setState({ ...INITIAL_ADMIN_STATE, action, error: 'Contract not deployed on this network or wallet not connected' })
+      return false
+    }
+
+    if (!ownership[ADMIN_ACTION_CONTRACT[action.kind]]) {
+      setState({ ...INITIAL_ADMIN_STATE, action, error: 'The connected account is not the owner of this contract' })
+      return false
+    }
+
+    try {
+      setState({ ...INITIAL_ADMIN_STATE, step: 'simulating', action })
+
+      const gasEstimate = await call.estimate(address)
+
+      console.log(`🛠️ Admin action ${action.kind} simulated, gas:`, gasEstimate.toString())
+      setState({ ...INITIAL_ADMIN_STATE, step: 'ready', action, gasEstimate })
+      return true
+    } catch (err) {
+      console.error(`💥 Admin simulation error (${action.kind}):`, err)
+      setState({ ...INITIAL_ADMIN_STATE, action, error: formatTransactionError(err) })
+      return false
+    }
+  }, [buildCall, address, ownership])
+
+  // ===================================
+  // ✍️ CONFIRMACIÓN
+  // ===================================
+
+  const confirm = useCallback(async (): Promise<boolean> => {
+    const action = state.action
+    const call = action ? buildCall(action) : null
+    if (state.step !== 'ready' || !action || !call || !publicClient) return false
+
+    try {
+      setState((prev) => ({ ...prev, step: 'submitting', error: null }))
+
+      const txHash = await call.send()
+      trackTransaction({ hash: txHash, purpose: 'admin', description: action.kind })
+      setState((prev) => ({ ...prev, step: 'confirming', txHash }))
+
+      const receipt = await publicClient.waitForTransactionReceipt({ hash: txHash })
+      if (receipt.status !== 'success') {
+        throw new Error(`${action.kind} transaction reverted`)
+      }
+
+      console.log(`✅ Admin action ${action.kind} confirmed:`, txHash)
+      setState((prev) => ({ ...prev, step: 'completed' }))
+      await refreshAll()
+      return true
+    } catch (err) {
+      console.error(`💥 Admin action error (${action.kind}):`, err)
+      setState((prev) => ({ ...prev, step: 'idle', error: formatTransactionError(err) }))
+      return false
+    }
+  }, [state.action, state.step, buildCall, publicClient, trackTransaction, refreshAll])
+
+  const reset = useCallback(() => setState(INITIAL_ADMIN_STATE), [])
+
+  return {
+    // 📊 Datos
+    addresses: { loanManager, vaultHandler, adapter },
+    owners,
+    ownership,
+    isAdmin: ownership.loanManager || ownership.vaultHandler || ownership.adapter,
+    loanManagerConfig,
+    vaultHandlerConfig,
+    adapterConfig,
+    assetConfigs,
+
+    // 🔄 Estados
+    isLoading: isLoadingLoanManager || isLoadingVaultHandler || isLoadingAdapter,
+    state,
+
+    // 🚀 Funciones
+    simulate,
+    confirm,
+    reset,
+    refresh: refreshAll
+  }
+}
+
+export default useProtocolAdmin
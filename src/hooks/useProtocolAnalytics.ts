@@ -0,0 +1,202 @@
+/**
+ * @fileoverview useProtocolAnalytics.ts
+ * @description Hook de analytics: totales del protocolo por asset y métricas agregadas del usuario
+ * @version 2025 - Compatible con wagmi v2.x y viem v2.x
+ *
+ * Funcionalidades:
+ * - Liquidez, préstamos y utilización por asset desde VaultBasedHandler.getVaultStats
+ * - Número de posiciones activas desde FlexibleLoanManager.getTotalActivePositions
+ * - Colateral, deuda, LTV medio y health factor ponderado del usuario desde useUserPositions
+ */
+
+import { useCallback, useMemo } from 'react'
+import { useReadContract, useReadContracts } from 'wagmi'
+import { formatUnits, type Address } from 'viem'
+
+import { FLEXIBLE_LOAN_MANAGER_ABI } from '../Abis'
+import { vaultBasedHandlerContract } from '../utils/contracts'
+import { useContractAddresses } from './useContractAddresses'
+import { useUserPositions } from './useUserPositions'
+import { useOraclePrices, type OraclePrices } from './useOraclePrices'
+import { RISK_PRECISION, calculateHealthFactor, getSuggestedLiquidationRatio } from '../utils/riskEngine'
+
+// ===================================
+// 🏗️ INTERFACES Y TIPOS
+// ===================================
+
+export interface AssetAnalytics {
+  token: Address
+  symbol: string
+  price: number
+  totalLiquidity: number      // En unidades del token
+  totalBorrowed: number       // En unidades del token
+  totalLiquidityUSD: number
+  totalBorrowedUSD: number
+  utilizationRate: number     // Porcentaje (0-100)
+  borrowApr: number           // Porcentaje
+}
+
+export interface UserAnalytics {
+  positionCount: number
+  totalCollateralUSD: number
+  totalDebtUSD: number
+  averageLtv: number          // Porcentaje, deuda total / colateral total
+  weightedHealthFactor: number | null   // Ponderado por deuda; null si no hay deuda
+}
+
+export interface ProtocolAnalytics {
+  assets: AssetAnalytics[]
+  totalLiquidityUSD: number
+  totalBorrowedUSD: number
+  totalActivePositions: number
+}
+
+// Health factor a partir del que se considera "sin riesgo" (coincide con el formato de MyPositionsTab)
+const MAX_DISPLAY_HEALTH_FACTOR = 5
+
+// ===================================
+// 🎯 HOOK PRINCIPAL: useProtocolAnalytics
+// ===================================
+
+export function useProtocolAnalytics() {
+  const { addresses, getAllTokenAddresses, getTokenInfo, getAssetSymbol, isReady } = useContractAddresses()
+  const { prices, isLoading: isLoadingPrices } = useOraclePrices()
+  const { positions, isLoading: isLoadingPositions, refreshPositions } = useUserPositions()
+
+  const getPrice = useCallback(
+    (symbol: string): number => prices[symbol as keyof OraclePrices] ?? 0,
+    [prices]
+  )
+
+  const vaultHandler = addresses?.vaultBasedHandler
+  const tokens = useMemo(() => getAllTokenAddresses(), [getAllTokenAddresses])
+
+  // ===================================
+  // 🔍 DATOS DEL PROTOCOLO
+  // ===================================
+
+  const {
+    data: vaultStatsData,
+    refetch: refetchVaultStats,
+    isLoading: isLoadingVaultStats
+  } = useReadContracts({
+    contracts: vaultHandler
+      ? tokens.map(({ address: token }) => ({
+          ...vaultBasedHandlerContract(vaultHandler),
+          functionName: 'getVaultStats',
+          args: [token]
+        }) as const)
+      : [],
+    query: {
+      enabled: isReady && Boolean(vaultHandler) && tokens.length > 0,
+      refetchOnWindowFocus: false,
+      staleTime: 30000
+    }
+  })
+
+  const {
+    data: totalActivePositionsData,
+    refetch: refetchTotalActivePositions
+  } = useReadContract({
+    address: addresses?.flexibleLoanManager,
+    abi: FLEXIBLE_LOAN_MANAGER_ABI,
+    functionName: 'getTotalActivePositions',
+    query: {
+      enabled: Boolean(addresses?.flexibleLoanManager),
+      refetchOnWindowFocus: false,
+      staleTime: 30000
+    }
+  })
+
+  const protocol = useMemo((): ProtocolAnalytics => {
+    const assets: AssetAnalytics[] = []
+
+    tokens.forEach(({ address: token, symbol }, i) => {
+      const stats = vaultStatsData?.[i]?.result
+      if (!stats) return
+
+      const [liquidityRaw, borrowedRaw, , utilizationRaw, interestRateRaw] = stats
+      const decimals = getTokenInfo(token)?.decimals ?? 18
+      const price = getPrice(symbol)
+
+      const totalLiquidity = parseFloat(formatUnits(liquidityRaw, decimals))
+      const totalBorrowed = parseFloat(formatUnits(borrowedRaw, decimals))
+
+      assets.push({
+        token,
+        symbol,
+        price,
+        totalLiquidity,
+        totalBorrowed,
+        totalLiquidityUSD: totalLiquidity * price,
+        totalBorrowedUSD: totalBorrowed * price,
+        // Tasas en 6 decimales (1000000 = 100%)
+        utilizationRate: Number(utilizationRaw) / 10000,
+        borrowApr: Number(interestRateRaw) / 10000
+      })
+    })
+
+    return {
+      assets,
+      totalLiquidityUSD: assets.reduce((sum, asset) => sum + asset.totalLiquidityUSD, 0),
+      totalBorrowedUSD: assets.reduce((sum, asset) => sum + asset.totalBorrowedUSD, 0),
+      totalActivePositions: Number(totalActivePositionsData ?? 0n)
+    }
+  }, [tokens, vaultStatsData, totalActivePositionsData, getTokenInfo, getPrice])
+
+  // ===================================
+  // 👤 DATOS DEL USUARIO
+  // ===================================
+
+  const user = useMemo((): UserAnalytics => {
+    let totalCollateralUSD = 0
+    let totalDebtUSD = 0
+    let weightedHealthSum = 0
+
+    positions.forEach((positionData) => {
+      const collateralSymbol = getAssetSymbol(positionData.position.collateralAsset)
+      const loanSymbol = getAssetSymbol(positionData.position.loanAsset)
+
+      const collateralUSD = parseFloat(positionData.collateralValueFormatted) * getPrice(collateralSymbol)
+      const debtUSD = parseFloat(positionData.debtValueFormatted) * getPrice(loanSymbol)
+
+      totalCollateralUSD += collateralUSD
+      totalDebtUSD += debtUSD
+
+      // El ratio on-chain viene en 6 decimales y es type(uint256).max cuando no hay deuda
+      if (debtUSD > 0) {
+        const healthFactor = Math.min(
+          Number(calculateHealthFactor(
+            positionData.collateralizationRatio,
+            getSuggestedLiquidationRatio(collateralSymbol)
+          )) / Number(RISK_PRECISION),
+          MAX_DISPLAY_HEALTH_FACTOR
+        )
+        weightedHealthSum += healthFactor * debtUSD
+      }
+    })
+
+    return {
+      positionCount: positions.length,
+      totalCollateralUSD,
+      totalDebtUSD,
+      averageLtv: totalCollateralUSD > 0 ? (totalDebtUSD / totalCollateralUSD) * 100 : 0,
+      weightedHealthFactor: totalDebtUSD > 0 ? weightedHealthSum / totalDebtUSD : null
+    }
+  }, [positions, getAssetSymbol, getPrice])
+
+  const refresh = useCallback(async () => {
+    await Promise.all([refetchVaultStats(), refetchTotalActivePositions()])
+    refreshPositions()
+  }, [refetchVaultStats, refetchTotalActivePositions, refreshPositions])
+
+  return {
+    protocol,
+    user,
+    isLoading: !isReady || isLoadingVaultStats || isLoadingPrices,
+    isLoadingPositions,
+    refresh
+  }
+}
+
+export default useProtocolAnalytics
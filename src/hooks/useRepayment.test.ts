@@ -0,0 +1,154 @@
+import { describe, it, expect } from 'vitest';
+import type { Address } from 'viem';
+import type { LoanPosition } from '../utils/contracts';
+import {
+  QUOTE_VALIDITY_SECONDS,
+  buildRepaymentQuote,
+  isQuoteExpired,
+  planRepaymentApprovals,
+  quoteMatchesRequest
+} from './useRepayment';
+
+const LOAN_MANAGER: Address = '0x1111111111111111111111111111111111111111';
+const ASSET_HANDLER: Address = '0x2222222222222222222222222222222222222222';
+const LOAN_ASSET: Address = '0x3333333333333333333333333333333333333333';
+
+// At 100% APR this principal accrues exactly 1000 units of interest per second
+const LOAN_AMOUNT = 31536000000n;
+const LAST_UPDATE = 1000000;
+const QUOTED_AT = LAST_UPDATE + 100;
+const FEE_RATE = 5000n; // 0.5%
+
+const position = (loanAmount: bigint = LOAN_AMOUNT): LoanPosition => ({
+  borrower: '0x4444444444444444444444444444444444444444',
+  collateralAsset: '0x5555555555555555555555555555555555555555',
+  loanAsset: LOAN_ASSET,
+  collateralAmount: 10n ** 18n,
+  loanAmount,
+  interestRate: 1000000n,
+  createdAt: BigInt(LAST_UPDATE),
+  lastInterestUpdate: BigInt(LAST_UPDATE),
+  isActive: true
+});
+
+const quote = (requestedAmount?: bigint, loanAmount?: bigint) =>
+  buildRepaymentQuote({
+    positionId: 7n,
+    position: position(loanAmount),
+    storedInterest: 0n,
+    protocolFeeRate: FEE_RATE,
+    requestedAmount,
+    quotedAt: QUOTED_AT
+  });
+
+describe('buildRepaymentQuote', () => {
+  it('projects the debt to the end of the validity window', () => {
+    const result = quote();
+
+    expect(result.expiresAt).toBe(QUOTED_AT + QUOTE_VALIDITY_SECONDS);
+    expect(result.current.interestPayment).toBe(100000n);
+    expect(result.atExpiry.interestPayment).toBe(400000n);
+    expect(result.atExpiry.protocolFee).toBe(2000n);
+  });
+
+  it('sends the projected debt on a full repay and approves the whole principal', () => {
+    const result = quote();
+
+    expect(result.requestedAmount).toBeNull();
+    expect(result.repayAmount).toBe(LOAN_AMOUNT + 400000n);
+    expect(result.feeAllowance).toBe(2000n);
+    expect(result.principalAllowance).toBe(LOAN_AMOUNT);
+    expect(result.tokensRequired).toBe(LOAN_AMOUNT + 2000n);
+  });
+
+  it('takes the fee at expiry and the principal at quote time on a partial repay', () => {
+    const result = quote(1000000n);
+
+    expect(result.repayAmount).toBe(1000000n);
+    expect(result.requestedAmount).toBe(1000000n);
+    expect(result.feeAllowance).toBe(2000n);
+    expect(result.principalAllowance).toBe(900000n);
+    expect(result.tokensRequired).toBe(902000n);
+  });
+
+  it('turns a partial request that covers the projected debt into a full repay', () => {
+    const result = quote(LOAN_AMOUNT + 1000000n);
+
+    expect(result.requestedAmount).toBeNull();
+    expect(result.quotedAmount).toBe(LOAN_AMOUNT + 1000000n);
+    expect(result.repayAmount).toBe(LOAN_AMOUNT + 400000n);
+  });
+
+  it('sends one unit to close a position without debt', () => {
+    const result = quote(undefined, 0n);
+
+    expect(result.repayAmount).toBe(1n);
+    expect(result.tokensRequired).toBe(0n);
+  });
+});
+
+describe('isQuoteExpired', () => {
+  it('expires at expiresAt and honours the signature margin', () => {
+    const result = quote();
+
+    expect(isQuoteExpired(result, result.expiresAt - 1)).toBe(false);
+    expect(isQuoteExpired(result, result.expiresAt)).toBe(true);
+    expect(isQuoteExpired(result, result.expiresAt - 30, 60)).toBe(true);
+  });
+});
+
+describe('quoteMatchesRequest', () => {
+  it('only matches the position and amount it was quoted for', () => {
+    const result = quote(1000000n);
+
+    expect(quoteMatchesRequest(result, 7n, 1000000n)).toBe(true);
+    expect(quoteMatchesRequest(result, 7n)).toBe(false);
+    expect(quoteMatchesRequest(result, 8n, 1000000n)).toBe(false);
+  });
+});
+
+describe('planRepaymentApprovals', () => {
+  const plan = (loanManagerAllowance: bigint, assetHandlerAllowance: bigint) =>
+    planRepaymentApprovals({
+      quote: quote(1000000n),
+      loanManager: LOAN_MANAGER,
+      assetHandler: ASSET_HANDLER,
+      loanManagerAllowance,
+      assetHandlerAllowance
+    });
+
+  it('splits the fee to the loan manager and the principal to the asset handler', () => {
+    const result = plan(0n, 0n);
+
+    expect(result.strategy).toBe('split');
+    expect(result.approvals).toEqual([
+      { spender: LOAN_MANAGER, purpose: 'protocol-fee', amount: 2000n, currentAllowance: 0n },
+      { spender: ASSET_HANDLER, purpose: 'principal', amount: 900000n, currentAllowance: 0n }
+    ]);
+  });
+
+  it('only approves the spender whose allowance falls short', () => {
+    expect(plan(2000n, 0n).strategy).toBe('asset-handler');
+    expect(plan(0n, 900000n).strategy).toBe('loan-manager');
+    expect(plan(2000n, 900000n)).toEqual({ strategy: 'none', approvals: [] });
+  });
+
+  it('skips the fee approval when the protocol charges no fee', () => {
+    const result = planRepaymentApprovals({
+      quote: buildRepaymentQuote({
+        positionId: 7n,
+        position: position(),
+        storedInterest: 0n,
+        protocolFeeRate: 0n,
+        requestedAmount: 1000000n,
+        quotedAt: QUOTED_AT
+      }),
+      loanManager: LOAN_MANAGER,
+      assetHandler: ASSET_HANDLER,
+      loanManagerAllowance: 0n,
+      assetHandlerAllowance: 0n
+    });
+
+    expect(result.strategy).toBe('asset-handler');
+  });
+});
@@ -0,0 +1,667 @@
+/**
+ * @fileoverview useRepayment.ts
+ * @description Servicio único de repago de posiciones (wagmi v2 + viem v2)
+ * @version 2025 - Compatible con wagmi v2.x y viem v2.x
+ *
+ * Funcionalidades:
+ * - Calcular el desglose exacto del repago (interés, principal y comisión) igual que repayLoan()
+ * - Cotizar el repago proyectando el interés hasta el vencimiento de la cotización
+ * - Elegir la estrategia de aprobación con los montos exactos de la cotización (sin buffers)
+ * - Simular y ejecutar repayLoan en FlexibleLoanManager, esperando el evento LoanRepaid
+ *
+ * Flujo de tokens de FlexibleLoanManager.repayLoan():
+ * 1. transferFrom(usuario → feeCollector) por la comisión sobre el interés pagado (spender: LoanManager)
+ * 2. assetHandler.repay() hace su propio transferFrom por el principal (spender: AssetHandler)
+ */
+
+import { useState, useCallback, useRef } from 'react'
+import { useAccount, useWriteContract, usePublicClient } from 'wagmi'
+import { parseEventLogs, type Address, type Hash } from 'viem'
+
+import { ERC20_ABI, FLEXIBLE_LOAN_MANAGER_ABI, VAULT_BASED_HANDLER_ABI } from '../Abis'
+import { useContractAddresses } from './useContractAddresses'
+import { useTransactionManager } from './useTransactionManager'
+import type { LoanPosition } from '../utils/contracts'
+import { decodeTransactionError, type DecodedTransactionError } from '../utils/errorDecoder'
+
+// ===================================
+// 🏗️ INTERFACES Y TIPOS
+// ===================================
+
+export interface RepaymentBreakdown {
+  totalDebt: bigint           // Principal + interés acumulado al momento de la lectura
+  repayAmount: bigint         // Monto enviado a repayLoan (acotado a totalDebt)
+  interestPayment: bigint     // Parte del pago que cancela interés
+  principalPayment: bigint    // Parte del pago que cancela principal (transferido al AssetHandler)
+  protocolFee: bigint         // Comisión sobre interestPayment (transferida por el LoanManager)
+  protocolFeeRate: bigint     // 6 decimales (5000 = 0.5%)
+  tokensRequired: bigint      // protocolFee + principalPayment: lo que sale de la wallet
+  willClosePosition: boolean
+}
+
+// Aprobaciones necesarias según quién hace cada transferFrom
+export type ApprovalStrategy =
+  | 'none'            // Los allowances actuales ya cubren el repago
+  | 'loan-manager'    // Solo falta allowance para la comisión
+  | 'asset-handler'   // Solo falta allowance para el principal
+  | 'split'           // Faltan ambos allowances
+
+export interface ApprovalRequirement {
+  spender: Address
+  purpose: 'protocol-fee' | 'principal'
+  amount: bigint
+  currentAllowance: bigint
+}
+
+export interface ApprovalPlan {
+  strategy: ApprovalStrategy
+  approvals: ApprovalRequirement[]
+}
+
+/**
+ * Cotización de repago válida hasta expiresAt.
+ * El interés solo crece con el tiempo, así que proyectarlo al vencimiento da la cota superior
+ * de la comisión, y el interés al bloque actual da la cota superior del principal.
+ */
+export interface RepaymentQuote {
+  positionId: bigint
+  loanAsset: Address
+  quotedAmount: bigint | null      // Monto que pidió el usuario al cotizar (null = sin monto)
+  requestedAmount: bigint | null   // null = repago total
+  quotedAt: number                 // Timestamp del bloque usado para la cotización (segundos)
+  expiresAt: number                // Timestamp al que se proyecta la deuda (segundos)
+  current: RepaymentBreakdown      // Desglose al bloque de la cotización
+  atExpiry: RepaymentBreakdown     // Desglose proyectado a expiresAt
+  repayAmount: bigint              // Monto a enviar a repayLoan
+  feeAllowance: bigint             // Aprobación exacta para el LoanManager
+  principalAllowance: bigint       // Aprobación exacta para el AssetHandler
+  tokensRequired: bigint           // Salida máxima de la wallet si se mina antes de expiresAt
+}
+
+export interface RepaymentState {
+  step: 'idle' | 'quoting' | 'approving' | 'repaying' | 'confirming' | 'completed'
+  positionId: bigint | null
+  quote: RepaymentQuote | null
+  approvalStrategy: ApprovalStrategy | null
+  approveHashes: Hash[]
+  txHash: Hash | null
+  error: string | null
+  errorDetails: DecodedTransactionError | null
+}
+
+export interface RepaymentResult {
+  success: boolean
+  txHash?: Hash
+  error?: string
+  errorDetails?: DecodedTransactionError
+  message?: string
+}
+
+const INITIAL_STATE: RepaymentState = {
+  step: 'idle',
+  positionId: null,
+  quote: null,
+  approvalStrategy: null,
+  approveHashes: [],
+  txHash: null,
+  error: null,
+  errorDetails: null
+}
+
+// Ventana de validez de una cotización: cubre las firmas de aprobación y el repago
+export const QUOTE_VALIDITY_SECONDS = 300
+
+// Mismo divisor que updateInterest(): interestRate en 6 decimales por año
+const INTEREST_DIVISOR = 365n * 24n * 3600n * 1000000n
+
+// Intentos de recotizar si la cotización vence mientras el usuario firma las aprobaciones
+const MAX_QUOTE_ATTEMPTS = 3
+
+// Validez mínima que debe quedarle a la cotización al pedir la firma de repayLoan
+export const REPAY_SIGNATURE_MARGIN_SECONDS = 60
+
+// ===================================
+// 🧮 CÁLCULO DEL REPAGO
+// ===================================
+
+/**
+ * Reproduce la distribución de FlexibleLoanManager.repayLoan():
+ * primero se cancela interés (cobrando la comisión del protocolo sobre él) y el resto va a principal.
+ * Sin requestedAmount se calcula el repago total.
+ */
+export function calculateRepaymentBreakdown({
+  loanAmount,
+  accruedInterest,
+  protocolFeeRate,
+  requestedAmount
+}: {
+  loanAmount: bigint
+  accruedInterest: bigint
+  protocolFeeRate: bigint
+  requestedAmount?: bigint
+}): RepaymentBreakdown {
+  const totalDebt = loanAmount + accruedInterest
+  const repayAmount = requestedAmount !== undefined && requestedAmount < totalDebt
+    ? requestedAmount
+    : totalDebt
+
+  const interestPayment = repayAmount > accruedInterest ? accruedInterest : repayAmount
+  const principalPayment = repayAmount - interestPayment
+  const protocolFee = (interestPayment * protocolFeeRate) / 1000000n
+
+  return {
+    totalDebt,
+    repayAmount,
+    interestPayment,
+    principalPayment,
+    protocolFee,
+    protocolFeeRate,
+    tokensRequired: protocolFee + principalPayment,
+    willClosePosition: repayAmount >= totalDebt
+  }
+}
+
+/**
+ * Proyecta el interés acumulado a un timestamp con la misma fórmula que updateInterest()
+ */
+export function projectAccruedInterest({
+  loanAmount,
+  interestRate,
+  lastInterestUpdate,
+  storedInterest,
+  timestamp
+}: {
+  loanAmount: bigint
+  interestRate: bigint
+  lastInterestUpdate: bigint
+  storedInterest: bigint           // accruedInterest[positionId] en storage
+  timestamp: number
+}): bigint {
+  const target = BigInt(Math.floor(timestamp))
+  const elapsed = target > lastInterestUpdate ? target - lastInterestUpdate : 0n
+  return storedInterest + (loanAmount * interestRate * elapsed) / INTEREST_DIVISOR
+}
+
+/**
+ * Cotiza un repago proyectando la deuda desde quotedAt hasta quotedAt + validForSeconds
+ */
+export function buildRepaymentQuote({
+  positionId,
+  position,
+  storedInterest,
+  protocolFeeRate,
+  requestedAmount,
+  quotedAt,
+  validForSeconds = QUOTE_VALIDITY_SECONDS
+}: {
+  positionId: bigint
+  position: LoanPosition
+  storedInterest: bigint
+  protocolFeeRate: bigint
+  requestedAmount?: bigint
+  quotedAt: number
+  validForSeconds?: number
+}): RepaymentQuote {
+  const expiresAt = quotedAt + validForSeconds
+  const interestAt = (timestamp: number) => projectAccruedInterest({
+    loanAmount: position.loanAmount,
+    interestRate: position.interestRate,
+    lastInterestUpdate: position.lastInterestUpdate,
+    storedInterest,
+    timestamp
+  })
+
+  const current = calculateRepaymentBreakdown({
+    loanAmount: position.loanAmount,
+    accruedInterest: interestAt(quotedAt),
+    protocolFeeRate,
+    requestedAmount
+  })
+  const atExpiry = calculateRepaymentBreakdown({
+    loanAmount: position.loanAmount,
+    accruedInterest: interestAt(expiresAt),
+    protocolFeeRate,
+    requestedAmount
+  })
+
+  const isFullRepay = requestedAmount === undefined || atExpiry.willClosePosition
+
+  // Repago total: se envía la deuda proyectada y el contrato la acota a la deuda real al minar.
+  // repayLoan exige amount > 0, así que una posición sin deuda se cierra enviando 1 unidad.
+  const repayAmount = isFullRepay
+    ? (atExpiry.totalDebt > 0n ? atExpiry.totalDebt : 1n)
+    : atExpiry.repayAmount
+
+  // La comisión es máxima con el interés más alto (al vencimiento); el principal es máximo
+  // con el interés más bajo (ahora), porque el pago parcial cancela interés primero
+  const feeAllowance = atExpiry.protocolFee
+  const principalAllowance = isFullRepay ? position.loanAmount : current.principalPayment
+
+  return {
+    positionId,
+    loanAsset: position.loanAsset,
+    quotedAmount: requestedAmount ?? null,
+    requestedAmount: isFullRepay ? null : atExpiry.repayAmount,
+    quotedAt,
+    expiresAt,
+    current,
+    atExpiry,
+    repayAmount,
+    feeAllowance,
+    principalAllowance,
+    tokensRequired: feeAllowance + principalAllowance
+  }
+}
+
+/**
+ * Una cotización vencida ya no garantiza que las aprobaciones cubran la deuda.
+ * marginSeconds exige además que quede ese tiempo de validez (p. ej. para firmar)
+ */
+export function isQuoteExpired(
+  quote: RepaymentQuote,
+  nowSeconds: number = Date.now() / 1000,
+  marginSeconds: number = 0
+): boolean {
+  return nowSeconds + marginSeconds >= quote.expiresAt
+}
+
+/**
+ * Una cotización solo sirve para la posición y el monto con que se pidió
+ */
+export function quoteMatchesRequest(quote: RepaymentQuote, positionId: bigint, amount?: bigint): boolean {
+  return quote.positionId === positionId && quote.quotedAmount === (amount ?? null)
+}
+
+/**
+ * Decide qué aprobaciones hacen falta para que ambos transferFrom de repayLoan() pasen
+ */
+export function planRepaymentApprovals({
+  quote,
+  loanManager,
+  assetHandler,
+  loanManagerAllowance,
+  assetHandlerAllowance
+}: {
+  quote: RepaymentQuote
+  loanManager: Address
+  assetHandler: Address
+  loanManagerAllowance: bigint
+  assetHandlerAllowance: bigint
+}): ApprovalPlan {
+  const approvals: ApprovalRequirement[] = []
+
+  if (quote.feeAllowance > 0n && loanManagerAllowance < quote.feeAllowance) {
+    approvals.push({
+      spender: loanManager,
+      purpose: 'protocol-fee',
+      amount: quote.feeAllowance,
+      currentAllowance: loanManagerAllowance
+    })
+  }
+
+  if (quote.principalAllowance > 0n && assetHandlerAllowance < quote.principalAllowance) {
+    approvals.push({
+      spender: assetHandler,
+      purpose: 'principal',
+      amount: quote.principalAllowance,
+      currentAllowance: assetHandlerAllowance
+    })
+  }
+
+  let strategy: ApprovalStrategy = 'none'
+  if (approvals.length === 2) {
+    strategy = 'split'
+  } else if (approvals.length === 1) {
+    strategy = approvals[0].purpose === 'protocol-fee' ? 'loan-manager' : 'asset-handler'
+  }
+
+  return { strategy, approvals }
+}
+
+// ===================================
+// 🎯 HOOK PRINCIPAL: useRepayment
+// ===================================
+
+export function useRepayment({
+  onConfirmed
+}: {
+  onConfirmed?: (positionId: bigint, closed: boolean) => void
+} = {}) {
+  const { address } = useAccount()
+  const publicClient = usePublicClient()
+  const { addresses } = useContractAddresses()
+  const { writeContractAsync } = useWriteContract()
+  const { trackTransaction } = useTransactionManager()
+
+  const [state, setState] = useState<RepaymentState>(INITIAL_STATE)
+
+  // Solo la última cotización pedida actualiza el estado (las lecturas pueden resolver desordenadas)
+  const latestQuoteRequest = useRef(0)
+
+  const updateState = useCallback((updates: Partial<RepaymentState>) => {
+    setState(prev => ({ ...prev, ...updates }))
+  }, [])
+
+  const resetState = useCallback(() => {
+    setState(INITIAL_STATE)
+  }, [])
+
+  /**
+   * Detecta qué asset handler maneja el token de préstamo (mismo orden que _getAssetHandler)
+   */
+  const detectAssetHandler = useCallback(async (tokenAddress: Address): Promise<Address | null> => {
+    if (!addresses || !publicClient) return null
+
+    const handlers = [
+      addresses.vaultBasedHandler,
+      addresses.flexibleAssetHandler,
+      addresses.mintableBurnableHandler
+    ]
+
+    for (const handlerAddress of handlers) {
+      if (!handlerAddress) continue
+
+      try {
+        const isSupported = await publicClient.readContract({
+          address: handlerAddress,
+          abi: VAULT_BASED_HANDLER_ABI,
+          functionName: 'isAssetSupported',
+          args: [tokenAddress]
+        })
+
+        if (isSupported) return handlerAddress
+      } catch (error) {
+        console.log(`Handler ${handlerAddress} check failed:`, error)
+      }
+    }
+
+    return null
+  }, [addresses, publicClient])
+
+  /**
+   * Cotiza el repago de una posición contra el último bloque
+   */
+  const quoteRepayment = useCallback(async (
+    positionId: bigint,
+    requestedAmount?: bigint
+  ): Promise<RepaymentQuote | null> => {
+    if (!addresses?.flexibleLoanManager || !publicClient) return null
+
+    const loanManager = addresses.flexibleLoanManager
+    const request = ++latestQuoteRequest.current
+    const [position, storedInterest, protocolFeeRate, block] = await Promise.all([
+      publicClient.readContract({
+        address: loanManager,
+        abi: FLEXIBLE_LOAN_MANAGER_ABI,
+        functionName: 'getPosition',
+        args: [positionId]
+      }),
+      publicClient.readContract({
+        address: loanManager,
+        abi: FLEXIBLE_LOAN_MANAGER_ABI,
+        functionName: 'accruedInterest',
+        args: [positionId]
+      }),
+      publicClient.readContract({
+        address: loanManager,
+        abi: FLEXIBLE_LOAN_MANAGER_ABI,
+        functionName: 'protocolFee'
+      }),
+      publicClient.getBlock()
+    ])
+
+    if (!position.isActive) return null
+
+    const quote = buildRepaymentQuote({
+      positionId,
+      position,
+      storedInterest,
+      protocolFeeRate,
+      requestedAmount,
+      quotedAt: Number(block.timestamp)
+    })
+
+    if (request === latestQuoteRequest.current) {
+      setState(prev => ({ ...prev, positionId, quote }))
+    }
+    return quote
+  }, [addresses, publicClient])
+
+  /**
+   * Repaga una posición: cotiza, aprueba lo que falte, simula y ejecuta repayLoan.
+   * Sin amount se repaga toda la deuda y se libera el colateral.
+   * Si se pasa una cotización vigente de la misma posición y el mismo monto se reutiliza.
+   */
+  const repayPosition = useCallback(async (
+    positionId: bigint,
+    amount?: bigint,
+    existingQuote?: RepaymentQuote
+  ): Promise<RepaymentResult> => {
+    if (!addresses?.flexibleLoanManager || !address || !publicClient) {
+      return { success: false, error: 'Contract addresses not loaded or wallet not connected' }
+    }
+
+    const loanManager = addresses.flexibleLoanManager
+
+    try {
+      setState({ ...INITIAL_STATE, positionId, step: 'quoting' })
+
+      if (amount !== undefined && amount <= 0n) {
+        throw new Error('Amount must be greater than 0')
+      }
+
+      const isPaused = await publicClient.readContract({
+        address: loanManager,
+        abi: FLEXIBLE_LOAN_MANAGER_ABI,
+        functionName: 'paused'
+      })
+      if (isPaused) {
+        throw new Error('The loan manager is paused')
+      }
+
+      let quote = existingQuote &&
+        quoteMatchesRequest(existingQuote, positionId, amount) &&
+        !isQuoteExpired(existingQuote, undefined, REPAY_SIGNATURE_MARGIN_SECONDS)
+        ? existingQuote
+        : null
+      let assetHandler: Address | null = null
+      const approveHashes: Hash[] = []
+
+      for (let attempt = 1; ; attempt++) {
+        // 1. Cotización exacta proyectada al vencimiento
+        if (!quote) {
+          quote = await quoteRepayment(positionId, amount)
+          if (!quote) {
+            throw new Error('This position has already been repaid')
+          }
+        }
+        updateState({ quote, step: 'quoting' })
+
+        assetHandler ??= await detectAssetHandler(quote.loanAsset)
+        if (!assetHandler) {
+          throw new Error('No asset handler found for the loan token')
+        }
+
+        // 2. Balance y allowances actuales
+        const [balance, loanManagerAllowance, assetHandlerAllowance] = await Promise.all([
+          publicClient.readContract({
+            address: quote.loanAsset,
+            abi: ERC20_ABI,
+            functionName: 'balanceOf',
+            args: [address]
+          }),
+          publicClient.readContract({
+            address: quote.loanAsset,
+            abi: ERC20_ABI,
+            functionName: 'allowance',
+            args: [address, loanManager]
+          }),
+          publicClient.readContract({
+            address: quote.loanAsset,
+            abi: ERC20_ABI,
+            functionName: 'allowance',
+            args: [address, assetHandler]
+          })
+        ])
+
+        if (balance < quote.tokensRequired) {
+          throw new Error('Insufficient balance of the loan token for this repayment')
+        }
+
+        // 3. Aprobar exactamente lo cotizado, esperando cada confirmación
+        const plan = planRepaymentApprovals({
+          quote,
+          loanManager,
+          assetHandler,
+          loanManagerAllowance,
+          assetHandlerAllowance
+        })
+        updateState({ approvalStrategy: plan.strategy })
+
+        for (const approval of plan.approvals) {
+          updateState({ step: 'approving' })
+          console.log(`💰 Approving ${approval.purpose} for ${approval.spender}...`)
+
+          const approveHash = await writeContractAsync({
+            address: quote.loanAsset,
+            abi: ERC20_ABI,
+            functionName: 'approve',
+            args: [approval.spender, approval.amount]
+          })
+
+          trackTransaction({ hash: approveHash, purpose: 'approve', positionId, description: approval.purpose === 'protocol-fee' ? 'Protocol fee for FlexibleLoanManager' : 'Principal for asset handler' })
+          approveHashes.push(approveHash)
+          updateState({ approveHashes: [...approveHashes] })
+          const approveReceipt = await publicClient.waitForTransactionReceipt({ hash: approveHash })
+          if (approveReceipt.status !== 'success') {
+            throw new Error('Approval transaction reverted')
+          }
+        }
+
+        // 4. Las aprobaciones solo cubren la deuda hasta expiresAt: justo antes de simular,
+        // exigir que quede margen para firmar repayLoan o recotizar
+        const latestBlock = await publicClient.getBlock()
+        if (!isQuoteExpired(quote, Number(latestBlock.timestamp), REPAY_SIGNATURE_MARGIN_SECONDS)) break
+
+        if (attempt >= MAX_QUOTE_ATTEMPTS) {
+          throw new Error('Repayment quote expired while waiting for approvals. Please try again.')
+        }
+        console.log('⏱️ Repayment quote about to expire, re-quoting...')
+        quote = null
+      }
+
+      // 5. Simular y ejecutar con el monto cotizado
+      updateState({ step: 'repaying' })
+      const repayArgs = [positionId, quote.repayAmount] as const
+
+      await publicClient.simulateContract({
+        address: loanManager,
+        abi: FLEXIBLE_LOAN_MANAGER_ABI,
+        functionName: 'repayLoan',
+        args: repayArgs,
+        account: address
+      })
+
+      const txHash = await writeContractAsync({
+        address: loanManager,
+        abi: FLEXIBLE_LOAN_MANAGER_ABI,
+        functionName: 'repayLoan',
+        args: repayArgs
+      })
+      trackTransaction({ hash: txHash, purpose: 'repay', positionId })
+
+      // 6. Esperar confirmación del evento LoanRepaid
+      updateState({ step: 'confirming', txHash })
+      const receipt = await publicClient.waitForTransactionReceipt({ hash: txHash })
+      const repaidEvents = parseEventLogs({
+        abi: FLEXIBLE_LOAN_MANAGER_ABI,
+        eventName: 'LoanRepaid',
+        logs: receipt.logs
+      })
+
+      if (receipt.status !== 'success' || repaidEvents.length === 0) {
+        throw new Error('Transaction was mined but LoanRepaid was not emitted')
+      }
+
+      // Si se minó después de expiresAt puede quedar deuda: el contrato solo cierra la
+      // posición con loanAmount y accruedInterest en 0, así que se consulta isActive
+      const repaidPosition = await publicClient.readContract({
+        address: loanManager,
+        abi: FLEXIBLE_LOAN_MANAGER_ABI,
+        functionName: 'getPosition',
+        args: [positionId]
+      })
+      const closed = !repaidPosition.isActive
+      if (quote.requestedAmount === null && !closed) {
+        console.warn('⚠️ Full repayment left residual debt on position', positionId.toString())
+      }
+      console.log('✅ Position repaid', positionId.toString())
+      updateState({ step: 'completed' })
+      onConfirmed?.(positionId, closed)
+
+      return {
+        success: true,
+        txHash,
+        message: closed
+          ? 'Loan fully repaid. Your collateral has been returned to your wallet.'
+          : quote.requestedAmount === null
+            ? 'Interest accrued while the transaction was pending, so a small amount of debt remains.'
+            : undefined
+      }
+    } catch (error) {
+      const errorDetails = getRepaymentError(error)
+      console.error('💥 Repayment error:', error)
+      updateState({ step: 'idle', error: errorDetails.message, errorDetails })
+      return { success: false, error: errorDetails.message, errorDetails }
+    }
+  }, [addresses, address, publicClient, writeContractAsync, trackTransaction, updateState, quoteRepayment, detectAssetHandler, onConfirmed])
+
+  const repayFullPosition = useCallback(
+    (positionId: bigint) => repayPosition(positionId),
+    [repayPosition]
+  )
+
+  const repayPartialPosition = useCallback(
+    (positionId: bigint, amount: bigint) => repayPosition(positionId, amount),
+    [repayPosition]
+  )
+
+  return {
+    ...state,
+
+    // Funciones principales
+    quoteRepayment,
+    repayPosition,
+    repayFullPosition,
+    repayPartialPosition,
+    resetState,
+
+    // Estados derivados
+    isProcessing: state.step !== 'idle' && state.step !== 'completed',
+    isQuoteStale: state.quote !== null && isQuoteExpired(state.quote),
+    isApproving: state.step === 'approving',
+    isRepaying: state.step === 'repaying' || state.step === 'confirming'
+  }
+}
+
+// ===================================
+// 🧮 FUNCIONES AUXILIARES
+// ===================================
+
+function getRepaymentError(error: unknown): DecodedTransactionError {
+  const decoded = decodeTransactionError(error)
+
+  if (decoded.reason === 'Position not active' || decoded.details.includes('already been repaid')) {
+    return {
+      ...decoded,
+      kind: 'revert',
+      title: 'Already repaid',
+      message: 'This position has already been repaid.',
+      action: 'Refresh your positions to see the returned collateral.'
+    }
+  }
+
+  return decoded
+}
+
+export default useRepayment
@@ -1,30 +1,18 @@
 import { useMemo } from 'react';
-
-// Risk levels enum (matching RiskCalculator.sol but adapted for ultra-flexible system)
-export enum RiskLevel {
-  ULTRA_SAFE = 'ULTRA_SAFE',       // > 300%
-  HEALTHY = 'HEALTHY',             // 200% - 300%
-  MODERATE = 'MODERATE',           // 150% - 200%
-  AGGRESSIVE = 'AGGRESSIVE',       // 110% - 150%
-  EXTREME = 'EXTREME',             // 101% - 110%
-  DANGER_ZONE = 'DANGER_ZONE'     // ≤ 100% (technically liquidatable but system allows it)
-}
-
-// Risk thresholds adapted for FlexibleLoanManager (ultra-flexible)
-const ULTRA_SAFE_RATIO = 3000000;   // 300%
-const HEALTHY_RATIO = 2000000;      // 200%
-const MODERATE_RATIO = 1500000;     // 150%
-const AGGRESSIVE_RATIO = 1100000;   // 110%
-const EXTREME_RATIO = 1010000;      // 101%
-// Note: System allows even ratios below 100%!
-
-// Mock price data (in a real implementation, this would come from oracles)
-const MOCK_PRICES = {
-  'ETH': 2500,    // USD per ETH
-  'WBTC': 45000,  // USD per WBTC
-  'USDC': 1,      // USD per USDC
-  'VCOP': 1,      // USD per VCOP
-} as const;
+import { parseUnits } from 'viem';
+import {
+  RiskLevel,
+  PRICE_DECIMALS,
+  RISK_THRESHOLDS,
+  assessRisk,
+  getSuggestedLiquidationRatio,
+  toPriceUnits,
+  formatCollateralizationRatio,
+  formatHealthFactor,
+  getRiskLevelColor,
+  getRiskLevelBgColor
+} from '../utils/riskEngine';
+import { useOraclePrices, type OraclePrices, type PriceSource } from './useOraclePrices';
 
 // Asset volatility estimates (annualized)
 const ASSET_VOLATILITY = {
@@ -32,6 +20,7 @@ const ASSET_VOLATILITY = {
   'WBTC': 0.9,    // 90%
   'USDC': 0.01,   // 1%
   'VCOP': 0.02,   // 2%
+  'WGOLD': 0.15,  // 15%
 } as const;
 
 // 🔧 FIX: Asset decimals configuration
@@ -40,32 +29,21 @@ const ASSET_DECIMALS = {
   'WBTC': 8,      // Bitcoin typically uses 8 decimals
   'USDC': 6,      // USDC uses 6 decimals (CRITICAL FIX)
   'VCOP': 18,
+  'WGOLD': 18,
 } as const;
 
-// Asset configurations - These are SUGGESTIONS ONLY (not enforced by FlexibleAssetHandler)
-const ASSET_SUGGESTIONS = {
-  'ETH': {
-    suggestedCollateralRatio: 1500000,    // 150% (just a suggestion)
-    suggestedLiquidationRatio: 1100000,   // 110% (just a suggestion)
-    maxLoanAmount: '1000000',             // This IS enforced
-  },
-  'WBTC': {
-    suggestedCollateralRatio: 1500000,    // 150% (just a suggestion)
-    suggestedLiquidationRatio: 1100000,   // 110% (just a suggestion)
-    maxLoanAmount: '2000000',             // This IS enforced
-  },
-  'USDC': {
-    suggestedCollateralRatio: 1200000,    // 120% (just a suggestion)
-    suggestedLiquidationRatio: 1050000,   // 105% (just a suggestion)
-    maxLoanAmount: '5000000',             // This IS enforced
-  },
-  'VCOP': {
-    suggestedCollateralRatio: 1200000,    // 120% (just a suggestion)
-    suggestedLiquidationRatio: 1050000,   // 105% (just a suggestion)
-    maxLoanAmount: '10000000',            // This IS enforced (mintable)
-  }
+// Liquidity caps per collateral asset - maxLoanAmount IS enforced by the asset handler
+const ASSET_LIMITS = {
+  'ETH': { maxLoanAmount: '1000000' },
+  'WBTC': { maxLoanAmount: '2000000' },
+  'USDC': { maxLoanAmount: '5000000' },
+  'VCOP': { maxLoanAmount: '10000000' },  // mintable
+  'WGOLD': { maxLoanAmount: '1000000' }
 } as const;
 
+// 'unavailable' when the provider has no price details for one of the two assets
+export type RiskPriceSource = PriceSource | 'unavailable';
+
 export interface RiskMetrics {
   collateralizationRatio: number;        // Current collateral ratio (6 decimals)
   suggestedLiquidationThreshold: number; // SUGGESTED liquidation threshold (6 decimals)
@@ -79,6 +57,7 @@ export interface RiskMetrics {
   priceDropToSuggestedLiquidation: number; // % price drop to suggested liquidation
   volatilityRisk: number;                // Annualized volatility
   systemFlexibilityNote: string;         // Warning about system flexibility
+  priceSource: RiskPriceSource;          // Whether prices came from the oracle, the fallback table, or are unknown
 }
 
 export interface PriceImpact {
@@ -97,6 +76,9 @@ interface LoanPosition {
 }
 
 export function useRiskCalculator(position: Partial<LoanPosition>) {
+  // Prices come from the shared oracle context, which falls back to fixed prices when the oracle is unavailable
+  const { prices, priceSource, priceDetails } = useOraclePrices();
+
   const riskMetrics = useMemo((): RiskMetrics | null => {
     if (!position.collateralAsset || !position.loanAsset || 
         !position.collateralAmount || !position.loanAmount) {
@@ -108,69 +90,56 @@ export function useRiskCalculator(position: Partial<LoanPosition>) {
     
     if (!collateralSymbol || !loanSymbol) return null;
 
+    const limits = ASSET_LIMITS[collateralSymbol as keyof typeof ASSET_LIMITS];
+    if (!limits) return null;
+
     // 🔧 FIX: Normalize amounts by decimals before calculation
     const collateralDecimals = ASSET_DECIMALS[collateralSymbol as keyof typeof ASSET_DECIMALS] || 18;
     const loanDecimals = ASSET_DECIMALS[loanSymbol as keyof typeof ASSET_DECIMALS] || 18;
-    
-    // Convert from raw blockchain amounts to human-readable amounts
-    const collateralAmountNum = parseFloat(position.collateralAmount) / Math.pow(10, collateralDecimals);
-    const loanAmountNum = parseFloat(position.loanAmount) / Math.pow(10, loanDecimals);
     const interestRate = parseFloat(position.interestRate || '5');
 
-    console.log('🔍 Risk Calculator Debug:', {
-      collateralSymbol,
-      loanSymbol,
+    const collateralPrice = getPrice(prices, collateralSymbol);
+    const loanPrice = getPrice(prices, loanSymbol);
+    if (!collateralPrice || !loanPrice) return null;
+
+    // Only the two assets involved decide whether these metrics are built on fallback prices
+    const collateralDetails = priceDetails[collateralSymbol as keyof OraclePrices];
+    const loanDetails = priceDetails[loanSymbol as keyof OraclePrices];
+    const positionPriceSource: RiskPriceSource =
+      !collateralDetails || !loanDetails
+        ? 'unavailable'
+        : collateralDetails.source === 'fallback' || loanDetails.source === 'fallback'
+          ? 'fallback'
+          : 'oracle';
+
+    const risk = assessRisk({
+      collateralAmount: toBaseUnitsBigInt(position.collateralAmount),
       collateralDecimals,
-      loanDecimals,
-      collateralAmountRaw: position.collateralAmount,
-      loanAmountRaw: position.loanAmount,
-      collateralAmountNormalized: collateralAmountNum,
-      loanAmountNormalized: loanAmountNum
-    });
-
-    const collateralPrice = MOCK_PRICES[collateralSymbol as keyof typeof MOCK_PRICES];
-    const loanPrice = MOCK_PRICES[loanSymbol as keyof typeof MOCK_PRICES];
-
-    const collateralValue = collateralAmountNum * collateralPrice;
-    const loanValue = loanAmountNum * loanPrice;
-
-    console.log('🔍 Value Calculation Debug:', {
-      collateralPrice,
-      loanPrice,
-      collateralValue,
-      loanValue,
-      ltv: loanValue / collateralValue * 100
+      collateralPrice: toPriceUnits(collateralPrice),
+      debtAmount: toBaseUnitsBigInt(position.loanAmount),
+      debtDecimals: loanDecimals,
+      debtPrice: toPriceUnits(loanPrice),
+      liquidationRatio: getSuggestedLiquidationRatio(collateralSymbol)
     });
 
-    if (loanValue === 0) return null;
+    if (!risk.hasDebt) return null;
 
-    // Get asset suggestions (NOT enforced by FlexibleAssetHandler)
-    const suggestions = ASSET_SUGGESTIONS[collateralSymbol as keyof typeof ASSET_SUGGESTIONS];
-    if (!suggestions) return null;
+    const collateralizationRatio = Number(risk.collateralizationRatio);
+    const suggestedLiquidationRatio = Number(risk.liquidationRatio);
+    const theoreticalLiquidationPrice = Number(risk.liquidationPrice) / Math.pow(10, PRICE_DECIMALS);
+    const collateralAmountNum = Number(toBaseUnitsBigInt(position.collateralAmount)) / Math.pow(10, collateralDecimals);
 
-    // Calculate collateralization ratio (6 decimals)
-    const collateralizationRatio = Math.floor((collateralValue * 1000000) / loanValue);
-    
-    // Calculate health factor based on SUGGESTED liquidation ratio
-    const healthFactor = Math.floor((collateralizationRatio * 1000000) / suggestions.suggestedLiquidationRatio);
-    
-    // Determine risk level (ultra-flexible classification)
-    const riskLevel = determineFlexibleRiskLevel(collateralizationRatio);
-    
-    // Calculate theoretical liquidation price (based on suggestions)
-    const theoreticalLiquidationPrice = (loanValue * suggestions.suggestedLiquidationRatio) / (collateralAmountNum * 1000000);
-    
     // FlexibleLoanManager allows withdrawing ANY amount (only prevents negative values)
     // So max withdrawable is technically ALL collateral minus epsilon
     const maxWithdrawableByMath = collateralAmountNum * 0.999; // Keep tiny amount for math safety
     
     // Max borrowable is limited ONLY by available liquidity (no ratio restrictions)
     // Estimate available liquidity (in reality this would come from asset handler)
-    const estimatedAvailableLiquidity = parseFloat(suggestions.maxLoanAmount) * 0.8; // 80% utilization
+    const estimatedAvailableLiquidity = parseFloat(limits.maxLoanAmount) * 0.8; // 80% utilization
     const maxBorrowableByLiquidity = estimatedAvailableLiquidity;
 
     // Calculate time to suggested liquidation (simplified)
-    const timeToSuggestedLiquidation = estimateTimeToSuggestedLiquidation(collateralizationRatio, interestRate, suggestions.suggestedLiquidationRatio);
+    const timeToSuggestedLiquidation = estimateTimeToSuggestedLiquidation(collateralizationRatio, interestRate, suggestedLiquidationRatio);
 
     // Calculate price drop needed for suggested liquidation
     const priceDropToSuggestedLiquidation = collateralPrice > theoreticalLiquidationPrice 
@@ -181,25 +150,26 @@ export function useRiskCalculator(position: Partial<LoanPosition>) {
     const volatilityRisk = ASSET_VOLATILITY[collateralSymbol as keyof typeof ASSET_VOLATILITY] * 100;
 
     // System flexibility note
-    const systemFlexibilityNote = collateralizationRatio < suggestions.suggestedLiquidationRatio 
+    const systemFlexibilityNote = risk.isLiquidatable
       ? "⚠️ VCOP's FlexibleLoanManager allows this ratio, but it's beyond suggested safety limits"
       : "✅ Position follows suggested guidelines, but VCOP allows much more aggressive ratios";
 
     return {
       collateralizationRatio,
-      suggestedLiquidationThreshold: suggestions.suggestedLiquidationRatio,
-      healthFactor,
+      suggestedLiquidationThreshold: suggestedLiquidationRatio,
+      healthFactor: Number(risk.healthFactor),
       maxWithdrawableByMath,
       maxBorrowableByLiquidity,
       theoreticalLiquidationPrice,
-      riskLevel,
+      riskLevel: risk.riskLevel,
       timeToSuggestedLiquidation,
-      isTheoreticallyLiquidatable: collateralizationRatio <= suggestions.suggestedLiquidationRatio,
+      isTheoreticallyLiquidatable: risk.isLiquidatable,
       priceDropToSuggestedLiquidation,
       volatilityRisk,
-      systemFlexibilityNote
+      systemFlexibilityNote,
+      priceSource: positionPriceSource
     };
-  }, [position.collateralAsset, position.loanAsset, position.collateralAmount, position.loanAmount, position.interestRate]);
+  }, [position.collateralAsset, position.loanAsset, position.collateralAmount, position.loanAmount, position.interestRate, prices, priceDetails]);
 
   const priceImpact = useMemo((): PriceImpact | null => {
     if (!riskMetrics || !position.collateralAsset) return null;
@@ -207,7 +177,8 @@ export function useRiskCalculator(position: Partial<LoanPosition>) {
     const collateralSymbol = getAssetSymbol(position.collateralAsset);
     if (!collateralSymbol) return null;
 
-    const currentPrice = MOCK_PRICES[collateralSymbol as keyof typeof MOCK_PRICES];
+    const currentPrice = getPrice(prices, collateralSymbol);
+    if (!currentPrice) return null;
     const suggestedLiquidationPrice = riskMetrics.theoreticalLiquidationPrice;
     const volatility = ASSET_VOLATILITY[collateralSymbol as keyof typeof ASSET_VOLATILITY];
 
@@ -217,22 +188,24 @@ export function useRiskCalculator(position: Partial<LoanPosition>) {
       priceDropFor90PercentRisk: calculatePriceDropForRisk(currentPrice, suggestedLiquidationPrice, 90),
       currentVolatility: volatility * 100
     };
-  }, [riskMetrics, position.collateralAsset]);
+  }, [riskMetrics, position.collateralAsset, prices]);
 
   return {
     riskMetrics,
     priceImpact,
-    // Utility functions
-    formatCollateralizationRatio: (ratio: number) => (ratio / 10000).toFixed(2) + '%',
-    formatHealthFactor: (hf: number) => (hf / 1000000).toFixed(2),
+    priceSource,
+    isUsingFallbackPrices: priceSource === 'fallback',
+    // Utility functions (numbers in 6 decimals, formatted by the shared risk engine)
+    formatCollateralizationRatio: (ratio: number) => formatCollateralizationRatio(BigInt(Math.floor(ratio))),
+    formatHealthFactor: (hf: number) => formatHealthFactor(BigInt(Math.floor(hf))),
     getRiskLevelColor,
     getRiskLevelBgColor,
-    isUltraSafe: (ratio: number) => ratio >= ULTRA_SAFE_RATIO,
-    isHealthy: (ratio: number) => ratio >= HEALTHY_RATIO,
-    isModerate: (ratio: number) => ratio >= MODERATE_RATIO,
-    isAggressive: (ratio: number) => ratio >= AGGRESSIVE_RATIO,
-    isExtreme: (ratio: number) => ratio >= EXTREME_RATIO,
-    isDangerZone: (ratio: number) => ratio < EXTREME_RATIO,
+    isUltraSafe: (ratio: number) => BigInt(Math.floor(ratio)) >= RISK_THRESHOLDS.ULTRA_SAFE,
+    isHealthy: (ratio: number) => BigInt(Math.floor(ratio)) >= RISK_THRESHOLDS.HEALTHY,
+    isModerate: (ratio: number) => BigInt(Math.floor(ratio)) >= RISK_THRESHOLDS.MODERATE,
+    isAggressive: (ratio: number) => BigInt(Math.floor(ratio)) >= RISK_THRESHOLDS.AGGRESSIVE,
+    isExtreme: (ratio: number) => BigInt(Math.floor(ratio)) >= RISK_THRESHOLDS.EXTREME,
+    isDangerZone: (ratio: number) => BigInt(Math.floor(ratio)) < RISK_THRESHOLDS.EXTREME,
   };
 }
 
@@ -245,18 +218,32 @@ function getAssetSymbol(address: string): string | null {
     'WBTC': 'WBTC',
     'USDC': 'USDC',
     'VCOP': 'VCOP',
+    'WGOLD': 'WGOLD',
   };
   
   return addressToSymbol[address] || address;
 }
 
-function determineFlexibleRiskLevel(collateralizationRatio: number): RiskLevel {
-  if (collateralizationRatio >= ULTRA_SAFE_RATIO) return RiskLevel.ULTRA_SAFE;
-  if (collateralizationRatio >= HEALTHY_RATIO) return RiskLevel.HEALTHY;
-  if (collateralizationRatio >= MODERATE_RATIO) return RiskLevel.MODERATE;
-  if (collateralizationRatio >= AGGRESSIVE_RATIO) return RiskLevel.AGGRESSIVE;
-  if (collateralizationRatio >= EXTREME_RATIO) return RiskLevel.EXTREME;
-  return RiskLevel.DANGER_ZONE;
+function getPrice(prices: OraclePrices, symbol: string): number | null {
+  const price = prices[symbol as keyof OraclePrices];
+  return typeof price === 'number' && price > 0 ? price : null;
+}
+
+// Amounts arrive as raw base-unit strings; tolerate decimals by truncating
+function toBaseUnitsBigInt(amount: string): bigint {
+  if (/^\d+$/.test(amount)) return BigInt(amount);
+  const parsed = parseFloat(amount);
+  return Number.isFinite(parsed) && parsed > 0 ? BigInt(Math.floor(parsed)) : 0n;
+}
+
+/**
+ * Convert a human-readable amount (e.g. "1.5" ETH) to the raw base-unit string this hook expects
+ */
+export function toRiskCalculatorAmount(amount: string, symbol: string): string {
+  const decimals = ASSET_DECIMALS[symbol as keyof typeof ASSET_DECIMALS] || 18;
+  const parsed = parseFloat(amount);
+  if (!Number.isFinite(parsed) || parsed <= 0) return '0';
+  return parseUnits(parsed.toFixed(decimals), decimals).toString();
 }
 
 function estimateTimeToSuggestedLiquidation(collateralizationRatio: number, interestRate: number, suggestedLiquidationRatio: number): number {
@@ -277,27 +264,3 @@ function calculatePriceDropForRisk(currentPrice: number, suggestedLiquidationPri
   
   return (dropPercentage * riskPercentage) / 100;
 }
-
-export function getRiskLevelColor(riskLevel: RiskLevel): string {
-  switch (riskLevel) {
-    case RiskLevel.ULTRA_SAFE: return 'text-green-800';
-    case RiskLevel.HEALTHY: return 'text-green-600';
-    case RiskLevel.MODERATE: return 'text-blue-600';
-    case RiskLevel.AGGRESSIVE: return 'text-yellow-600';
-    case RiskLevel.EXTREME: return 'text-orange-600';
-    case RiskLevel.DANGER_ZONE: return 'text-red-600';
-    default: return 'text-gray-600';
-  }
-}
-
-export function getRiskLevelBgColor(riskLevel: RiskLevel): string {
-  switch (riskLevel) {
-    case RiskLevel.ULTRA_SAFE: return 'bg-green-200';
-    case RiskLevel.HEALTHY: return 'bg-green-100';
-    case RiskLevel.MODERATE: return 'bg-blue-100';
-    case RiskLevel.AGGRESSIVE: return 'bg-yellow-100';
-    case RiskLevel.EXTREME: return 'bg-orange-100';
-    case RiskLevel.DANGER_ZONE: return 'bg-red-100';
-    default: return 'bg-gray-100';
-  }
-}
\ No newline at end of file
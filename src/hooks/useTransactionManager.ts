@@ -0,0 +1,97 @@
+/**
+ * @fileoverview useTransactionManager.ts
+ * @description Contexto y hook de acceso al TransactionManagerProvider
+ * @version 2025 - Compatible con wagmi v2.x y viem v2.x
+ *
+ * Funcionalidades:
+ * - Tipos de las transacciones seguidas y su propósito
+ * - Etiquetas legibles de cada propósito
+ * - useTransactionManager para registrar y consultar transacciones pendientes
+ */
+
+import { createContext, useContext } from 'react'
+import type { Address, Hash } from 'viem'
+
+// ===================================
+// 🏗️ TIPOS
+// ===================================
+
+export type TransactionPurpose =
+  | 'approve'
+  | 'create-position'
+  | 'repay'
+  | 'add-collateral'
+  | 'withdraw-collateral'
+  | 'increase-loan'
+  | 'liquidate'
+  | 'vault-deposit'
+  | 'vault-withdraw'
+  | 'claim-rewards'
+  | 'faucet'
+  | 'add-tracking'
+  | 'admin'
+
+export const TRANSACTION_PURPOSE_LABELS: Record<TransactionPurpose, string> = {
+  'approve': 'Token approval',
+  'create-position': 'Create position',
+  'repay': 'Repay loan',
+  'add-collateral': 'Add collateral',
+  'withdraw-collateral': 'Withdraw collateral',
+  'increase-loan': 'Borrow more',
+  'liquidate': 'Liquidation',
+  'vault-deposit': 'Vault deposit',
+  'vault-withdraw': 'Vault withdrawal',
+  'claim-rewards': 'Claim rewards',
+  'faucet': 'Faucet mint',
+  'add-tracking': 'Automation tracking',
+  'admin': 'Protocol admin'
+}
+
+// 'replaced' = cancelada o sustituida por otra tx con el mismo nonce
+// 'dropped' = desapareció del mempool sin receipt
+export type TrackedTransactionStatus = 'pending' | 'confirmed' | 'failed' | 'replaced' | 'dropped'
+
+export interface TrackedTransaction {
+  hash: Hash
+  chainId: number
+  from: Address
+  nonce: number | null
+  purpose: TransactionPurpose
+  positionId: string | null        // bigint serializado para localStorage
+  description: string | null
+  status: TrackedTransactionStatus
+  replacedBy: Hash | null          // Tx que la sustituyó (speed up, cancel o replace)
+  submittedAt: number
+  settledAt: number | null
+}
+
+export interface TrackTransactionInput {
+  hash: Hash
+  purpose: TransactionPurpose
+  positionId?: bigint | null
+  description?: string
+}
+
+export interface TransactionManagerContextType {
+  transactions: TrackedTransaction[]          // Cuenta y red actuales, más recientes primero
+  pendingTransactions: TrackedTransaction[]
+  trackTransaction: (input: TrackTransactionInput) => void
+  getPendingForPosition: (positionId: bigint) => TrackedTransaction[]
+  clearSettled: () => void
+}
+
+export const TransactionManagerContext = createContext<TransactionManagerContextType | undefined>(undefined)
+
+// ===================================
+// 🎯 HOOK PRINCIPAL: useTransactionManager
+// ===================================
+
+export function useTransactionManager(): TransactionManagerContextType {
+  const context = useContext(TransactionManagerContext)
+  if (context === undefined) {
+    throw new Error('useTransactionManager must be used within a TransactionManagerProvider')
+  }
+  return context
+}
+
+export default useTransactionManager
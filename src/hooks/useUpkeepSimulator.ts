@@ -0,0 +1,200 @@
+/**
+ * @fileoverview useUpkeepSimulator.ts
+ * @description Dry-run de LoanAutomationKeeperOptimized.checkUpkeep contra el estado actual de la cadena
+ * @version 2025 - Compatible con wagmi v2.x y viem v2.x
+ *
+ * Funcionalidades:
+ * - Lista los loan managers registrados en el keeper con su prioridad
+ * - Genera checkData con generateCheckData o generateOptimizedCheckData y lo verifica con decodeCheckData
+ * - Ejecuta checkUpkeep por eth_call y decodifica performData en las posiciones que se liquidarían
+ */
+
+import { useState, useCallback, useMemo } from 'react'
+import { usePublicClient, useReadContract } from 'wagmi'
+import { decodeAbiParameters, zeroAddress, type Address, type Hex } from 'viem'
+
+import { LOAN_AUTOMATION_KEEPER_OPTIMIZED_ABI } from '../Abis'
+import { automationKeeperContract } from '../utils/contracts'
+import { formatTransactionError } from '../utils/errorDecoder'
+import { useContractAddresses } from './useContractAddresses'
+
+// ===================================
+// 🏗️ INTERFACES Y TIPOS
+// ===================================
+
+export interface RegisteredManager {
+  address: Address
+  priority: bigint
+}
+
+export interface UpkeepSimulationParams {
+  loanManager: Address
+  startPositionId: bigint       // 0 = el keeper empieza desde la posición 1
+  batchSize: bigint             // 0 = tamaño por defecto del keeper (solo en modo optimizado)
+  optimized: boolean            // generateOptimizedCheckData en lugar de generateCheckData
+}
+
+export interface UpkeepCandidate {
+  positionId: bigint
+  riskLevel: bigint
+}
+
+export interface UpkeepSimulation {
+  params: UpkeepSimulationParams
+  checkData: Hex
+  decodedCheckData: {
+    loanManager: Address
+    startIndex: bigint
+    batchSize: bigint
+  }
+  upkeepNeeded: boolean
+  performData: Hex
+  candidates: UpkeepCandidate[]  // Orden devuelto por checkUpkeep; performUpkeep las reordena por riesgo
+  performTimestamp: bigint | null
+  blockNumber: bigint
+}
+
+// Layout de performData: abi.encode(loanManager, positions, riskLevels, block.timestamp)
+const PERFORM_DATA_PARAMETERS = [
+  { name: 'loanManager', type: 'address' },
+  { name: 'positions', type: 'uint256[]' },
+  { name: 'riskLevels', type: 'uint256[]' },
+  { name: 'timestamp', type: 'uint256' }
+] as const
+
+// ===================================
+// 🎯 HOOK PRINCIPAL: useUpkeepSimulator
+// ===================================
+
+export function useUpkeepSimulator() {
+  const publicClient = usePublicClient()
+  const { addresses, isReady } = useContractAddresses()
+
+  const keeper = addresses?.automationKeeper && addresses.automationKeeper !== zeroAddress
+    ? addresses.automationKeeper
+    : undefined
+
+  const [simulation, setSimulation] = useState<UpkeepSimulation | null>(null)
+  const [isSimulating, setIsSimulating] = useState(false)
+  const [error, setError] = useState<string | null>(null)
+
+  const {
+    data: managersData,
+    isLoading: isLoadingManagers,
+    refetch: refetchManagers
+  } = useReadContract({
+    address: keeper,
+    abi: LOAN_AUTOMATION_KEEPER_OPTIMIZED_ABI,
+    functionName: 'getRegisteredManagers',
+    query: {
+      enabled: isReady && Boolean(keeper),
+      refetchOnWindowFocus: false,
+      staleTime: 30000
+    }
+  })
+
+  const { data: maxPositionsPerBatch } = useReadContract({
+    address: keeper,
+    abi: LOAN_AUTOMATION_KEEPER_OPTIMIZED_ABI,
+    functionName: 'maxPositionsPerBatch',
+    query: {
+      enabled: isReady && Boolean(keeper),
+      refetchOnWindowFocus: false,
+      staleTime: 30000
+    }
+  })
+
+  const managers = useMemo((): RegisteredManager[] => {
+    const [list, priorities] = (managersData as readonly [readonly Address[], readonly bigint[]] | undefined) ?? [[], []]
+    return list.map((address, i) => ({ address, priority: priorities[i] ?? 0n }))
+  }, [managersData])
+
+  /**
+   * Genera checkData, llama a checkUpkeep sin enviar transacción y decodifica el resultado
+   */
+  const simulate = useCallback(async (params: UpkeepSimulationParams): Promise<UpkeepSimulation | null> => {
+    if (!publicClient || !keeper) {
+      setError('Automation keeper is not deployed on this network')
+      return null
+    }
+
+    try {
+      setIsSimulating(true)
+      setError(null)
+
+      const contract = automationKeeperContract(keeper)
+      // Todas las lecturas contra el mismo bloque para que el resultado sea reproducible
+      const blockNumber = await publicClient.getBlockNumber()
+
+      const checkData = await publicClient.readContract({
+        ...contract,
+        functionName: params.optimized ? 'generateOptimizedCheckData' : 'generateCheckData',
+        args: [params.loanManager, params.startPositionId, params.batchSize],
+        blockNumber
+      })
+
+      const [decodedManager, startIndex, batchSize] = await publicClient.readContract({
+        ...contract,
+        functionName: 'decodeCheckData',
+        args: [checkData],
+        blockNumber
+      })
+
+      const [upkeepNeeded, performData] = await publicClient.readContract({
+        ...contract,
+        functionName: 'checkUpkeep',
+        args: [checkData],
+        blockNumber
+      })
+
+      let candidates: UpkeepCandidate[] = []
+      let performTimestamp: bigint | null = null
+      if (upkeepNeeded && performData !== '0x') {
+        const [, positions, riskLevels, timestamp] = decodeAbiParameters(PERFORM_DATA_PARAMETERS, performData)
+        candidates = positions.map((positionId, i) => ({ positionId, riskLevel: riskLevels[i] ?? 0n }))
+        performTimestamp = timestamp
+      }
+
+      const result: UpkeepSimulation = {
+        params,
+        checkData,
+        decodedCheckData: { loanManager: decodedManager, startIndex, batchSize },
+        upkeepNeeded,
+        performData,
+        candidates,
+        performTimestamp,
+        blockNumber
+      }
+
+      console.log('🤖 Upkeep simulation:', result)
+      setSimulation(result)
+      return result
+    } catch (err) {
+      console.error('Error simulating upkeep:', err)
+      setError(formatTransactionError(err))
+      setSimulation(null)
+      return null
+    } finally {
+      setIsSimulating(false)
+    }
+  }, [publicClient, keeper])
+
+  return {
+    keeperAddress: keeper,
+    managers,
+    defaultBatchSize: (maxPositionsPerBatch as bigint | undefined) ?? null,
+    isLoadingManagers,
+    refetchManagers,
+
+    simulate,
+    simulation,
+    isSimulating,
+    error,
+    clear: () => {
+      setSimulation(null)
+      setError(null)
+    }
+  }
+}
+
+export default useUpkeepSimulator
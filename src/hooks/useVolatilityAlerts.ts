@@ -0,0 +1,348 @@
+/**
+ * @fileoverview useVolatilityAlerts.ts
+ * @description Alertas de modo volatilidad del PriceChangeLogTrigger para el colateral del usuario
+ * @version 2025 - Compatible con wagmi v2.x y viem v2.x
+ *
+ * Funcionalidades:
+ * - Leer assetInVolatilityMode, volatilityModeEntered y lastKnownPrices de cada colateral del usuario
+ * - Umbrales del trigger desde getThresholdConfiguration
+ * - Suscripción a VolatilityModeActivated, VolatilityModeDeactivated y PriceChangeDetected
+ * - Recuperar del historial la última variación de cada asset en modo volatilidad tras recargar
+ * - Posiciones del usuario afectadas por cada asset en modo volatilidad
+ */
+
+import { useState, useMemo, useCallback, useEffect, useRef } from 'react'
+import { usePublicClient, useReadContract, useReadContracts, useWatchContractEvent } from 'wagmi'
+import { zeroAddress, type Address, type PublicClient } from 'viem'
+
+import { PRICE_CHANGE_LOG_TRIGGER_ABI } from '../Abis'
+import { priceTriggerContract } from '../utils/contracts'
+import { useContractAddresses } from './useContractAddresses'
+import { useUserPositions } from './useUserPositions'
+
+// ===================================
+// 🏗️ INTERFACES Y TIPOS
+// ===================================
+
+export type PriceThresholdLevel = 'basic' | 'urgent' | 'immediate' | 'critical'
+
+// Umbrales del trigger en 6 decimales (50000 = 5%); volatilityDuration en segundos
+export interface ThresholdConfiguration {
+  basic: bigint
+  urgent: bigint
+  immediate: bigint
+  critical: bigint
+  volatilityBoost: bigint
+  volatilityDuration: bigint
+}
+
+export interface ObservedPriceChange {
+  changePercent: bigint         // 6 decimales, como los umbrales
+  urgencyLevel: string | null   // Texto del evento PriceChangeDetected
+  observedAt: number            // ms, momento en que llegó o se recuperó el evento
+}
+
+export interface VolatilityAlert {
+  asset: Address
+  symbol: string
+  enteredAt: number             // Unix seconds
+  expiresAt: number | null      // Unix seconds; el trigger sale del modo al vencer volatilityDuration
+  lastKnownPrice: bigint
+  thresholdLevel: PriceThresholdLevel | null   // Umbral más alto superado; null si no se conoce la variación
+  thresholdPercent: number | null              // Porcentaje del umbral cruzado
+  changePercent: number | null  // Última variación emitida por el trigger; null si no se encontró el evento
+  affectedPositionIds: bigint[]
+}
+
+// Escala de porcentajes del trigger (1000000 = 100%)
+const PERCENT_PRECISION = 10000
+
+// Máximo de bloques a recorrer al recuperar eventos pasados
+const MAX_BACKFILL_BLOCKS = 50000n
+
+const toPercent = (value: bigint): number => Number(value) / PERCENT_PRECISION
+
+/**
+ * Umbral más alto que alcanza una variación; null si no se conoce o no supera ninguno
+ */
+export const getCrossedThreshold = (
+  thresholds: ThresholdConfiguration,
+  changePercent: bigint | null
+): { level: PriceThresholdLevel; value: bigint } | null => {
+  if (changePercent === null) return null
+
+  const levels: [PriceThresholdLevel, bigint][] = [
+    ['critical', thresholds.critical],
+    ['immediate', thresholds.immediate],
+    ['urgent', thresholds.urgent],
+    ['basic', thresholds.basic]
+  ]
+  const crossed = levels.find(([, value]) => value > 0n && changePercent >= value)
+  return crossed ? { level: crossed[0], value: crossed[1] } : null
+}
+
+/**
+ * Última variación emitida para un asset desde que entró en modo volatilidad.
+ * Los bloques duran al menos un segundo, así que retroceder los segundos transcurridos
+ * desde enteredAt cubre el bloque de activación.
+ */
+const fetchLatestPriceChange = async (
+  client: PublicClient,
+  trigger: Address,
+  asset: Address,
+  enteredAt: number
+): Promise<ObservedPriceChange | null> => {
+  const latest = await client.getBlock()
+  const elapsed = latest.timestamp > BigInt(enteredAt) ? latest.timestamp - BigInt(enteredAt) : 0n
+  const lookback = elapsed + 1n < MAX_BACKFILL_BLOCKS ? elapsed + 1n : MAX_BACKFILL_BLOCKS
+  const fromBlock = latest.number > lookback ? latest.number - lookback : 0n
+
+  const [activations, changes] = await Promise.all([
+    client.getContractEvents({
+      address: trigger,
+      abi: PRICE_CHANGE_LOG_TRIGGER_ABI,
+      eventName: 'VolatilityModeActivated',
+      args: { asset },
+      fromBlock,
+      toBlock: latest.number
+    }),
+    client.getContractEvents({
+      address: trigger,
+      abi: PRICE_CHANGE_LOG_TRIGGER_ABI,
+      eventName: 'PriceChangeDetected',
+      args: { asset },
+      fromBlock,
+      toBlock: latest.number
+    })
+  ])
+
+  const logs = [
+    ...activations.map((log) => ({ ...log, urgencyLevel: null as string | null })),
+    ...changes.map((log) => ({ ...log, urgencyLevel: log.args.urgencyLevel ?? null }))
+  ].filter((log) => log.args.changePercent !== undefined)
+
+  if (logs.length === 0) return null
+
+  const newest = logs.reduce((a, b) =>
+    b.blockNumber > a.blockNumber || (b.blockNumber === a.blockNumber && b.logIndex > a.logIndex) ? b : a
+  )
+
+  return {
+    changePercent: newest.args.changePercent!,
+    urgencyLevel: newest.urgencyLevel,
+    observedAt: Date.now()
+  }
+}
+
+// ===================================
+// 🎯 HOOK PRINCIPAL: useVolatilityAlerts
+// ===================================
+
+export function useVolatilityAlerts() {
+  const { addresses, getAssetSymbol } = useContractAddresses()
+  const { positions } = useUserPositions()
+  const publicClient = usePublicClient()
+
+  const trigger = addresses?.priceTrigger && addresses.priceTrigger !== zeroAddress
+    ? addresses.priceTrigger
+    : undefined
+
+  // Última variación recibida por evento, por asset (minúsculas)
+  const [observedChanges, setObservedChanges] = useState<Record<string, ObservedPriceChange>>({})
+  const [dismissed, setDismissed] = useState<Set<string>>(new Set())
+  // Episodios (asset:enteredAt) ya consultados en el historial
+  const backfilledRef = useRef<Set<string>>(new Set())
+
+  // Colaterales distintos de las posiciones del usuario
+  const collateralAssets = useMemo(() => {
+    const unique = new Map<string, Address>()
+    positions.forEach(({ position }) => unique.set(position.collateralAsset.toLowerCase(), position.collateralAsset))
+    return Array.from(unique.values())
+  }, [positions])
+
+  // ===================================
+  // 🔍 LECTURAS
+  // ===================================
+
+  const { data: thresholdData } = useReadContract({
+    address: trigger,
+    abi: PRICE_CHANGE_LOG_TRIGGER_ABI,
+    functionName: 'getThresholdConfiguration',
+    query: {
+      enabled: Boolean(trigger),
+      refetchOnWindowFocus: false,
+      staleTime: 60000
+    }
+  })
+
+  const {
+    data: assetData,
+    refetch: refetchAssets
+  } = useReadContracts({
+    contracts: trigger
+      ? collateralAssets.flatMap((asset) => [
+          { ...priceTriggerContract(trigger), functionName: 'assetInVolatilityMode', args: [asset] },
+          { ...priceTriggerContract(trigger), functionName: 'volatilityModeEntered', args: [asset] },
+          { ...priceTriggerContract(trigger), functionName: 'lastKnownPrices', args: [asset] }
+        ] as const)
+      : [],
+    query: {
+      enabled: Boolean(trigger) && collateralAssets.length > 0,
+      refetchOnWindowFocus: false,
+      staleTime: 30000
+    }
+  })
+
+  // ===================================
+  // 📡 EVENTOS
+  // ===================================
+
+  const isHeldCollateral = useCallback(
+    (asset?: Address) => Boolean(asset) && collateralAssets.some((held) => held.toLowerCase() === asset!.toLowerCase()),
+    [collateralAssets]
+  )
+
+  useWatchContractEvent({
+    address: trigger,
+    abi: PRICE_CHANGE_LOG_TRIGGER_ABI,
+    eventName: 'VolatilityModeActivated',
+    enabled: Boolean(trigger) && collateralAssets.length > 0,
+    onLogs: (logs) => {
+      const relevant = logs.filter((log) => isHeldCollateral(log.args.asset))
+      if (relevant.length === 0) return
+
+      console.log('🌪️ Volatility mode activated:', relevant.map((log) => log.args.asset))
+      setObservedChanges((prev) => {
+        const next = { ...prev }
+        relevant.forEach((log) => {
+          next[log.args.asset!.toLowerCase()] = {
+            changePercent: log.args.changePercent ?? 0n,
+            urgencyLevel: prev[log.args.asset!.toLowerCase()]?.urgencyLevel ?? null,
+            observedAt: Date.now()
+          }
+        })
+        return next
+      })
+      refetchAssets()
+    }
+  })
+
+  useWatchContractEvent({
+    address: trigger,
+    abi: PRICE_CHANGE_LOG_TRIGGER_ABI,
+    eventName: 'PriceChangeDetected',
+    enabled: Boolean(trigger) && collateralAssets.length > 0,
+    onLogs: (logs) => {
+      const relevant = logs.filter((log) => isHeldCollateral(log.args.asset))
+      if (relevant.length === 0) return
+
+      setObservedChanges((prev) => {
+        const next = { ...prev }
+        relevant.forEach((log) => {
+          next[log.args.asset!.toLowerCase()] = {
+            changePercent: log.args.changePercent ?? 0n,
+            urgencyLevel: log.args.urgencyLevel ?? null,
+            observedAt: Date.now()
+          }
+        })
+        return next
+      })
+      refetchAssets()
+    }
+  })
+
+  useWatchContractEvent({
+    address: trigger,
+    abi: PRICE_CHANGE_LOG_TRIGGER_ABI,
+    eventName: 'VolatilityModeDeactivated',
+    enabled: Boolean(trigger) && collateralAssets.length > 0,
+    onLogs: (logs) => {
+      if (logs.some((log) => isHeldCollateral(log.args.asset))) refetchAssets()
+    }
+  })
+
+  // ===================================
+  // 🕰️ HISTORIAL
+  // ===================================
+
+  // Tras recargar no hay eventos en vivo: recuperar la última variación de cada episodio activo
+  useEffect(() => {
+    if (!publicClient || !trigger || !assetData) return
+
+    collateralAssets.forEach((asset, i) => {
+      const inVolatilityMode = assetData[i * 3]?.result as boolean | undefined
+      const enteredAt = Number((assetData[i * 3 + 1]?.result as bigint | undefined) ?? 0n)
+      if (!inVolatilityMode || enteredAt === 0) return
+
+      const key = `${trigger.toLowerCase()}:${asset.toLowerCase()}:${enteredAt}`
+      if (backfilledRef.current.has(key)) return
+      backfilledRef.current.add(key)
+
+      fetchLatestPriceChange(publicClient, trigger, asset, enteredAt)
+        .then((change) => {
+          if (!change) return
+          // Un evento en vivo llegado mientras tanto es más reciente
+          setObservedChanges((prev) =>
+            prev[asset.toLowerCase()] ? prev : { ...prev, [asset.toLowerCase()]: change }
+          )
+        })
+        .catch((err) => {
+          console.error(`Error loading price change history for ${asset}:`, err)
+        })
+    })
+  }, [publicClient, trigger, collateralAssets, assetData])
+
+  // ===================================
+  // 🚨 ALERTAS
+  // ===================================
+
+  const thresholds = useMemo((): ThresholdConfiguration | null => {
+    const config = thresholdData as readonly [bigint, bigint, bigint, bigint, bigint, bigint] | undefined
+    if (!config) return null
+    const [basic, urgent, immediate, critical, volatilityBoost, volatilityDuration] = config
+    return { basic, urgent, immediate, critical, volatilityBoost, volatilityDuration }
+  }, [thresholdData])
+
+  const alerts = useMemo((): VolatilityAlert[] => {
+    if (!thresholds) return []
+
+    return collateralAssets.flatMap((asset, i) => {
+      const inVolatilityMode = assetData?.[i * 3]?.result as boolean | undefined
+      if (!inVolatilityMode) return []
+
+      const enteredAt = Number((assetData?.[i * 3 + 1]?.result as bigint | undefined) ?? 0n)
+      const observed = observedChanges[asset.toLowerCase()]
+      const crossed = getCrossedThreshold(thresholds, observed?.changePercent ?? null)
+
+      return [{
+        asset,
+        symbol: getAssetSymbol(asset),
+        enteredAt,
+        expiresAt: enteredAt > 0 ? enteredAt + Number(thresholds.volatilityDuration) : null,
+        lastKnownPrice: (assetData?.[i * 3 + 2]?.result as bigint | undefined) ?? 0n,
+        thresholdLevel: crossed?.level ?? null,
+        thresholdPercent: crossed ? toPercent(crossed.value) : null,
+        changePercent: observed ? toPercent(observed.changePercent) : null,
+        affectedPositionIds: positions
+          .filter(({ position }) => position.collateralAsset.toLowerCase() === asset.toLowerCase())
+          .map(({ positionId }) => positionId)
+      }]
+    })
+  }, [thresholds, collateralAssets, assetData, observedChanges, positions, getAssetSymbol])
+
+  const alertKey = (alert: VolatilityAlert) => `${alert.asset.toLowerCase()}:${alert.enteredAt}`
+
+  // Al descartar se oculta solo este episodio; una nueva activación vuelve a mostrarse
+  const dismissAlert = useCallback((alert: VolatilityAlert) => {
+    setDismissed((prev) => new Set(prev).add(alertKey(alert)))
+  }, [])
+
+  return {
+    alerts: alerts.filter((alert) => !dismissed.has(alertKey(alert))),
+    thresholds,
+    dismissAlert,
+    refresh: refetchAssets
+  }
+}
+
+export default useVolatilityAlerts
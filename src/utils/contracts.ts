@@ -0,0 +1,74 @@
+import type {
+  Abi,
+  Address,
+  ContractFunctionArgs,
+  ContractFunctionName,
+  ContractFunctionReturnType
+} from 'viem';
+import {
+  ERC20_ABI,
+  FLEXIBLE_LOAN_MANAGER_ABI,
+  LOAN_AUTOMATION_KEEPER_OPTIMIZED_ABI,
+  LOAN_MANAGER_AUTOMATION_ADAPTER_ABI,
+  MOCK_ETH_ABI,
+  MOCK_USDC_ABI,
+  MOCK_VCOP_ORACLE_ABI,
+  PRICE_CHANGE_LOG_TRIGGER_ABI,
+  VAULT_BASED_HANDLER_ABI
+} from '../Abis';
+
+// ===================================
+// 🔧 TIPOS DERIVADOS DEL ABI
+// ===================================
+
+export type ReadFunctionName<abi extends Abi> = ContractFunctionName<abi, 'pure' | 'view'>;
+export type WriteFunctionName<abi extends Abi> = ContractFunctionName<abi, 'nonpayable' | 'payable'>;
+
+export type ReadFunctionArgs<abi extends Abi, functionName extends ReadFunctionName<abi>> =
+  ContractFunctionArgs<abi, 'pure' | 'view', functionName>;
+export type WriteFunctionArgs<abi extends Abi, functionName extends WriteFunctionName<abi>> =
+  ContractFunctionArgs<abi, 'nonpayable' | 'payable', functionName>;
+
+// Tipo de retorno de una función view, p. ej. ReadFunctionResult<typeof FLEXIBLE_LOAN_MANAGER_ABI, 'getPosition'>
+export type ReadFunctionResult<abi extends Abi, functionName extends ReadFunctionName<abi>> =
+  ContractFunctionReturnType<abi, 'pure' | 'view', functionName>;
+
+export interface TypedContract<abi extends Abi> {
+  address: Address;
+  abi: abi;
+}
+
+// ===================================
+// 📜 CONTRATOS TIPADOS
+// ===================================
+
+/**
+ * Liga un ABI a una dirección. El resultado se expande en useReadContract,
+ * useReadContracts, useWriteContract o publicClient.readContract y conserva
+ * el chequeo de functionName y args en compilación:
+ *
+ *   useReadContract({ ...flexibleLoanManagerContract(address), functionName: 'getPosition', args: [id] })
+ */
+const bindAbi = <const abi extends Abi>(abi: abi) =>
+  (address: Address): TypedContract<abi> => ({ address, abi });
+
+export const flexibleLoanManagerContract = bindAbi(FLEXIBLE_LOAN_MANAGER_ABI);
+export const vaultBasedHandlerContract = bindAbi(VAULT_BASED_HANDLER_ABI);
+export const mockVcopOracleContract = bindAbi(MOCK_VCOP_ORACLE_ABI);
+export const loanAdapterContract = bindAbi(LOAN_MANAGER_AUTOMATION_ADAPTER_ABI);
+export const automationKeeperContract = bindAbi(LOAN_AUTOMATION_KEEPER_OPTIMIZED_ABI);
+export const priceTriggerContract = bindAbi(PRICE_CHANGE_LOG_TRIGGER_ABI);
+export const mockEthContract = bindAbi(MOCK_ETH_ABI);
+export const mockUsdcContract = bindAbi(MOCK_USDC_ABI);
+export const erc20Contract = bindAbi(ERC20_ABI);
+
+// ===================================
+// 📦 TIPOS DE RESULTADOS COMPARTIDOS
+// ===================================
+
+// Struct LoanPosition tal como lo devuelve FlexibleLoanManager.getPosition
+export type LoanPosition = ReadFunctionResult<typeof FLEXIBLE_LOAN_MANAGER_ABI, 'getPosition'>;
+
+// Struct LoanTerms que recibe FlexibleLoanManager.createLoan.
+// maxLoanToValue e interestRate en 6 decimales (800000 = 80%), duration 0 = préstamo perpetuo
+export type LoanTerms = WriteFunctionArgs<typeof FLEXIBLE_LOAN_MANAGER_ABI, 'createLoan'>[0];
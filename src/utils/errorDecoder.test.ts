@@ -0,0 +1,100 @@
+import { describe, it, expect } from 'vitest';
+import {
+  RawContractError,
+  UserRejectedRequestError,
+  encodeErrorResult,
+  parseAbi,
+  type Address
+} from 'viem';
+import { LOAN_AUTOMATION_KEEPER_OPTIMIZED_ABI, MOCK_USDC_ABI } from '../Abis';
+import { decodeTransactionError, formatTransactionError } from './errorDecoder';
+
+const ACCOUNT: Address = '0x1111111111111111111111111111111111111111';
+const SOLIDITY_ERROR_ABI = parseAbi(['error Error(string reason)']);
+
+const revertString = (reason: string) =>
+  new RawContractError({
+    data: encodeErrorResult({ abi: SOLIDITY_ERROR_ABI, errorName: 'Error', args: [reason] })
+  });
+
+describe('decodeTransactionError', () => {
+  describe('custom errors', () => {
+    it('maps known OpenZeppelin errors to their template', () => {
+      const error = new RawContractError({
+        data: encodeErrorResult({
+          abi: MOCK_USDC_ABI,
+          errorName: 'ERC20InsufficientAllowance',
+          args: [ACCOUNT, 10n, 20n]
+        })
+      });
+
+      const decoded = decodeTransactionError(error);
+
+      expect(decoded.kind).toBe('insufficient-allowance');
+      expect(decoded.reason).toBe('ERC20InsufficientAllowance');
+    });
+
+    it('reports unmapped protocol errors by name', () => {
+      const error = new RawContractError({
+        data: encodeErrorResult({ abi: LOAN_AUTOMATION_KEEPER_OPTIMIZED_ABI, errorName: 'OnlySimulatedBackend' })
+      });
+
+      const decoded = decodeTransactionError(error);
+
+      expect(decoded.kind).toBe('revert');
+      expect(decoded.reason).toBe('OnlySimulatedBackend');
+      expect(decoded.message).toBe('The contract rejected the transaction: OnlySimulatedBackend.');
+    });
+
+    it('falls back to the unknown template when the selector is not in any ABI', () => {
+      const decoded = decodeTransactionError(new RawContractError({ data: '0xdeadbeef' }));
+
+      expect(decoded.kind).toBe('unknown');
+      expect(decoded.reason).toBeNull();
+    });
+  });
+
+  describe('revert strings', () => {
+    it('decodes Error(string) revert data', () => {
+      const decoded = decodeTransactionError(revertString('Contract paused'));
+
+      expect(decoded.kind).toBe('paused');
+      expect(decoded.reason).toBe('Contract paused');
+    });
+
+    it('uses the catalog entry for protocol revert strings', () => {
+      const decoded = decodeTransactionError(revertString('Position not active'));
+
+      expect(decoded.kind).toBe('revert');
+      expect(decoded.title).toBe('Position closed');
+    });
+
+    it('reads the reason from wallets that only return text', () => {
+      expect(decodeTransactionError(new Error('execution reverted: Not position owner')).kind).toBe('unauthorized');
+      expect(
+        decodeTransactionError(new Error('The contract function "repayLoan" reverted with the following reason:\nInsufficient balance')).kind
+      ).toBe('insufficient-balance');
+    });
+
+    it('keeps unknown revert strings as the reason', () => {
+      const decoded = decodeTransactionError(revertString('Oracle price is stale'));
+
+      expect(decoded.kind).toBe('revert');
+      expect(decoded.reason).toBe('Oracle price is stale');
+    });
+  });
+
+  it('detects wallet rejections before looking for a revert', () => {
+    const decoded = decodeTransactionError(new UserRejectedRequestError(new Error('User rejected the request.')));
+
+    expect(decoded.kind).toBe('user-rejected');
+  });
+});
+
+describe('formatTransactionError', () => {
+  it('joins the message and the suggested action', () => {
+    expect(formatTransactionError(revertString('Amount must be positive'))).toBe(
+      'The amount must be greater than zero. Enter a positive amount.'
+    );
+  });
+});
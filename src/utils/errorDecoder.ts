@@ -0,0 +1,314 @@
+import {
+  BaseError,
+  ChainMismatchError,
+  ContractFunctionRevertedError,
+  HttpRequestError,
+  InsufficientFundsError,
+  RawContractError,
+  RpcRequestError,
+  TimeoutError,
+  UserRejectedRequestError,
+  WebSocketRequestError,
+  decodeErrorResult,
+  type Abi,
+  type Hex
+} from 'viem';
+import {
+  FLEXIBLE_LOAN_MANAGER_ABI,
+  LOAN_AUTOMATION_KEEPER_OPTIMIZED_ABI,
+  LOAN_MANAGER_AUTOMATION_ADAPTER_ABI,
+  MOCK_ETH_ABI,
+  MOCK_USDC_ABI,
+  MOCK_VCOP_ORACLE_ABI,
+  PRICE_CHANGE_LOG_TRIGGER_ABI,
+  VAULT_BASED_HANDLER_ABI
+} from '../Abis';
+
+// ===================================
+// 🏗️ TIPOS
+// ===================================
+
+export type TransactionErrorKind =
+  | 'user-rejected'
+  | 'insufficient-balance'
+  | 'insufficient-allowance'
+  | 'insufficient-gas'
+  | 'paused'
+  | 'unauthorized'
+  | 'wrong-network'
+  | 'rpc'
+  | 'revert'
+  | 'unknown';
+
+export interface DecodedTransactionError {
+  kind: TransactionErrorKind;
+  title: string;
+  message: string;
+  action: string | null;          // Qué puede hacer el usuario
+  reason: string | null;          // Revert string o nombre del custom error, si se pudo decodificar
+  details: string;                // Mensaje original resumido, para soporte
+}
+
+type ErrorTemplate = Pick<DecodedTransactionError, 'kind' | 'title' | 'message' | 'action'>;
+
+// ===================================
+// 📚 CATÁLOGO DE ERRORES
+// ===================================
+
+const TEMPLATES: Record<Exclude<TransactionErrorKind, 'revert'>, ErrorTemplate> = {
+  'user-rejected': {
+    kind: 'user-rejected',
+    title: 'Transaction cancelled',
+    message: 'The request was rejected in your wallet.',
+    action: 'Submit again and confirm it in your wallet when you are ready.'
+  },
+  'insufficient-balance': {
+    kind: 'insufficient-balance',
+    title: 'Insufficient balance',
+    message: 'Your wallet does not hold enough of the token for this operation.',
+    action: 'Get more tokens (the faucet mints test ETH) or use a smaller amount.'
+  },
+  'insufficient-allowance': {
+    kind: 'insufficient-allowance',
+    title: 'Insufficient allowance',
+    message: 'The contract is not approved to move this amount of your tokens.',
+    action: 'Try again and approve the requested amount when your wallet asks.'
+  },
+  'insufficient-gas': {
+    kind: 'insufficient-gas',
+    title: 'Not enough AVAX for gas',
+    message: 'Your wallet cannot pay the network fee for this transaction.',
+    action: 'Fund your wallet with AVAX from the Fuji faucet and try again.'
+  },
+  'paused': {
+    kind: 'paused',
+    title: 'Protocol paused',
+    message: 'The protocol is temporarily paused by its administrators.',
+    action: 'Wait until the protocol is unpaused and try again.'
+  },
+  'unauthorized': {
+    kind: 'unauthorized',
+    title: 'Not authorized',
+    message: 'This account is not allowed to perform this action.',
+    action: 'Switch to the account that owns the position or contract.'
+  },
+  'wrong-network': {
+    kind: 'wrong-network',
+    title: 'Wrong network',
+    message: 'Your wallet is connected to a different network than the app.',
+    action: 'Switch your wallet to Avalanche Fuji and try again.'
+  },
+  'rpc': {
+    kind: 'rpc',
+    title: 'Network error',
+    message: 'The RPC node did not respond correctly.',
+    action: 'Check your connection and retry in a few seconds.'
+  },
+  'unknown': {
+    kind: 'unknown',
+    title: 'Transaction failed',
+    message: 'The transaction could not be completed.',
+    action: null
+  }
+};
+
+// Revert strings de los contratos en src/Contracts
+const REVERT_REASONS: Record<string, ErrorTemplate> = {
+  'Contract paused': TEMPLATES.paused,
+  'Insufficient balance': TEMPLATES['insufficient-balance'],
+  'Insufficient allowance': TEMPLATES['insufficient-allowance'],
+  'Not position owner': TEMPLATES.unauthorized,
+  'Unauthorized': TEMPLATES.unauthorized,
+  'Position not active': {
+    kind: 'revert',
+    title: 'Position closed',
+    message: 'This position is no longer active.',
+    action: 'Refresh your positions.'
+  },
+  'Amount must be positive': {
+    kind: 'revert',
+    title: 'Invalid amount',
+    message: 'The amount must be greater than zero.',
+    action: 'Enter a positive amount.'
+  },
+  'Amount exceeds available collateral': {
+    kind: 'revert',
+    title: 'Amount too large',
+    message: 'The amount exceeds the collateral held by the position.',
+    action: 'Withdraw a smaller amount.'
+  },
+  'Insufficient vault liquidity': {
+    kind: 'revert',
+    title: 'Not enough liquidity',
+    message: 'The vault does not have enough liquidity for this amount.',
+    action: 'Try a smaller amount or wait for liquidity providers.'
+  },
+  'Collateral asset not supported': {
+    kind: 'revert',
+    title: 'Unsupported collateral',
+    message: 'No asset handler supports this collateral token.',
+    action: 'Choose a different collateral asset.'
+  },
+  'Loan asset not supported': {
+    kind: 'revert',
+    title: 'Unsupported loan asset',
+    message: 'No asset handler supports this loan token.',
+    action: 'Choose a different loan asset.'
+  },
+  'Assets must be different': {
+    kind: 'revert',
+    title: 'Same asset selected',
+    message: 'Collateral and loan assets must be different tokens.',
+    action: 'Pick a different loan or collateral asset.'
+  },
+  'Position not liquidatable': {
+    kind: 'revert',
+    title: 'Not liquidatable',
+    message: 'The position is healthy enough that it cannot be liquidated.',
+    action: 'Refresh the liquidation list.'
+  },
+  'Position not liquidatable by current rules': {
+    kind: 'revert',
+    title: 'Not liquidatable',
+    message: 'The position is healthy enough that it cannot be liquidated.',
+    action: 'Refresh the liquidation list.'
+  }
+};
+
+// Custom errors declarados en los ABIs (OpenZeppelin v5)
+const CUSTOM_ERRORS: Record<string, ErrorTemplate> = {
+  ERC20InsufficientBalance: TEMPLATES['insufficient-balance'],
+  ERC20InsufficientAllowance: TEMPLATES['insufficient-allowance'],
+  OwnableUnauthorizedAccount: TEMPLATES.unauthorized,
+  SafeERC20FailedOperation: {
+    kind: 'revert',
+    title: 'Token transfer failed',
+    message: 'The token rejected the transfer.',
+    action: 'Check your token balance and approvals, then try again.'
+  }
+};
+
+type AbiErrorItem = Extract<Abi[number], { type: 'error' }>;
+
+// Todos los errores de los ABIs del protocolo, para decodificar revert data sin contexto de contrato
+const PROTOCOL_ERRORS_ABI: Abi = ([
+  ...FLEXIBLE_LOAN_MANAGER_ABI,
+  ...VAULT_BASED_HANDLER_ABI,
+  ...LOAN_AUTOMATION_KEEPER_OPTIMIZED_ABI,
+  ...LOAN_MANAGER_AUTOMATION_ADAPTER_ABI,
+  ...MOCK_VCOP_ORACLE_ABI,
+  ...PRICE_CHANGE_LOG_TRIGGER_ABI,
+  ...MOCK_ETH_ABI,
+  ...MOCK_USDC_ABI
+] as Abi)
+  .filter((item): item is AbiErrorItem => item.type === 'error')
+  .filter((item, index, all) => all.findIndex(other => other.name === item.name) === index);
+
+// ===================================
+// 🔍 DECODIFICACIÓN
+// ===================================
+
+const decodeRevertData = (data: Hex): string | null => {
+  try {
+    const decoded = decodeErrorResult({ abi: PROTOCOL_ERRORS_ABI, data });
+    if (decoded.errorName === 'Error' && typeof decoded.args?.[0] === 'string') return decoded.args[0];
+    return decoded.errorName;
+  } catch {
+    return null;
+  }
+};
+
+const findRevertReason = (error: unknown, message: string): string | null => {
+  if (error instanceof BaseError) {
+    const reverted = error.walk(err => err instanceof ContractFunctionRevertedError);
+    if (reverted instanceof ContractFunctionRevertedError) {
+      return reverted.reason ?? reverted.data?.errorName ?? null;
+    }
+
+    const raw = error.walk(err => err instanceof RawContractError);
+    if (raw instanceof RawContractError && typeof raw.data === 'string') {
+      return decodeRevertData(raw.data);
+    }
+  }
+
+  // Wallets y nodos que devuelven solo texto:
+  // "reverted with the following reason:\nContract paused" o "execution reverted: Contract paused"
+  const match =
+    message.match(/following reason:\s*([^\n]+)/i) ??
+    message.match(/execution reverted:\s*'?([^'\n]+?)'?\s*(?:\n|$)/i);
+  return match ? match[1].trim() : null;
+};
+
+const classifyByMessage = (message: string): ErrorTemplate | null => {
+  const text = message.toLowerCase();
+
+  if (text.includes('user rejected') || text.includes('user denied')) return TEMPLATES['user-rejected'];
+  if (text.includes('insufficient funds')) return TEMPLATES['insufficient-gas'];
+  if (text.includes('exceeds allowance') || text.includes('insufficient allowance')) return TEMPLATES['insufficient-allowance'];
+  if (text.includes('exceeds balance') || text.includes('insufficient balance')) return TEMPLATES['insufficient-balance'];
+  if (text.includes('paused')) return TEMPLATES.paused;
+  if (text.includes('failed to fetch') || text.includes('network error') || text.includes('timed out')) return TEMPLATES.rpc;
+
+  return null;
+};
+
+const hasErrorCode = (error: unknown, code: number): boolean =>
+  error instanceof BaseError && !!error.walk(err => (err as { code?: unknown }).code === code);
+
+/**
+ * Clasifica cualquier error de wagmi/viem (o de la wallet) en un resultado legible
+ * con una acción sugerida. El revert se decodifica contra los ABIs de src/Abis.
+ */
+export const decodeTransactionError = (error: unknown): DecodedTransactionError => {
+  const raw = error instanceof BaseError
+    ? error.shortMessage
+    : error instanceof Error ? error.message : String(error ?? '');
+  const fullMessage = error instanceof Error ? error.message : raw;
+  const result = (template: ErrorTemplate, reason: string | null = null): DecodedTransactionError =>
+    ({ ...template, reason, details: raw });
+
+  if (error instanceof BaseError) {
+    if (error.walk(err => err instanceof UserRejectedRequestError) || hasErrorCode(error, 4001)) {
+      return result(TEMPLATES['user-rejected']);
+    }
+    if (error.walk(err => err instanceof InsufficientFundsError)) {
+      return result(TEMPLATES['insufficient-gas']);
+    }
+    if (error.walk(err => err instanceof ChainMismatchError)) {
+      return result(TEMPLATES['wrong-network']);
+    }
+  }
+
+  const reason = findRevertReason(error, fullMessage);
+  if (reason) {
+    const template = REVERT_REASONS[reason] ?? CUSTOM_ERRORS[reason] ?? classifyByMessage(reason);
+    return result(template ?? {
+      kind: 'revert',
+      title: 'Transaction reverted',
+      message: `The contract rejected the transaction: ${reason}.`,
+      action: 'Review the inputs and try again.'
+    }, reason);
+  }
+
+  if (error instanceof BaseError && error.walk(err =>
+    err instanceof HttpRequestError ||
+    err instanceof WebSocketRequestError ||
+    err instanceof TimeoutError ||
+    err instanceof RpcRequestError
+  )) {
+    return result(TEMPLATES.rpc);
+  }
+
+  const byMessage = classifyByMessage(fullMessage);
+  if (byMessage) return result(byMessage);
+
+  return result({ ...TEMPLATES.unknown, message: raw || TEMPLATES.unknown.message });
+};
+
+/**
+ * Versión de una línea para los hooks que exponen el error como string
+ */
+export const formatTransactionError = (error: unknown): string => {
+  const decoded = decodeTransactionError(error);
+  return decoded.action ? `${decoded.message} ${decoded.action}` : decoded.message;
+};
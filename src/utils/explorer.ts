@@ -0,0 +1,29 @@
+import type { Chain } from 'viem';
+import { avalancheFuji } from '../config/networks';
+
+// ===================================
+// 🔗 ENLACES AL BLOCK EXPLORER
+// ===================================
+
+export type ExplorerResource = 'tx' | 'address' | 'token' | 'block';
+
+export interface BlockExplorer {
+  name: string;
+  url: string;
+}
+
+/**
+ * Explorer por defecto de la red; sin red conectada (o sin explorer) se usa el de Fuji
+ */
+export const getBlockExplorer = (chain?: Pick<Chain, 'blockExplorers'> | null): BlockExplorer =>
+  chain?.blockExplorers?.default ?? avalancheFuji.blockExplorers.default;
+
+/**
+ * URL de una transacción, dirección, token o bloque. Las rutas siguen el esquema de
+ * Etherscan, que comparten SnowTrace y el resto de explorers configurados en wagmi.
+ */
+export const getExplorerUrl = (
+  explorer: BlockExplorer,
+  resource: ExplorerResource,
+  value: string | bigint | number
+): string => `${explorer.url.replace(/\/+$/, '')}/${resource}/${value.toString()}`;
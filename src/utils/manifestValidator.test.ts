@@ -0,0 +1,130 @@
+import { describe, it, expect } from 'vitest';
+import { getAddress, zeroAddress } from 'viem';
+import { validateManifest, formatManifestErrors } from './manifestValidator';
+
+const address = (digit: string) => `0x${digit.repeat(40)}`;
+const NOT_DEPLOYED: string = zeroAddress;
+
+// Flips the case of the first hex letter so the EIP-55 checksum no longer matches
+const breakChecksum = (checksummed: string) => {
+  const index = checksummed.slice(2).search(/[a-fA-F]/) + 2;
+  const char = checksummed[index];
+  const flipped = char === char.toUpperCase() ? char.toLowerCase() : char.toUpperCase();
+  return checksummed.slice(0, index) + flipped + checksummed.slice(index + 1);
+};
+
+const manifest = () => ({
+  tokens: {
+    mockETH: address('a'),
+    mockWBTC: address('b'),
+    mockUSDC: address('c'),
+    vcopToken: address('d'),
+    mockWGOLD: NOT_DEPLOYED
+  },
+  vcopCollateral: {
+    mockVcopOracle: address('e')
+  },
+  coreLending: {
+    flexibleLoanManager: address('1'),
+    mintableBurnableHandler: address('2'),
+    vaultBasedHandler: address('3'),
+    flexibleAssetHandler: address('4')
+  },
+  config: {
+    feeCollector: address('5'),
+    usdToCopRate: '4200'
+  },
+  automation: {}
+});
+
+const issueAt = (result: ReturnType<typeof validateManifest>, path: string) =>
+  result.issues.find((issue) => issue.path === path);
+
+describe('validateManifest', () => {
+  it('accepts lowercase addresses and stores them checksummed', () => {
+    const result = validateManifest(manifest());
+
+    expect(result.isValid).toBe(true);
+    expect(result.values.tokens.mockETH).toBe(getAddress(address('a')));
+    expect(result.values.config.usdToCopRate).toBe('4200');
+  });
+
+  it('rejects a mixed-case address whose checksum does not match', () => {
+    const data = manifest();
+    const checksummed = getAddress('0x5aaeb6053f3e94c9b9a09f33669435e7ef1beaed');
+    data.coreLending.flexibleLoanManager = breakChecksum(checksummed);
+
+    const result = validateManifest(data);
+
+    expect(result.isValid).toBe(false);
+    expect(issueAt(result, 'coreLending.flexibleLoanManager')).toEqual({
+      severity: 'error',
+      path: 'coreLending.flexibleLoanManager',
+      message: `Checksum mismatch, expected ${checksummed}`
+    });
+    expect(result.entries.find((entry) => entry.path === 'coreLending.flexibleLoanManager')?.address).toBeNull();
+  });
+
+  it('accepts a mixed-case address with a valid checksum', () => {
+    const data = manifest();
+    data.coreLending.flexibleLoanManager = getAddress('0x5aaeb6053f3e94c9b9a09f33669435e7ef1beaed');
+
+    expect(validateManifest(data).isValid).toBe(true);
+  });
+
+  it('only warns about a bad checksum on an optional contract', () => {
+    const data = manifest();
+    data.tokens.mockWGOLD = breakChecksum(getAddress('0x5aaeb6053f3e94c9b9a09f33669435e7ef1beaed'));
+
+    const result = validateManifest(data);
+
+    expect(result.isValid).toBe(true);
+    expect(issueAt(result, 'tokens.mockWGOLD')?.severity).toBe('warning');
+  });
+
+  it('rejects the zero address for a required contract', () => {
+    const data = manifest();
+    data.coreLending.vaultBasedHandler = zeroAddress;
+
+    const result = validateManifest(data);
+
+    expect(result.isValid).toBe(false);
+    expect(issueAt(result, 'coreLending.vaultBasedHandler')).toEqual({
+      severity: 'error',
+      path: 'coreLending.vaultBasedHandler',
+      message: 'Required contract is the zero address'
+    });
+    expect(formatManifestErrors(result.issues)).toBe(
+      'Invalid deployment manifest: coreLending.vaultBasedHandler: Required contract is the zero address'
+    );
+  });
+
+  it('treats the zero address on an optional contract as not deployed', () => {
+    const result = validateManifest(manifest());
+    const entry = result.entries.find((item) => item.path === 'tokens.mockWGOLD');
+
+    expect(issueAt(result, 'tokens.mockWGOLD')?.severity).toBe('info');
+    expect(entry).toMatchObject({ isZero: true, expectsBytecode: false });
+  });
+
+  it('does not expect bytecode at the fee collector wallet', () => {
+    const result = validateManifest(manifest());
+
+    expect(result.entries.find((entry) => entry.path === 'config.feeCollector')?.expectsBytecode).toBe(false);
+    expect(result.entries.find((entry) => entry.path === 'tokens.mockETH')?.expectsBytecode).toBe(true);
+  });
+
+  it('rejects values that are not 20-byte hex addresses', () => {
+    const data = manifest();
+    data.tokens.mockUSDC = '0x1234';
+
+    const result = validateManifest(data);
+
+    expect(result.isValid).toBe(false);
+    expect(issueAt(result, 'tokens.mockUSDC')?.message).toBe('"0x1234" is not a 20-byte hex address');
+  });
+
+  it('rejects input that is not an object', () => {
+    expect(validateManifest(null).isValid).toBe(false);
+  });
+});
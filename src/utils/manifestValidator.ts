@@ -0,0 +1,245 @@
+import { getAddress, zeroAddress, type Address, type PublicClient } from 'viem';
+
+// ===================================
+// 📋 ESQUEMA DEL MANIFIESTO DE DESPLIEGUE
+// ===================================
+
+type FieldKind = 'address' | 'uint';
+
+interface ManifestField {
+  kind: FieldKind;
+  required: boolean;   // Requerido = la app no funciona sin un contrato desplegado ahí
+}
+
+// Secciones y campos de deployed-addresses-*.json
+export const MANIFEST_SCHEMA: Record<string, Record<string, ManifestField>> = {
+  tokens: {
+    mockETH: { kind: 'address', required: true },
+    mockWBTC: { kind: 'address', required: true },
+    mockUSDC: { kind: 'address', required: true },
+    vcopToken: { kind: 'address', required: true },
+    mockWGOLD: { kind: 'address', required: false }
+  },
+  vcopCollateral: {
+    mockVcopOracle: { kind: 'address', required: true },
+    vcopPriceCalculator: { kind: 'address', required: false },
+    vcopCollateralManager: { kind: 'address', required: false },
+    vcopCollateralHook: { kind: 'address', required: false }
+  },
+  coreLending: {
+    riskCalculator: { kind: 'address', required: false },
+    genericLoanManager: { kind: 'address', required: false },
+    flexibleLoanManager: { kind: 'address', required: true },
+    mintableBurnableHandler: { kind: 'address', required: true },
+    vaultBasedHandler: { kind: 'address', required: true },
+    flexibleAssetHandler: { kind: 'address', required: true },
+    dynamicPriceRegistry: { kind: 'address', required: false }
+  },
+  config: {
+    poolManager: { kind: 'address', required: false },
+    feeCollector: { kind: 'address', required: true },
+    usdToCopRate: { kind: 'uint', required: true }
+  },
+  automation: {
+    automationRegistry: { kind: 'address', required: false },
+    automationKeeper: { kind: 'address', required: false },
+    loanAdapter: { kind: 'address', required: false },
+    priceTrigger: { kind: 'address', required: false }
+  }
+};
+
+// Wallets (no contratos): no se les exige bytecode
+const EOA_FIELDS = new Set(['config.feeCollector']);
+
+// ===================================
+// 🔍 TIPOS
+// ===================================
+
+export type ManifestIssueSeverity = 'error' | 'warning' | 'info';
+
+export interface ManifestIssue {
+  severity: ManifestIssueSeverity;
+  path: string;          // p. ej. "coreLending.flexibleLoanManager"
+  message: string;
+}
+
+export interface ManifestEntry {
+  path: string;
+  section: string;
+  key: string;
+  required: boolean;
+  address: Address | null;        // Dirección con checksum, null si falta o es inválida
+  isZero: boolean;
+  expectsBytecode: boolean;
+}
+
+export interface ManifestValidationResult {
+  entries: ManifestEntry[];
+  values: Record<string, Record<string, string | undefined>>;
+  issues: ManifestIssue[];
+  isValid: boolean;               // Sin errores (warnings e info permitidos)
+}
+
+const ADDRESS_PATTERN = /^0x[a-fA-F0-9]{40}$/;
+
+// ===================================
+// ✅ VALIDACIÓN ESTRUCTURAL
+// ===================================
+
+/**
+ * Valida forma, checksum y direcciones cero del manifiesto.
+ * Un problema en un contrato requerido es un error; en uno opcional, un warning.
+ */
+export const validateManifest = (manifest: unknown): ManifestValidationResult => {
+  const issues: ManifestIssue[] = [];
+  const entries: ManifestEntry[] = [];
+  const values: Record<string, Record<string, string | undefined>> = {};
+
+  if (!manifest || typeof manifest !== 'object') {
+    return {
+      entries,
+      values,
+      issues: [{ severity: 'error', path: '(root)', message: 'Manifest is not a JSON object' }],
+      isValid: false
+    };
+  }
+
+  const data = manifest as Record<string, unknown>;
+
+  for (const [section, fields] of Object.entries(MANIFEST_SCHEMA)) {
+    const rawSection = data[section];
+    values[section] = {};
+
+    if (!rawSection || typeof rawSection !== 'object') {
+      const hasRequired = Object.values(fields).some((field) => field.required);
+      issues.push({
+        severity: hasRequired ? 'error' : 'warning',
+        path: section,
+        message: `Missing section "${section}"`
+      });
+    }
+
+    const sectionData = (rawSection && typeof rawSection === 'object' ? rawSection : {}) as Record<string, unknown>;
+
+    for (const [key, field] of Object.entries(fields)) {
+      const path = `${section}.${key}`;
+      const raw = sectionData[key];
+      const problem = field.required ? 'error' : 'warning';
+
+      if (raw === undefined || raw === null || raw === '') {
+        if (rawSection && typeof rawSection === 'object') {
+          issues.push({ severity: problem, path, message: 'Missing value' });
+        }
+        if (field.kind === 'address') {
+          entries.push({ path, section, key, required: field.required, address: null, isZero: false, expectsBytecode: false });
+        }
+        continue;
+      }
+
+      if (typeof raw !== 'string') {
+        issues.push({ severity: problem, path, message: `Expected a string, got ${typeof raw}` });
+        continue;
+      }
+
+      if (field.kind === 'uint') {
+        if (!/^\d+$/.test(raw)) {
+          issues.push({ severity: problem, path, message: `"${raw}" is not an unsigned integer` });
+          continue;
+        }
+        values[section][key] = raw;
+        continue;
+      }
+
+      if (!ADDRESS_PATTERN.test(raw)) {
+        issues.push({ severity: problem, path, message: `"${raw}" is not a 20-byte hex address` });
+        entries.push({ path, section, key, required: field.required, address: null, isZero: false, expectsBytecode: false });
+        continue;
+      }
+
+      // Mayúsculas y minúsculas mezcladas = checksum EIP-55 que debe coincidir
+      const checksummed = getAddress(raw);
+      const isMixedCase = raw !== raw.toLowerCase() && raw.slice(2) !== raw.slice(2).toUpperCase();
+      if (isMixedCase && raw !== checksummed) {
+        issues.push({ severity: problem, path, message: `Checksum mismatch, expected ${checksummed}` });
+        entries.push({ path, section, key, required: field.required, address: null, isZero: false, expectsBytecode: false });
+        continue;
+      }
+
+      const isZero = checksummed === zeroAddress;
+      if (isZero) {
+        issues.push({
+          severity: field.required ? 'error' : 'info',
+          path,
+          message: field.required ? 'Required contract is the zero address' : 'Not deployed (zero address)'
+        });
+      }
+
+      values[section][key] = checksummed;
+      entries.push({
+        path,
+        section,
+        key,
+        required: field.required,
+        address: checksummed,
+        isZero,
+        expectsBytecode: !isZero && !EOA_FIELDS.has(path)
+      });
+    }
+  }
+
+  return {
+    entries,
+    values,
+    issues,
+    isValid: !issues.some((issue) => issue.severity === 'error')
+  };
+};
+
+// ===================================
+// 🌐 VALIDACIÓN ON-CHAIN
+// ===================================
+
+/**
+ * Confirma que hay bytecode en cada contrato del manifiesto en la red activa
+ */
+export const checkManifestBytecode = async (
+  client: PublicClient,
+  entries: ManifestEntry[]
+): Promise<{ missing: Set<string>; issues: ManifestIssue[] }> => {
+  const missing = new Set<string>();
+  const issues: ManifestIssue[] = [];
+  const targets = entries.filter((entry) => entry.expectsBytecode && entry.address);
+
+  const results = await Promise.allSettled(
+    targets.map((entry) => client.getCode({ address: entry.address as Address }))
+  );
+
+  results.forEach((result, index) => {
+    const entry = targets[index];
+    if (result.status === 'rejected') {
+      issues.push({ severity: 'warning', path: entry.path, message: 'Could not read bytecode from the RPC' });
+      return;
+    }
+    if (!result.value || result.value === '0x') {
+      missing.add(entry.path);
+      issues.push({
+        severity: entry.required ? 'error' : 'warning',
+        path: entry.path,
+        message: `No contract deployed at ${entry.address} on this chain`
+      });
+    }
+  });
+
+  return { missing, issues };
+};
+
+/**
+ * Resumen legible del primer error, para mensajes de error de los hooks
+ */
+export const formatManifestErrors = (issues: ManifestIssue[]): string | null => {
+  const errors = issues.filter((issue) => issue.severity === 'error');
+  if (errors.length === 0) return null;
+  const [first] = errors;
+  const more = errors.length > 1 ? ` (+${errors.length - 1} more, see deployment diagnostics)` : '';
+  return `Invalid deployment manifest: ${first.path}: ${first.message}${more}`;
+};
@@ -0,0 +1,161 @@
+import { describe, it, expect } from 'vitest';
+import { maxUint256 } from 'viem';
+import {
+  NO_DEBT_RATIO,
+  DEFAULT_LIQUIDATION_RATIO,
+  RiskLevel,
+  calculateAssetValue,
+  calculateCollateralizationRatio,
+  calculateHealthFactor,
+  calculateLiquidationPrice,
+  getRiskLevel,
+  assessRisk,
+  assessRatioRisk,
+  collateralizationRatioToLtv,
+  formatHealthFactor,
+  formatCollateralizationRatio
+} from './riskEngine';
+
+const ONE_ETH = 10n ** 18n;
+const usd = (value: number) => BigInt(value) * 1000000n;
+
+describe('calculateAssetValue', () => {
+  it('prices amounts with different decimals in PRICE_DECIMALS', () => {
+    expect(calculateAssetValue(ONE_ETH, 18, usd(2000))).toBe(usd(2000));
+    expect(calculateAssetValue(50000000n, 8, usd(40000))).toBe(usd(20000));
+  });
+});
+
+describe('calculateCollateralizationRatio', () => {
+  it('divides collateral by debt with 6 decimals', () => {
+    expect(calculateCollateralizationRatio(usd(3000), usd(2000))).toBe(1500000n);
+  });
+
+  it('returns NO_DEBT_RATIO when there is no debt', () => {
+    expect(calculateCollateralizationRatio(usd(3000), 0n)).toBe(NO_DEBT_RATIO);
+  });
+});
+
+describe('calculateHealthFactor', () => {
+  it('is the ratio over the liquidation threshold', () => {
+    expect(calculateHealthFactor(1650000n, 1100000n)).toBe(1500000n);
+    expect(calculateHealthFactor(1100000n)).toBe(1000000n);
+  });
+
+  it('keeps NO_DEBT_RATIO for positions without debt', () => {
+    expect(calculateHealthFactor(NO_DEBT_RATIO)).toBe(NO_DEBT_RATIO);
+  });
+
+  it('returns 0 for a zero liquidation ratio', () => {
+    expect(calculateHealthFactor(1500000n, 0n)).toBe(0n);
+  });
+});
+
+describe('calculateLiquidationPrice', () => {
+  it('returns the collateral price at which the ratio reaches the threshold', () => {
+    expect(calculateLiquidationPrice(ONE_ETH, 18, usd(2000), 1100000n)).toBe(usd(2200));
+    expect(calculateLiquidationPrice(2n * ONE_ETH, 18, usd(2000), 1100000n)).toBe(usd(1100));
+  });
+
+  it('returns 0 without collateral or without debt', () => {
+    expect(calculateLiquidationPrice(0n, 18, usd(2000))).toBe(0n);
+    expect(calculateLiquidationPrice(ONE_ETH, 18, 0n)).toBe(0n);
+  });
+});
+
+describe('getRiskLevel', () => {
+  it.each([
+    [3000000n, RiskLevel.ULTRA_SAFE],
+    [2999999n, RiskLevel.HEALTHY],
+    [2000000n, RiskLevel.HEALTHY],
+    [1999999n, RiskLevel.MODERATE],
+    [1500000n, RiskLevel.MODERATE],
+    [1499999n, RiskLevel.AGGRESSIVE],
+    [1100000n, RiskLevel.AGGRESSIVE],
+    [1099999n, RiskLevel.EXTREME],
+    [1010000n, RiskLevel.EXTREME],
+    [1009999n, RiskLevel.DANGER_ZONE],
+    [0n, RiskLevel.DANGER_ZONE]
+  ])('maps a ratio of %s to %s', (ratio, level) => {
+    expect(getRiskLevel(ratio)).toBe(level);
+  });
+});
+
+describe('assessRisk', () => {
+  it('assesses a healthy position', () => {
+    const risk = assessRisk({
+      collateralAmount: ONE_ETH,
+      collateralDecimals: 18,
+      collateralPrice: usd(2000),
+      debtAmount: usd(1000),
+      debtDecimals: 6,
+      debtPrice: usd(1)
+    });
+
+    expect(risk.collateralizationRatio).toBe(2000000n);
+    expect(risk.healthFactor).toBe(1818181n);
+    expect(risk.liquidationPrice).toBe(usd(1100));
+    expect(risk.liquidationRatio).toBe(DEFAULT_LIQUIDATION_RATIO);
+    expect(risk.riskLevel).toBe(RiskLevel.HEALTHY);
+    expect(risk.isLiquidatable).toBe(false);
+    expect(risk.hasDebt).toBe(true);
+  });
+
+  it('flags a position below the liquidation ratio', () => {
+    const risk = assessRisk({
+      collateralAmount: ONE_ETH,
+      collateralDecimals: 18,
+      collateralPrice: usd(2000),
+      debtAmount: usd(1900),
+      debtDecimals: 6,
+      debtPrice: usd(1)
+    });
+
+    expect(risk.collateralizationRatio).toBe(1052631n);
+    expect(risk.riskLevel).toBe(RiskLevel.EXTREME);
+    expect(risk.isLiquidatable).toBe(true);
+  });
+
+  it('treats a position without debt as not liquidatable', () => {
+    const risk = assessRisk({
+      collateralAmount: ONE_ETH,
+      collateralDecimals: 18,
+      collateralPrice: usd(2000),
+      debtAmount: 0n,
+      debtDecimals: 6,
+      debtPrice: usd(1)
+    });
+
+    expect(risk.collateralizationRatio).toBe(NO_DEBT_RATIO);
+    expect(risk.healthFactor).toBe(NO_DEBT_RATIO);
+    expect(risk.liquidationPrice).toBe(0n);
+    expect(risk.isLiquidatable).toBe(false);
+    expect(risk.hasDebt).toBe(false);
+  });
+});
+
+describe('NO_DEBT_RATIO', () => {
+  // getCollateralizationRatio devuelve type(uint256).max sin deuda o con la posición inactiva
+  it('matches type(uint256).max', () => {
+    expect(NO_DEBT_RATIO).toBe(maxUint256);
+  });
+
+  it('is handled by ratio-based assessment and formatting', () => {
+    const risk = assessRatioRisk(maxUint256);
+
+    expect(risk.hasDebt).toBe(false);
+    expect(risk.isLiquidatable).toBe(false);
+    expect(risk.healthFactor).toBe(NO_DEBT_RATIO);
+    expect(risk.riskLevel).toBe(RiskLevel.ULTRA_SAFE);
+    expect(formatHealthFactor(risk.healthFactor)).toBe('∞');
+    expect(formatCollateralizationRatio(maxUint256)).toBe('∞');
+    expect(collateralizationRatioToLtv(maxUint256)).toBe(0);
+  });
+
+  it('does not mark an on-chain ratio just under the threshold as safe', () => {
+    const risk = assessRatioRisk(1099999n);
+
+    expect(risk.hasDebt).toBe(true);
+    expect(risk.isLiquidatable).toBe(true);
+  });
+});
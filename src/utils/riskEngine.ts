@@ -0,0 +1,247 @@
+import {
+  Shield,
+  Activity,
+  Target,
+  AlertTriangle,
+  TrendingDown,
+  Calculator
+} from 'lucide-react';
+import { parseUnits } from 'viem';
+
+// ===================================
+// 📐 PRECISIÓN (igual que FlexibleLoanManager)
+// ===================================
+
+// Ratios, health factors y precios usan 6 decimales: 1000000 = 100% / 1.0x / $1
+export const RISK_PRECISION = 1000000n;
+export const PRICE_DECIMALS = 6;
+
+// getCollateralizationRatio devuelve type(uint256).max cuando no hay deuda
+export const NO_DEBT_RATIO = 2n ** 256n - 1n;
+
+// ===================================
+// 🚦 NIVELES DE RIESGO
+// ===================================
+
+export enum RiskLevel {
+  ULTRA_SAFE = 'ULTRA_SAFE',       // ≥ 300%
+  HEALTHY = 'HEALTHY',             // 200% - 300%
+  MODERATE = 'MODERATE',           // 150% - 200%
+  AGGRESSIVE = 'AGGRESSIVE',       // 110% - 150%
+  EXTREME = 'EXTREME',             // 101% - 110%
+  DANGER_ZONE = 'DANGER_ZONE'      // < 101% (el sistema lo permite, pero es liquidable)
+}
+
+export const RISK_THRESHOLDS = {
+  ULTRA_SAFE: 3000000n,   // 300%
+  HEALTHY: 2000000n,      // 200%
+  MODERATE: 1500000n,     // 150%
+  AGGRESSIVE: 1100000n,   // 110%
+  EXTREME: 1010000n       // 101%
+} as const;
+
+// Umbrales de liquidación SUGERIDOS por colateral (FlexibleAssetHandler no los impone)
+const SUGGESTED_LIQUIDATION_RATIOS: Record<string, bigint> = {
+  ETH: 1100000n,    // 110%
+  WBTC: 1100000n,   // 110%
+  WGOLD: 1100000n,  // 110%
+  USDC: 1050000n,   // 105%
+  VCOP: 1050000n    // 105%
+};
+
+export const DEFAULT_LIQUIDATION_RATIO = 1100000n;
+
+export const getSuggestedLiquidationRatio = (collateralSymbol: string): bigint => {
+  return SUGGESTED_LIQUIDATION_RATIOS[collateralSymbol] ?? DEFAULT_LIQUIDATION_RATIO;
+};
+
+// ===================================
+// 🧮 CÁLCULOS
+// ===================================
+
+export interface RiskInput {
+  collateralAmount: bigint;       // Unidades base del colateral
+  collateralDecimals: number;
+  collateralPrice: bigint;        // USD con PRICE_DECIMALS
+  debtAmount: bigint;             // Unidades base del loan asset (principal + interés)
+  debtDecimals: number;
+  debtPrice: bigint;              // USD con PRICE_DECIMALS
+  liquidationRatio?: bigint;      // Por defecto DEFAULT_LIQUIDATION_RATIO
+}
+
+export interface RiskAssessment {
+  collateralValue: bigint;        // USD con PRICE_DECIMALS
+  debtValue: bigint;              // USD con PRICE_DECIMALS
+  collateralizationRatio: bigint; // NO_DEBT_RATIO si no hay deuda
+  healthFactor: bigint;           // NO_DEBT_RATIO si no hay deuda
+  liquidationPrice: bigint;       // Precio del colateral (PRICE_DECIMALS) al que se alcanza liquidationRatio
+  liquidationRatio: bigint;
+  riskLevel: RiskLevel;
+  isLiquidatable: boolean;
+  hasDebt: boolean;
+}
+
+/**
+ * Convierte un precio en número (p. ej. del contexto de oracle) a PRICE_DECIMALS
+ */
+export const toPriceUnits = (price: number): bigint => {
+  if (!Number.isFinite(price) || price <= 0) return 0n;
+  return parseUnits(price.toFixed(PRICE_DECIMALS), PRICE_DECIMALS);
+};
+
+export const calculateAssetValue = (amount: bigint, decimals: number, price: bigint): bigint => {
+  return (amount * price) / 10n ** BigInt(decimals);
+};
+
+export const calculateCollateralizationRatio = (collateralValue: bigint, debtValue: bigint): bigint => {
+  if (debtValue === 0n) return NO_DEBT_RATIO;
+  return (collateralValue * RISK_PRECISION) / debtValue;
+};
+
+/**
+ * Health factor = ratio / umbral de liquidación. 1.0x significa liquidable.
+ */
+export const calculateHealthFactor = (
+  collateralizationRatio: bigint,
+  liquidationRatio: bigint = DEFAULT_LIQUIDATION_RATIO
+): bigint => {
+  if (collateralizationRatio === NO_DEBT_RATIO) return NO_DEBT_RATIO;
+  if (liquidationRatio === 0n) return 0n;
+  return (collateralizationRatio * RISK_PRECISION) / liquidationRatio;
+};
+
+/**
+ * Precio por unidad entera de colateral al que el ratio cae hasta liquidationRatio
+ */
+export const calculateLiquidationPrice = (
+  collateralAmount: bigint,
+  collateralDecimals: number,
+  debtValue: bigint,
+  liquidationRatio: bigint = DEFAULT_LIQUIDATION_RATIO
+): bigint => {
+  if (collateralAmount === 0n || debtValue === 0n) return 0n;
+  return (debtValue * liquidationRatio * 10n ** BigInt(collateralDecimals)) / (RISK_PRECISION * collateralAmount);
+};
+
+export const getRiskLevel = (collateralizationRatio: bigint): RiskLevel => {
+  if (collateralizationRatio >= RISK_THRESHOLDS.ULTRA_SAFE) return RiskLevel.ULTRA_SAFE;
+  if (collateralizationRatio >= RISK_THRESHOLDS.HEALTHY) return RiskLevel.HEALTHY;
+  if (collateralizationRatio >= RISK_THRESHOLDS.MODERATE) return RiskLevel.MODERATE;
+  if (collateralizationRatio >= RISK_THRESHOLDS.AGGRESSIVE) return RiskLevel.AGGRESSIVE;
+  if (collateralizationRatio >= RISK_THRESHOLDS.EXTREME) return RiskLevel.EXTREME;
+  return RiskLevel.DANGER_ZONE;
+};
+
+export const assessRisk = (input: RiskInput): RiskAssessment => {
+  const liquidationRatio = input.liquidationRatio ?? DEFAULT_LIQUIDATION_RATIO;
+  const collateralValue = calculateAssetValue(input.collateralAmount, input.collateralDecimals, input.collateralPrice);
+  const debtValue = calculateAssetValue(input.debtAmount, input.debtDecimals, input.debtPrice);
+  const collateralizationRatio = calculateCollateralizationRatio(collateralValue, debtValue);
+
+  return {
+    collateralValue,
+    debtValue,
+    collateralizationRatio,
+    healthFactor: calculateHealthFactor(collateralizationRatio, liquidationRatio),
+    liquidationPrice: calculateLiquidationPrice(
+      input.collateralAmount,
+      input.collateralDecimals,
+      debtValue,
+      liquidationRatio
+    ),
+    liquidationRatio,
+    riskLevel: getRiskLevel(collateralizationRatio),
+    isLiquidatable: debtValue > 0n && collateralizationRatio < liquidationRatio,
+    hasDebt: debtValue > 0n
+  };
+};
+
+/**
+ * Riesgo a partir de un ratio ya calculado on-chain (getCollateralizationRatio)
+ */
+export const assessRatioRisk = (
+  collateralizationRatio: bigint,
+  liquidationRatio: bigint = DEFAULT_LIQUIDATION_RATIO
+) => {
+  const hasDebt = collateralizationRatio !== NO_DEBT_RATIO;
+
+  return {
+    collateralizationRatio,
+    healthFactor: calculateHealthFactor(collateralizationRatio, liquidationRatio),
+    riskLevel: getRiskLevel(collateralizationRatio),
+    isLiquidatable: hasDebt && collateralizationRatio < liquidationRatio,
+    hasDebt
+  };
+};
+
+// LTV (%) ↔ ratio de colateralización (6 decimales): ratio = 100 / LTV
+export const ltvToCollateralizationRatio = (ltvPercent: number): bigint => {
+  if (!Number.isFinite(ltvPercent) || ltvPercent <= 0) return NO_DEBT_RATIO;
+  return BigInt(Math.round((100 * Number(RISK_PRECISION)) / ltvPercent));
+};
+
+export const collateralizationRatioToLtv = (collateralizationRatio: bigint): number => {
+  if (collateralizationRatio === NO_DEBT_RATIO || collateralizationRatio === 0n) return 0;
+  return (100 * Number(RISK_PRECISION)) / Number(collateralizationRatio);
+};
+
+/**
+ * Riesgo a partir de un LTV (formularios de creación de posiciones)
+ */
+export const assessLtvRisk = (ltvPercent: number, liquidationRatio: bigint = DEFAULT_LIQUIDATION_RATIO) => {
+  return assessRatioRisk(ltvToCollateralizationRatio(ltvPercent), liquidationRatio);
+};
+
+// ===================================
+// 🎨 FORMATO Y PRESENTACIÓN
+// ===================================
+
+export const formatHealthFactor = (healthFactor: bigint): string => {
+  if (healthFactor === NO_DEBT_RATIO) return '∞';
+  return (Number(healthFactor) / Number(RISK_PRECISION)).toFixed(2);
+};
+
+export const formatCollateralizationRatio = (collateralizationRatio: bigint): string => {
+  if (collateralizationRatio === NO_DEBT_RATIO) return '∞';
+  return `${(Number(collateralizationRatio) / 10000).toFixed(2)}%`;
+};
+
+export const formatRiskLevel = (riskLevel: RiskLevel): string => {
+  return riskLevel.replace('_', ' ');
+};
+
+export const getRiskIcon = (riskLevel: RiskLevel) => {
+  switch (riskLevel) {
+    case RiskLevel.ULTRA_SAFE: return Shield;
+    case RiskLevel.HEALTHY: return Shield;
+    case RiskLevel.MODERATE: return Activity;
+    case RiskLevel.AGGRESSIVE: return Target;
+    case RiskLevel.EXTREME: return AlertTriangle;
+    case RiskLevel.DANGER_ZONE: return TrendingDown;
+    default: return Calculator;
+  }
+};
+
+export const getRiskLevelColor = (riskLevel: RiskLevel): string => {
+  switch (riskLevel) {
+    case RiskLevel.ULTRA_SAFE: return 'text-green-800';
+    case RiskLevel.HEALTHY: return 'text-green-600';
+    case RiskLevel.MODERATE: return 'text-blue-600';
+    case RiskLevel.AGGRESSIVE: return 'text-yellow-600';
+    case RiskLevel.EXTREME: return 'text-orange-600';
+    case RiskLevel.DANGER_ZONE: return 'text-red-600';
+    default: return 'text-gray-600';
+  }
+};
+
+export const getRiskLevelBgColor = (riskLevel: RiskLevel): string => {
+  switch (riskLevel) {
+    case RiskLevel.ULTRA_SAFE: return 'bg-green-200';
+    case RiskLevel.HEALTHY: return 'bg-green-100';
+    case RiskLevel.MODERATE: return 'bg-blue-100';
+    case RiskLevel.AGGRESSIVE: return 'bg-yellow-100';
+    case RiskLevel.EXTREME: return 'bg-orange-100';
+    case RiskLevel.DANGER_ZONE: return 'bg-red-100';
+    default: return 'bg-gray-100';
+  }
+};